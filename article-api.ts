@@ -20,7 +20,15 @@
  * SOFTWARE.
  */
 
+import { FetchHttpClient } from "@effect/platform";
 import { config } from "dotenv";
+import { Effect, Either, pipe } from "effect";
+import {
+	FetcherError,
+	fetcher,
+	isRetryableError,
+	type ValidationError,
+} from "./effect-fetch.js";
 
 config();
 
@@ -240,52 +248,67 @@ class MediastackAPI {
 
 		const url = this.buildUrl(endpoint, params);
 
-		try {
-			const response = await fetch(url);
-			const data = await response.json();
-
-			if (!response.ok) {
-				const error = data as APIError;
-
-				// Handle rate limit errors specifically
-				if (error.error.code === "rate_limit_reached") {
-					console.error("❌ Rate limit exceeded. Consider:");
-					console.error("   - Reducing request frequency");
-					console.error("   - Upgrading to a paid plan");
-					console.error("   - Implementing longer delays between requests");
-					throw new Error(
-						`Rate limit exceeded. Try again later or upgrade your plan.`,
-					);
-				}
+		const result = await Effect.runPromise(
+			pipe(
+				fetcher<T>(url, "GET", {
+					retry: {
+						maxRetries: 2,
+						baseDelay: this.minRequestInterval,
+						// Mediastack's 429 means the plan quota is used up, so retrying cannot help
+						shouldRetry: (error) =>
+							isRetryableError(error) &&
+							!(error instanceof FetcherError && error.status === 429),
+					},
+				}),
+				Effect.provide(FetchHttpClient.layer),
+				Effect.either,
+			),
+		);
 
-				// Handle validation errors
-				if (error.error.code === "validation_error") {
-					console.error("❌ Validation error. This might be due to:");
-					console.error("   - Invalid parameters for your plan level");
-					console.error("   - Endpoint not available on free plan");
-					console.error("   - Parameter formatting issue");
-					throw new Error(`Validation error: ${error.error.message}`);
-				}
+		if (Either.isLeft(result)) {
+			throw this.toError(result.left);
+		}
 
-				// Handle function access restrictions
-				if (error.error.code === "function_access_restricted") {
-					console.error("❌ Feature not available on your current plan");
-					throw new Error(`Feature not available: ${error.error.message}`);
-				}
+		console.log(`✅ Request successful (${this.requestCount} requests made)`);
+		return result.right;
+	}
 
-				throw new Error(
-					`API Error (${error.error.code}): ${error.error.message}`,
-				);
-			}
+	/**
+	 * Map fetcher errors to errors carrying Mediastack's error code and message
+	 */
+	private toError(error: FetcherError | ValidationError): Error {
+		const apiError = (error.responseData as APIError | undefined)?.error;
+		if (!(error instanceof FetcherError) || !apiError) {
+			return new Error(error.message);
+		}
 
-			console.log(`✅ Request successful (${this.requestCount} requests made)`);
-			return data as T;
-		} catch (error) {
-			if (error instanceof Error) {
-				throw error;
-			}
-			throw new Error("Unknown error occurred while making API request");
+		// Handle rate limit errors specifically
+		if (apiError.code === "rate_limit_reached") {
+			console.error("❌ Rate limit exceeded. Consider:");
+			console.error("   - Reducing request frequency");
+			console.error("   - Upgrading to a paid plan");
+			console.error("   - Implementing longer delays between requests");
+			return new Error(
+				`Rate limit exceeded. Try again later or upgrade your plan.`,
+			);
 		}
+
+		// Handle validation errors
+		if (apiError.code === "validation_error") {
+			console.error("❌ Validation error. This might be due to:");
+			console.error("   - Invalid parameters for your plan level");
+			console.error("   - Endpoint not available on free plan");
+			console.error("   - Parameter formatting issue");
+			return new Error(`Validation error: ${apiError.message}`);
+		}
+
+		// Handle function access restrictions
+		if (apiError.code === "function_access_restricted") {
+			console.error("❌ Feature not available on your current plan");
+			return new Error(`Feature not available: ${apiError.message}`);
+		}
+
+		return new Error(`API Error (${apiError.code}): ${apiError.message}`);
 	}
 
 	/**
@@ -0,0 +1,176 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	type Coordinates2D,
+	type Coordinates3D,
+	Distance,
+	type DistanceFormula,
+	type DistanceOptions,
+	type SpatialIndexFormula,
+} from "./distance-formulas.js";
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32), so failures reproduce
+ */
+const seededRandom = (seed: number) => () => {
+	seed = (seed + 0x6d2b79f5) | 0;
+	let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+	t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+	return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+};
+
+/** Points spread over the globe plus a dense cluster, so radius queries find several */
+const randomPoints = (count: number, seed: number): Coordinates2D[] => {
+	const random = seededRandom(seed);
+	return Array.from({ length: count }, (_, i) =>
+		i % 2 === 0
+			? { lat: random() * 160 - 80, lng: random() * 360 - 180 }
+			: { lat: 48 + random() * 6, lng: 2 + random() * 10 },
+	);
+};
+
+const bruteForce = (
+	points: Coordinates2D[],
+	query: Coordinates2D,
+	formula: SpatialIndexFormula,
+	options: DistanceOptions = {},
+) =>
+	points
+		.map((point, index) => ({
+			index,
+			distance: Distance.calculate(formula, query, point, options),
+		}))
+		.sort((a, b) => a.distance - b.distance);
+
+const cases: [SpatialIndexFormula, number, DistanceOptions][] = [
+	["euclidean", 5, {}],
+	["manhattan", 5, {}],
+	["chebyshev", 5, {}],
+	["minkowski", 5, { p: 3 }],
+	["haversine", 300, {}],
+	["vincenty", 300, {}],
+];
+
+describe("Distance.matrix", () => {
+	const formulas: [DistanceFormula, DistanceOptions][] = [
+		["euclidean", {}],
+		["haversine", {}],
+		["vincenty", {}],
+		["manhattan", {}],
+		["chebyshev", {}],
+		["minkowski", { p: 3 }],
+		["threed", {}],
+		["cosine", {}],
+		["hamming", {}],
+		["jaccard", {}],
+		["sorensen-dice", {}],
+	];
+
+	test.each(formulas)("%s matches Distance.calculate", (formula, options) => {
+		const random = seededRandom(4);
+		const points: Coordinates3D[] = randomPoints(40, 5).map((point) => ({
+			...point,
+			alt: Math.round(random() * 2_000),
+		}));
+		// A repeated point must be at distance zero from its twin, not just itself
+		points.push({ ...points[3] });
+		const n = points.length;
+
+		const matrix = Distance.matrix(points, formula, options);
+
+		expect(matrix).toHaveLength(n * n);
+		for (let i = 0; i < n; i++) {
+			expect(matrix[i * n + i]).toBe(0);
+			for (let j = 0; j < n; j++) {
+				if (i === j) continue;
+				const expected = Distance.calculate(
+					formula,
+					points[i],
+					points[j],
+					options,
+				);
+				expect(matrix[i * n + j]).toBe(matrix[j * n + i]);
+				expect(Math.abs(matrix[i * n + j] - expected)).toBeLessThanOrEqual(
+					1e-9 * Math.max(1, Math.abs(expected)),
+				);
+			}
+		}
+		expect(matrix[3 * n + (n - 1)]).toBeCloseTo(0, 9);
+	});
+
+	test("returns an empty matrix for no points", () => {
+		expect(Distance.matrix([], "haversine")).toHaveLength(0);
+	});
+});
+
+describe("Distance.index", () => {
+	test.each(cases)(
+		"%s queries match a brute-force scan",
+		(formula, radius, options) => {
+			const points = randomPoints(2_000, 1);
+			const queries = randomPoints(25, 2);
+			const index = Distance.index(points, formula, options);
+
+			for (const query of queries) {
+				const expected = bruteForce(points, query, formula, options);
+
+				// Distances rather than indices, since equidistant points may come in either order
+				const nearest = index.nearest(query, 10);
+				expect(nearest.map((n) => n.distance)).toEqual(
+					expected.slice(0, 10).map((n) => n.distance),
+				);
+				for (const n of nearest) expect(n.point).toBe(points[n.index]);
+
+				const within = index.withinRadius(query, radius);
+				const inside = expected.filter((n) => n.distance <= radius);
+				expect(within.map((n) => n.distance)).toEqual(
+					inside.map((n) => n.distance),
+				);
+				expect(within.map((n) => n.index).sort((a, b) => a - b)).toEqual(
+					inside.map((n) => n.index).sort((a, b) => a - b),
+				);
+			}
+		},
+	);
+
+	test("builds a ball tree over a million points", () => {
+		const points = randomPoints(1_000_000, 3);
+		const index = Distance.index(points, "haversine");
+		const query = { lat: 50.85, lng: 4.35 };
+
+		expect(index.size).toBe(points.length);
+		expect(index.nearest(query, 5).map((n) => n.distance)).toEqual(
+			bruteForce(points, query, "haversine")
+				.slice(0, 5)
+				.map((n) => n.distance),
+		);
+	}, 60_000);
+
+	test("returns nothing from an empty index", () => {
+		const index = Distance.index([], "haversine");
+
+		expect(index.nearest({ lat: 0, lng: 0 }, 3)).toEqual([]);
+		expect(index.withinRadius({ lat: 0, lng: 0 }, 100)).toEqual([]);
+	});
+});
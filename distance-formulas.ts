@@ -37,6 +37,13 @@
  * const pointA = { lat: 40.7128, lng: -74.0060, alt: 100 };
  * const pointB = { lat: 51.5074, lng: -0.1278, alt: 200 };
  * const dist3d = Distance.threed(pointA, pointB);
+ *
+ * // All pairwise distances at once, and nearest-neighbour queries
+ * const venues = [nyc, london, { lat: 48.8566, lng: 2.3522 }];
+ * const matrix = Distance.matrix(venues, 'haversine'); // matrix[i * 3 + j]
+ * const index = Distance.index(venues, 'haversine');
+ * const [closest] = index.nearest({ lat: 50.85, lng: 4.35 }); // Paris
+ * const nearby = index.withinRadius(london, 500); // points within 500 km
  * ```
  *
  * @license Apache-2.0
@@ -124,6 +131,45 @@ export interface DistanceResult {
 	error?: string;
 }
 
+/**
+ * Formulas a spatial index can be built for.
+ * Planar formulas are indexed with a k-d tree, geographic ones with a ball tree.
+ * @category Types
+ */
+export type SpatialIndexFormula =
+	| "euclidean"
+	| "manhattan"
+	| "chebyshev"
+	| "minkowski"
+	| "haversine"
+	| "vincenty";
+
+/**
+ * A point found by a spatial index query.
+ * @category Types
+ */
+export interface Neighbor<T extends Coordinates2D> {
+	/** The indexed point */
+	point: T;
+	/** Position of the point in the array the index was built from */
+	index: number;
+	/** Distance from the query point, in the formula's unit (km for haversine and vincenty) */
+	distance: number;
+}
+
+/**
+ * Nearest-neighbour and radius queries over a fixed set of points.
+ * @category Types
+ */
+export interface SpatialIndex<T extends Coordinates2D> {
+	/** Number of indexed points */
+	readonly size: number;
+	/** The k points closest to the query, nearest first */
+	nearest(query: Coordinates2D, k?: number): Neighbor<T>[];
+	/** All points within the radius of the query (inclusive), nearest first */
+	withinRadius(query: Coordinates2D, radius: number): Neighbor<T>[];
+}
+
 // ============================================================================
 // Validation
 // ============================================================================
@@ -191,6 +237,9 @@ const VINCENTY_ITERATION_LIMIT = 100;
 /** Convergence threshold for Vincenty formula */
 const VINCENTY_CONVERGENCE_THRESHOLD = 1e-12;
 
+/** Largest number of points a ball tree leaf holds before it is split */
+const BALL_TREE_LEAF_SIZE = 16;
+
 // ============================================================================
 // Distance Class
 // ============================================================================
@@ -481,4 +530,527 @@ export class Distance {
 		}
 		return "vincenty";
 	}
+
+	/**
+	 * Computes the distances between all pairs of points.
+	 *
+	 * Each point is validated once instead of once per pair, and haversine reuses the
+	 * per-point trigonometry, which makes this much faster than calling a formula in a loop.
+	 *
+	 * @returns Dense row-major n×n matrix: the distance between points i and j is at `i * n + j`
+	 */
+	static matrix(
+		points: readonly (Coordinates2D | Coordinates3D)[],
+		formula: DistanceFormula = "euclidean",
+		options: DistanceOptions = {},
+	): Float64Array {
+		const n = points.length;
+		const matrix = new Float64Array(n * n);
+		const set = (i: number, j: number, distance: number) => {
+			matrix[i * n + j] = distance;
+			matrix[j * n + i] = distance;
+		};
+
+		if (formula === "haversine") {
+			points.forEach((point, i) => {
+				validateGeographicCoordinates(point, `points[${i}]`);
+			});
+
+			const lat = points.map((point) => (point.lat * Math.PI) / 180);
+			const lng = points.map((point) => (point.lng * Math.PI) / 180);
+			const cosLat = lat.map(Math.cos);
+
+			for (let i = 0; i < n; i++) {
+				for (let j = i + 1; j < n; j++) {
+					const a =
+						Math.sin((lat[j] - lat[i]) / 2) ** 2 +
+						cosLat[i] * cosLat[j] * Math.sin((lng[j] - lng[i]) / 2) ** 2;
+					set(i, j, EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)));
+				}
+			}
+			return matrix;
+		}
+
+		if (formula === "euclidean") {
+			points.forEach((point, i) => {
+				validateCoordinates2D(point, `points[${i}]`);
+			});
+
+			for (let i = 0; i < n; i++) {
+				for (let j = i + 1; j < n; j++) {
+					set(i, j, Math.hypot(points[j].lat - points[i].lat, points[j].lng - points[i].lng));
+				}
+			}
+			return matrix;
+		}
+
+		// Every formula is symmetric and zero on the diagonal, so only the upper triangle is computed
+		for (let i = 0; i < n; i++) {
+			for (let j = i + 1; j < n; j++) {
+				set(i, j, Distance.calculate(formula, points[i], points[j], options));
+			}
+		}
+		return matrix;
+	}
+
+	/**
+	 * Builds a spatial index for nearest-neighbour and radius queries: a k-d tree for planar
+	 * formulas, a ball tree for haversine and vincenty.
+	 *
+	 * @example
+	 * ```typescript
+	 * const index = Distance.index(venues, 'haversine');
+	 * index.nearest(hotel, 5); // five closest venues
+	 * index.withinRadius(hotel, 2); // venues within 2 km
+	 * ```
+	 */
+	static index<T extends Coordinates2D>(
+		points: readonly T[],
+		formula: SpatialIndexFormula = "haversine",
+		options: DistanceOptions = {},
+	): SpatialIndex<T> {
+		if (formula === "haversine" || formula === "vincenty") {
+			return new BallTree(points, formula);
+		}
+		return new KDTree(points, formula, options);
+	}
+}
+
+// ============================================================================
+// Spatial Index
+// ============================================================================
+
+function validateNeighborCount(k: number): void {
+	if (!Number.isInteger(k) || k < 1) {
+		throw new ValidationError("k must be a positive integer");
+	}
+}
+
+function validateRadius(radius: number): void {
+	if (!Number.isFinite(radius) || radius < 0) {
+		throw new ValidationError("radius must be a non-negative finite number");
+	}
+}
+
+/**
+ * Adds a candidate to the k nearest neighbours found so far, kept sorted by distance.
+ */
+function offerNeighbor<T extends Coordinates2D>(
+	best: Neighbor<T>[],
+	k: number,
+	candidate: Neighbor<T>,
+): void {
+	if (best.length === k) {
+		if (candidate.distance >= best[k - 1].distance) return;
+		best.pop();
+	}
+
+	let i = best.length;
+	while (i > 0 && best[i - 1].distance > candidate.distance) i--;
+	best.splice(i, 0, candidate);
+}
+
+/** Distance within which another neighbour still makes the k nearest */
+function worstDistance<T extends Coordinates2D>(best: Neighbor<T>[], k: number): number {
+	return best.length < k ? Number.POSITIVE_INFINITY : best[k - 1].distance;
+}
+
+interface KDNode {
+	index: number;
+	axis: "lat" | "lng";
+	left: KDNode | null;
+	right: KDNode | null;
+}
+
+/**
+ * k-d tree over latitude and longitude as plane coordinates.
+ *
+ * Splits alternate between the two axes at the median. A subtree across a split is skipped
+ * when the coordinate difference to the split is already larger than the distance to beat;
+ * that difference is a lower bound for euclidean, manhattan, chebyshev and minkowski alike.
+ *
+ * @category Geometry
+ */
+export class KDTree<T extends Coordinates2D> implements SpatialIndex<T> {
+	private readonly points: readonly T[];
+	private readonly formula: Exclude<SpatialIndexFormula, "haversine" | "vincenty">;
+	private readonly options: DistanceOptions;
+	private readonly root: KDNode | null;
+
+	constructor(
+		points: readonly T[],
+		formula: Exclude<SpatialIndexFormula, "haversine" | "vincenty"> = "euclidean",
+		options: DistanceOptions = {},
+	) {
+		points.forEach((point, i) => {
+			validateCoordinates2D(point, `points[${i}]`);
+		});
+
+		this.points = points;
+		this.formula = formula;
+		this.options = options;
+		this.root = this.build(
+			points.map((_, i) => i),
+			0,
+		);
+	}
+
+	get size(): number {
+		return this.points.length;
+	}
+
+	nearest(query: Coordinates2D, k: number = 1): Neighbor<T>[] {
+		validateCoordinates2D(query, "query");
+		validateNeighborCount(k);
+
+		const best: Neighbor<T>[] = [];
+		this.searchNearest(this.root, query, k, best);
+		return best;
+	}
+
+	withinRadius(query: Coordinates2D, radius: number): Neighbor<T>[] {
+		validateCoordinates2D(query, "query");
+		validateRadius(radius);
+
+		const found: Neighbor<T>[] = [];
+		this.searchRadius(this.root, query, radius, found);
+		return found.sort((a, b) => a.distance - b.distance);
+	}
+
+	private build(indices: number[], depth: number): KDNode | null {
+		if (indices.length === 0) return null;
+
+		const axis = depth % 2 === 0 ? "lat" : "lng";
+		indices.sort((a, b) => this.points[a][axis] - this.points[b][axis]);
+		const mid = indices.length >> 1;
+
+		return {
+			index: indices[mid],
+			axis,
+			left: this.build(indices.slice(0, mid), depth + 1),
+			right: this.build(indices.slice(mid + 1), depth + 1),
+		};
+	}
+
+	private neighbor(query: Coordinates2D, index: number): Neighbor<T> {
+		const point = this.points[index];
+		return {
+			point,
+			index,
+			distance: Distance.calculate(this.formula, query, point, this.options),
+		};
+	}
+
+	private searchNearest(
+		node: KDNode | null,
+		query: Coordinates2D,
+		k: number,
+		best: Neighbor<T>[],
+	): void {
+		if (!node) return;
+
+		offerNeighbor(best, k, this.neighbor(query, node.index));
+
+		const offset = query[node.axis] - this.points[node.index][node.axis];
+		const [near, far] = offset < 0 ? [node.left, node.right] : [node.right, node.left];
+
+		this.searchNearest(near, query, k, best);
+		if (Math.abs(offset) <= worstDistance(best, k)) {
+			this.searchNearest(far, query, k, best);
+		}
+	}
+
+	private searchRadius(
+		node: KDNode | null,
+		query: Coordinates2D,
+		radius: number,
+		found: Neighbor<T>[],
+	): void {
+		if (!node) return;
+
+		const neighbor = this.neighbor(query, node.index);
+		if (neighbor.distance <= radius) found.push(neighbor);
+
+		const offset = query[node.axis] - this.points[node.index][node.axis];
+		if (offset <= radius) this.searchRadius(node.left, query, radius, found);
+		if (offset >= -radius) this.searchRadius(node.right, query, radius, found);
+	}
+}
+
+interface BallNode {
+	/** Index of the point the ball is centred on */
+	center: number;
+	/** Distance from the center to its farthest member */
+	radius: number;
+	/** Member indices, for leaves only */
+	members?: number[];
+	left?: BallNode;
+	right?: BallNode;
+}
+
+/**
+ * Ball tree over geographic coordinates with haversine or vincenty distances.
+ *
+ * Every node is a ball around one of its points that contains all of its members. Both
+ * formulas are metrics on the globe, so by the triangle inequality no member can be closer
+ * to the query than `distance(query, center) - radius`, and whole balls are skipped on that
+ * bound. Unlike a k-d tree on raw degrees, this stays exact across the antimeridian and
+ * near the poles.
+ *
+ * @category Geometry
+ */
+export class BallTree<T extends Coordinates2D> implements SpatialIndex<T> {
+	private readonly points: readonly T[];
+	private readonly formula: "haversine" | "vincenty";
+	private readonly root: BallNode | null;
+
+	constructor(points: readonly T[], formula: "haversine" | "vincenty" = "haversine") {
+		points.forEach((point, i) => {
+			validateGeographicCoordinates(point, `points[${i}]`);
+		});
+
+		this.points = points;
+		this.formula = formula;
+		this.root = points.length === 0 ? null : this.build(points.map((_, i) => i));
+	}
+
+	get size(): number {
+		return this.points.length;
+	}
+
+	nearest(query: Coordinates2D, k: number = 1): Neighbor<T>[] {
+		validateGeographicCoordinates(query, "query");
+		validateNeighborCount(k);
+
+		const best: Neighbor<T>[] = [];
+		if (this.root) {
+			this.searchNearest(this.root, this.distance(query, this.root.center), query, k, best);
+		}
+		return best;
+	}
+
+	withinRadius(query: Coordinates2D, radius: number): Neighbor<T>[] {
+		validateGeographicCoordinates(query, "query");
+		validateRadius(radius);
+
+		const found: Neighbor<T>[] = [];
+		if (this.root) {
+			const rootDistance = this.distance(query, this.root.center);
+			this.searchRadius(this.root, rootDistance, query, radius, found);
+		}
+		return found.sort((a, b) => a.distance - b.distance);
+	}
+
+	private distance(query: Coordinates2D, index: number): number {
+		return Distance.calculate(this.formula, query, this.points[index]);
+	}
+
+	private build(indices: number[]): BallNode {
+		const points = indices.map((i) => this.points[i]);
+		const meanLat = points.reduce((sum, point) => sum + point.lat, 0) / points.length;
+		const meanLng = points.reduce((sum, point) => sum + point.lng, 0) / points.length;
+		// Degrees of longitude shrink towards the poles
+		const lngScale = Math.cos((meanLat * Math.PI) / 180);
+
+		// Centre on the member nearest the mean position; the radius below keeps any choice exact
+		let center = indices[0];
+		let closest = Number.POSITIVE_INFINITY;
+		for (const i of indices) {
+			const offset =
+				(this.points[i].lat - meanLat) ** 2 + ((this.points[i].lng - meanLng) * lngScale) ** 2;
+			if (offset < closest) {
+				closest = offset;
+				center = i;
+			}
+		}
+
+		let radius = 0;
+		for (const i of indices) {
+			radius = Math.max(radius, this.distance(this.points[center], i));
+		}
+
+		if (indices.length <= BALL_TREE_LEAF_SIZE) {
+			return { center, radius, members: indices };
+		}
+
+		// Split at the median of the wider extent
+		// A loop rather than Math.max(...values), which overflows the stack on large inputs
+		let minLat = Number.POSITIVE_INFINITY;
+		let maxLat = Number.NEGATIVE_INFINITY;
+		let minLng = Number.POSITIVE_INFINITY;
+		let maxLng = Number.NEGATIVE_INFINITY;
+		for (const { lat, lng } of points) {
+			minLat = Math.min(minLat, lat);
+			maxLat = Math.max(maxLat, lat);
+			minLng = Math.min(minLng, lng);
+			maxLng = Math.max(maxLng, lng);
+		}
+		const latSpread = maxLat - minLat;
+		const lngSpread = (maxLng - minLng) * lngScale;
+		const axis = latSpread >= lngSpread ? "lat" : "lng";
+
+		indices.sort((a, b) => this.points[a][axis] - this.points[b][axis]);
+		const mid = indices.length >> 1;
+
+		return {
+			center,
+			radius,
+			left: this.build(indices.slice(0, mid)),
+			right: this.build(indices.slice(mid)),
+		};
+	}
+
+	private searchNearest(
+		node: BallNode,
+		centerDistance: number,
+		query: Coordinates2D,
+		k: number,
+		best: Neighbor<T>[],
+	): void {
+		if (centerDistance - node.radius > worstDistance(best, k)) return;
+
+		if (node.members) {
+			for (const index of node.members) {
+				const point = this.points[index];
+				offerNeighbor(best, k, { point, index, distance: this.distance(query, index) });
+			}
+			return;
+		}
+
+		const { left, right } = node as Required<BallNode>;
+		const leftDistance = this.distance(query, left.center);
+		const rightDistance = this.distance(query, right.center);
+
+		// Visiting the closer ball first tightens the bound for the other one
+		if (leftDistance <= rightDistance) {
+			this.searchNearest(left, leftDistance, query, k, best);
+			this.searchNearest(right, rightDistance, query, k, best);
+		} else {
+			this.searchNearest(right, rightDistance, query, k, best);
+			this.searchNearest(left, leftDistance, query, k, best);
+		}
+	}
+
+	private searchRadius(
+		node: BallNode,
+		centerDistance: number,
+		query: Coordinates2D,
+		radius: number,
+		found: Neighbor<T>[],
+	): void {
+		if (centerDistance - node.radius > radius) return;
+
+		if (node.members) {
+			for (const index of node.members) {
+				const distance = this.distance(query, index);
+				if (distance <= radius) found.push({ point: this.points[index], index, distance });
+			}
+			return;
+		}
+
+		const { left, right } = node as Required<BallNode>;
+		this.searchRadius(left, this.distance(query, left.center), query, radius, found);
+		this.searchRadius(right, this.distance(query, right.center), query, radius, found);
+	}
+}
+
+// ============================================================================
+// Benchmarks
+// ============================================================================
+
+// e.g. bun distance-formulas.ts --max-time 2000 --baseline distance.baseline.json
+if (require.main === module) {
+	(async () => {
+		const { parseBenchmarkArgs, runBenchmarks } = await import("./performance.js");
+
+		const QUERIES = 20;
+		const K = 10;
+		const RADIUS_KM = 25;
+
+		// Points across the continental US, built once per size so only the queries are timed
+		const randomPoint = (): Coordinates2D => ({
+			lat: 25 + Math.random() * 24,
+			lng: -124 + Math.random() * 57,
+		});
+		interface Dataset {
+			points: Coordinates2D[];
+			queries: Coordinates2D[];
+			indexes: Map<SpatialIndexFormula, SpatialIndex<Coordinates2D>>;
+		}
+		const datasets = new Map<number, Dataset>();
+		const dataset = (size: number) => {
+			let data = datasets.get(size);
+			if (!data) {
+				data = {
+					points: Array.from({ length: size }, randomPoint),
+					queries: Array.from({ length: QUERIES }, randomPoint),
+					indexes: new Map(),
+				};
+				datasets.set(size, data);
+			}
+			return data;
+		};
+		const cachedIndex = (size: number, formula: SpatialIndexFormula) => {
+			const { points, indexes } = dataset(size);
+			let index = indexes.get(formula);
+			if (!index) {
+				index = Distance.index(points, formula);
+				indexes.set(formula, index);
+			}
+			return index;
+		};
+
+		const bruteForceNearest = (size: number, formula: SpatialIndexFormula) => {
+			const { points, queries } = dataset(size);
+			return queries.map((query) => {
+				const best: Neighbor<Coordinates2D>[] = [];
+				points.forEach((point, index) => {
+					offerNeighbor(best, K, {
+						point,
+						index,
+						distance: Distance.calculate(formula, query, point),
+					});
+				});
+				return best;
+			});
+		};
+
+		await runBenchmarks(
+			[
+				{ name: "BruteForceNearest", fn: (size) => bruteForceNearest(size, "haversine") },
+				{
+					name: "BallTreeNearest",
+					fn: (size) => {
+						const index = cachedIndex(size, "haversine");
+						return dataset(size).queries.map((query) => index.nearest(query, K));
+					},
+				},
+				{
+					name: "BruteForceRadius",
+					fn: (size) => {
+						const { points, queries } = dataset(size);
+						return queries.map((query) =>
+							points.filter((point) => Distance.haversine(query, point) <= RADIUS_KM),
+						);
+					},
+				},
+				{
+					name: "BallTreeRadius",
+					fn: (size) => {
+						const index = cachedIndex(size, "haversine");
+						return dataset(size).queries.map((query) => index.withinRadius(query, RADIUS_KM));
+					},
+				},
+				{ name: "BruteForceNearestPlanar", fn: (size) => bruteForceNearest(size, "euclidean") },
+				{
+					name: "KDTreeNearest",
+					fn: (size) => {
+						const index = cachedIndex(size, "euclidean");
+						return dataset(size).queries.map((query) => index.nearest(query, K));
+					},
+				},
+			],
+			{ sizes: [1_000, 10_000, 100_000], ...parseBenchmarkArgs() },
+		);
+	})();
 }
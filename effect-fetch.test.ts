@@ -0,0 +1,1279 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { afterAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { createHash } from "node:crypto";
+import { access, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	FetchHttpClient,
+	type HttpClient,
+	HttpClientRequest,
+} from "@effect/platform";
+import { trace } from "@opentelemetry/api";
+import {
+	BasicTracerProvider,
+	InMemorySpanExporter,
+	SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { type } from "arktype";
+import { Chunk, Effect, Either, Layer, Stream } from "effect";
+import {
+	type CacheEntry,
+	type CassetteOptions,
+	cassetteRecordLayer,
+	cassetteReplayLayer,
+	CircuitOpenError,
+	type DownloadProgress,
+	download,
+	type FetcherMiddleware,
+	computeRetryDelay,
+	FetcherError,
+	type FetcherResponseInfo,
+	fetcher,
+	GraphQLError,
+	graphql,
+	HostGuard,
+	type HostGuardService,
+	isRetryableError,
+	jsonFileCache,
+	makeHostGuard,
+	memoryCache,
+	paginate,
+	paginateGraphQL,
+	parseRetryAfter,
+	post,
+	type RequestBody,
+	requestMiddleware,
+	responseMiddleware,
+	sqliteCache,
+	ValidationError,
+} from "./effect-fetch.js";
+
+const exporter = new InMemorySpanExporter();
+trace.setGlobalTracerProvider(
+	new BasicTracerProvider({
+		spanProcessors: [new SimpleSpanProcessor(exporter)],
+	}),
+);
+
+interface GraphQLRequest {
+	query?: string;
+	variables?: { after?: string };
+	extensions?: { persistedQuery: { sha256Hash: string } };
+}
+
+const graphqlRequests: GraphQLRequest[] = [];
+const persistedQueries = new Map<string, string>();
+
+/**
+ * A GraphQL endpoint that picks its answer from the words in the query.
+ */
+const answerGraphQL = (operation: GraphQLRequest): Response => {
+	graphqlRequests.push(operation);
+	const hash = operation.extensions?.persistedQuery.sha256Hash;
+	if (hash && operation.query) persistedQueries.set(hash, operation.query);
+	const query =
+		operation.query ?? (hash ? persistedQueries.get(hash) : undefined);
+
+	if (query === undefined) {
+		return Response.json({
+			errors: [
+				{
+					message: "PersistedQueryNotFound",
+					extensions: { code: "PERSISTED_QUERY_NOT_FOUND" },
+				},
+			],
+		});
+	}
+	if (query.includes("missing")) {
+		return Response.json({
+			data: { repository: null },
+			errors: [
+				{
+					message: "Could not resolve to a Repository",
+					path: ["repository"],
+					extensions: { code: "NOT_FOUND" },
+				},
+			],
+		});
+	}
+	if (query.includes("unauthorized")) {
+		return Response.json(
+			{ errors: [{ message: "Bad credentials" }] },
+			{ status: 401 },
+		);
+	}
+	if (query.includes("gateway")) {
+		return Response.json({ message: "Bad gateway" }, { status: 502 });
+	}
+	if (query.includes("repositories")) {
+		const page = Number(operation.variables?.after ?? 0);
+		return Response.json({
+			data: {
+				repositories: {
+					nodes: [page * 2 + 1, page * 2 + 2].map((id) => ({ id })),
+					pageInfo: { hasNextPage: page < 2, endCursor: String(page + 1) },
+				},
+			},
+		});
+	}
+	return Response.json({ data: { viewer: { login: "octocat" } } });
+};
+
+const received: string[] = [];
+const server = Bun.serve({
+	port: 0,
+	async fetch(request) {
+		received.push(request.url);
+		const { pathname, searchParams } = new URL(request.url);
+
+		// The first request to /flaky fails so the retry gets its own span
+		if (
+			pathname === "/flaky" &&
+			received.filter((url) => url.includes("/flaky")).length === 1
+		) {
+			return new Response("unavailable", { status: 503 });
+		}
+		if (pathname === "/echo") {
+			return Response.json({
+				method: request.method,
+				query: Object.fromEntries(searchParams),
+				body: await request.text(),
+				contentType: request.headers.get("content-type"),
+				authorization: request.headers.get("authorization"),
+				served: received.length,
+			});
+		}
+		if (pathname === "/status") {
+			const retryAfter = searchParams.get("retryAfter");
+			return new Response("failed", {
+				status: Number(searchParams.get("code")),
+				headers: retryAfter ? { "retry-after": retryAfter } : {},
+			});
+		}
+		if (pathname === "/graphql") {
+			return answerGraphQL(await request.json());
+		}
+		if (pathname === "/counter") {
+			const count = received.filter((url) => url.includes("/counter")).length;
+			return Response.json({ count });
+		}
+		if (pathname === "/etag") {
+			if (request.headers.get("if-none-match") === '"v1"') {
+				return new Response(null, { status: 304 });
+			}
+			return Response.json(
+				{ version: 1 },
+				{ headers: { etag: '"v1"', link: "</etag?page=2>" } },
+			);
+		}
+		if (pathname === "/pages") {
+			const page = Number(searchParams.get("page"));
+			const data = [page * 10, page * 10 + 1];
+			return Response.json(
+				searchParams.has("bare")
+					? { data }
+					: {
+							data,
+							pagination: { page, pageSize: 2, total: 6, totalPages: 3 },
+						},
+			);
+		}
+		if (pathname === "/bytes") {
+			const size = Number(searchParams.get("size"));
+			return new Response(Uint8Array.from({ length: size }, (_, i) => i % 256));
+		}
+		if (pathname === "/image") {
+			return new Response(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]), {
+				headers: { "content-type": "image/png" },
+			});
+		}
+		return Response.json({ ok: true });
+	},
+});
+
+const origin = `localhost:${server.port}`;
+
+const run = (url: string, options: Parameters<typeof fetcher>[2] = {}) =>
+	Effect.runPromise(
+		fetcher(url, "GET", options).pipe(Effect.provide(FetchHttpClient.layer)),
+	);
+
+beforeEach(() => {
+	exporter.reset();
+	received.length = 0;
+	graphqlRequests.length = 0;
+});
+
+afterAll(() => {
+	server.stop(true);
+	trace.disable();
+});
+
+describe("fetcher telemetry", () => {
+	test("redacts credentials and secret query parameters in url.full", async () => {
+		await run(`http://user:secret@${origin}/items?token=abc&page=2`);
+
+		const [span] = exporter.getFinishedSpans();
+		expect(span.attributes["url.full"]).toBe(
+			`http://REDACTED:REDACTED@${origin}/items?token=REDACTED&page=2`,
+		);
+		expect(span.attributes["server.address"]).toBe("localhost");
+		expect(received[0]).toContain("token=abc");
+	});
+
+	test("keeps URLs without secrets unchanged", async () => {
+		await run(`http://${origin}/items?page=2`, {
+			telemetry: { urlTemplate: "/items" },
+		});
+
+		const [span] = exporter.getFinishedSpans();
+		expect(span.name).toBe("GET /items");
+		expect(span.attributes["url.full"]).toBe(`http://${origin}/items?page=2`);
+	});
+
+	test("redacts the URL of every attempt", async () => {
+		await run(`http://${origin}/flaky?api_key=k1&access_token=t1`, {
+			retries: 1,
+			retryDelay: 1,
+		});
+
+		const spans = exporter.getFinishedSpans();
+		expect(spans).toHaveLength(2);
+		for (const span of spans) {
+			expect(span.attributes["url.full"]).toBe(
+				`http://${origin}/flaky?api_key=REDACTED&access_token=REDACTED`,
+			);
+		}
+	});
+
+	test("records no spans when telemetry is disabled", async () => {
+		await run(`http://${origin}/items?token=abc`, { telemetry: false });
+
+		expect(exporter.getFinishedSpans()).toHaveLength(0);
+	});
+});
+
+describe("middleware", () => {
+	const recordCalls =
+		(calls: string[], name: string): FetcherMiddleware =>
+		(request, next) =>
+			Effect.gen(function* () {
+				calls.push(`${name}:request`);
+				const data = yield* next(request);
+				calls.push(`${name}:response`);
+				return data;
+			});
+
+	test("wraps each request in array order", async () => {
+		const calls: string[] = [];
+
+		await run(`http://${origin}/echo`, {
+			middleware: [recordCalls(calls, "outer"), recordCalls(calls, "inner")],
+		});
+
+		expect(calls).toEqual([
+			"outer:request",
+			"inner:request",
+			"inner:response",
+			"outer:response",
+		]);
+	});
+
+	test("rewrites requests and responses before validation", async () => {
+		const auth = requestMiddleware((request) =>
+			Effect.succeed(HttpClientRequest.bearerToken(request, "token")),
+		);
+		const unwrap = responseMiddleware((data) =>
+			Effect.succeed((data as { authorization: string }).authorization),
+		);
+
+		const result = await Effect.runPromise(
+			post(
+				`http://${origin}/echo`,
+				{ value: 1 },
+				{
+					middleware: [unwrap, auth],
+					schema: type("string"),
+				},
+			).pipe(Effect.provide(FetchHttpClient.layer)),
+		);
+
+		expect(result).toBe("Bearer token");
+	});
+
+	test("short-circuits requests without the network", async () => {
+		const cached: FetcherMiddleware = () => Effect.succeed({ cached: true });
+		const fetch = (schema: type.Any) =>
+			Effect.runPromise(
+				fetcher(`http://${origin}/echo`, "GET", {
+					middleware: [cached],
+					schema,
+				}).pipe(Effect.either, Effect.provide(FetchHttpClient.layer)),
+			);
+
+		expect(await fetch(type({ cached: "boolean" }))).toEqual(
+			Either.right({ cached: true }),
+		);
+		// Short-circuited values are still validated
+		const invalid = Either.getOrThrow(
+			Either.flip(await fetch(type({ cached: "string" }))),
+		);
+		expect(invalid).toBeInstanceOf(ValidationError);
+		expect(received).toHaveLength(0);
+	});
+
+	test("runs again for every retry with the attempt number", async () => {
+		const attempts: number[] = [];
+		const count: FetcherMiddleware = (request, next, context) => {
+			attempts.push(context.attempt);
+			return next(request);
+		};
+
+		await run(`http://${origin}/flaky`, {
+			retries: 1,
+			retryDelay: 1,
+			middleware: [count],
+		});
+
+		expect(attempts).toEqual([1, 2]);
+	});
+});
+
+describe("retry policy", () => {
+	const policy = {
+		maxRetries: 3,
+		baseDelay: 100,
+		maxDelay: 1_000,
+		factor: 2,
+		jitter: "none",
+		respectRetryAfter: true,
+		shouldRetry: isRetryableError,
+	} as const;
+	const failure = (status?: number, headers?: Record<string, string>) =>
+		new FetcherError("failed", "/", status, undefined, 1, headers);
+
+	test.each([
+		[undefined, true],
+		[408, true],
+		[429, true],
+		[500, true],
+		[503, true],
+		[400, false],
+		[404, false],
+	])("isRetryableError(HTTP %p) is %p", (status, retryable) => {
+		expect(isRetryableError(failure(status))).toBe(retryable);
+	});
+
+	test("never retries validation errors by default", () => {
+		expect(isRetryableError(new ValidationError("invalid", "/", "", {}))).toBe(
+			false,
+		);
+	});
+
+	test("parses Retry-After seconds and dates", () => {
+		const now = Date.parse("2025-06-02T09:00:00Z");
+
+		expect(parseRetryAfter("120")).toBe(120_000);
+		expect(parseRetryAfter("Mon, 02 Jun 2025 09:00:30 GMT", now)).toBe(30_000);
+		expect(parseRetryAfter("Mon, 02 Jun 2025 08:00:00 GMT", now)).toBe(0);
+		expect(parseRetryAfter("soon")).toBeUndefined();
+		expect(parseRetryAfter(undefined)).toBeUndefined();
+	});
+
+	test("backs off exponentially up to maxDelay", () => {
+		const delays = [1, 2, 3, 4, 5].map((retry) =>
+			computeRetryDelay(policy, retry, failure(500)),
+		);
+
+		expect(delays).toEqual([100, 200, 400, 800, 1_000]);
+	});
+
+	test("picks a full-jitter delay below the exponential one", () => {
+		const random = spyOn(Math, "random").mockReturnValue(0.5);
+		try {
+			expect(
+				computeRetryDelay({ ...policy, jitter: "full" }, 3, failure(500)),
+			).toBe(200);
+		} finally {
+			random.mockRestore();
+		}
+	});
+
+	test("honors Retry-After on 429 and 503 only", () => {
+		const retryAfter = { "retry-after": "1" };
+
+		expect(computeRetryDelay(policy, 1, failure(429, retryAfter))).toBe(1_000);
+		expect(computeRetryDelay(policy, 1, failure(503, retryAfter))).toBe(1_000);
+		expect(computeRetryDelay(policy, 1, failure(500, retryAfter))).toBe(100);
+		expect(
+			computeRetryDelay(
+				{ ...policy, respectRetryAfter: false },
+				1,
+				failure(429, retryAfter),
+			),
+		).toBe(100);
+		// Waiting longer than maxDelay means giving up
+		expect(
+			computeRetryDelay(policy, 1, failure(429, { "retry-after": "2" })),
+		).toBeUndefined();
+	});
+
+	const requests = () =>
+		received.filter((url) => new URL(url).pathname === "/status").length;
+	const fail = async (query: string, options: Parameters<typeof run>[1]) => {
+		const result = await Effect.runPromise(
+			fetcher(`http://${origin}/status?${query}`, "GET", options).pipe(
+				Effect.either,
+				Effect.provide(FetchHttpClient.layer),
+			),
+		);
+		return Either.getOrThrow(Either.flip(result));
+	};
+
+	test("retries retryable responses until maxRetries", async () => {
+		const error = await fail("code=503", {
+			retry: { maxRetries: 2, baseDelay: 1 },
+		});
+
+		expect(error).toBeInstanceOf(FetcherError);
+		expect((error as FetcherError).attempt).toBe(3);
+		expect(requests()).toBe(3);
+	});
+
+	test("returns other 4xx responses immediately", async () => {
+		await fail("code=404", { retry: { maxRetries: 2, baseDelay: 1 } });
+
+		expect(requests()).toBe(1);
+	});
+
+	test("gives up when Retry-After exceeds maxDelay", async () => {
+		await fail("code=429&retryAfter=60", {
+			retry: { maxRetries: 2, baseDelay: 1, maxDelay: 1_000 },
+		});
+
+		expect(requests()).toBe(1);
+	});
+
+	test("asks shouldRetry with the error and attempt", async () => {
+		const asked: [number | undefined, number][] = [];
+
+		await fail("code=404", {
+			retry: {
+				maxRetries: 5,
+				baseDelay: 1,
+				shouldRetry: (error, attempt) => {
+					asked.push([(error as FetcherError).status, attempt]);
+					return attempt < 3;
+				},
+			},
+		});
+
+		expect(asked).toEqual([
+			[404, 1],
+			[404, 2],
+			[404, 3],
+		]);
+		expect(requests()).toBe(3);
+	});
+
+	test("legacy retries retry every failure", async () => {
+		await fail("code=404", { retries: 2, retryDelay: 1 });
+
+		expect(requests()).toBe(3);
+	});
+});
+
+describe("response cache", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "effect-fetch-cache-"));
+	});
+
+	afterAll(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	const requests = (pathname: string) =>
+		received.filter((url) => new URL(url).pathname === pathname).length;
+
+	test("serves fresh entries without a request", async () => {
+		const cache = { store: memoryCache() };
+
+		const first = await run(`http://${origin}/counter`, { cache });
+		const second = await run(`http://${origin}/counter`, { cache });
+
+		expect(second).toEqual(first);
+		expect(requests("/counter")).toBe(1);
+	});
+
+	test("revalidates stale entries and treats a 304 as a hit", async () => {
+		const cache = { store: memoryCache(), ttl: 0 };
+		const responses: { status: number; link?: string }[] = [];
+		const onResponse = ({ status, headers }: FetcherResponseInfo) => {
+			responses.push({ status, link: headers.link });
+		};
+
+		await run(`http://${origin}/etag`, { cache, onResponse });
+		const revalidated = await run(`http://${origin}/etag`, {
+			cache,
+			onResponse,
+		});
+
+		expect(revalidated).toEqual({ version: 1 });
+		expect(requests("/etag")).toBe(2);
+		// The 304 carries no Link header, so the stored one is replayed
+		expect(responses).toEqual([
+			{ status: 200, link: "</etag?page=2>" },
+			{ status: 304, link: "</etag?page=2>" },
+		]);
+	});
+
+	test("serves stale entries while revalidating in the background", async () => {
+		const cache = {
+			store: memoryCache(),
+			ttl: 0,
+			staleWhileRevalidate: 60_000,
+		};
+
+		expect(await run(`http://${origin}/counter`, { cache })).toEqual({
+			count: 1,
+		});
+		expect(await run(`http://${origin}/counter`, { cache })).toEqual({
+			count: 1,
+		});
+
+		// The background refresh replaces the entry once its request returns
+		const stored = async () =>
+			(await Effect.runPromise(cache.store.get(`GET http://${origin}/counter`)))
+				?.data;
+		for (
+			let i = 0;
+			i < 200 && Bun.deepEquals(await stored(), { count: 1 });
+			i++
+		) {
+			await Bun.sleep(5);
+		}
+		expect(await stored()).toEqual({ count: 2 });
+		expect(requests("/counter")).toBe(2);
+	});
+
+	test("validates cached payloads and evicts the ones that fail", async () => {
+		const store = memoryCache();
+		await run(`http://${origin}/counter`, { cache: { store } });
+
+		const result = await Effect.runPromise(
+			fetcher(`http://${origin}/counter`, "GET", {
+				cache: { store },
+				schema: type({ count: "string" }),
+			}).pipe(Effect.either, Effect.provide(FetchHttpClient.layer)),
+		);
+
+		expect(Either.getOrThrow(Either.flip(result))).toBeInstanceOf(
+			ValidationError,
+		);
+		expect(requests("/counter")).toBe(1);
+		expect(
+			await Effect.runPromise(store.get(`GET http://${origin}/counter`)),
+		).toBeUndefined();
+	});
+
+	test("only caches GET requests", async () => {
+		const cache = { store: memoryCache() };
+		const send = () =>
+			Effect.runPromise(
+				fetcher(`http://${origin}/counter`, "POST", { cache }).pipe(
+					Effect.provide(FetchHttpClient.layer),
+				),
+			);
+
+		await send();
+		await send();
+
+		expect(requests("/counter")).toBe(2);
+	});
+
+	const entry = (data: unknown): CacheEntry => ({ data, storedAt: 1 });
+
+	test("keeps every entry of parallel writes to a JSON file", async () => {
+		const keys = Array.from({ length: 20 }, (_, i) => `key-${i}`);
+
+		// Unordered writes only lose entries some of the time, so try a few files
+		for (let round = 0; round < 10; round++) {
+			const path = join(dir, `parallel-${round}.json`);
+			const store = jsonFileCache(path);
+			await Effect.runPromise(
+				Effect.all(
+					keys.map((key, i) => store.set(key, entry(i))),
+					{ concurrency: "unbounded" },
+				),
+			);
+
+			const reopened = jsonFileCache(path);
+			const values = await Effect.runPromise(
+				Effect.all(keys.map((key) => reopened.get(key))),
+			);
+			expect(values.map((value) => value?.data)).toEqual(keys.map((_, i) => i));
+		}
+	});
+
+	test.each([
+		["JSON file", jsonFileCache, "cache.json"],
+		["SQLite", sqliteCache, "cache.sqlite"],
+	] as const)(
+		"persists %s entries across instances",
+		async (_, store, file) => {
+			const path = join(dir, file);
+			const writer = store(path);
+			await Effect.runPromise(
+				Effect.all([
+					writer.set("kept", entry("a")),
+					writer.set("deleted", entry("b")),
+					writer.delete("deleted"),
+				]),
+			);
+
+			const reopened = store(path);
+			expect(await Effect.runPromise(reopened.get("kept"))).toEqual(entry("a"));
+			expect(await Effect.runPromise(reopened.get("deleted"))).toBeUndefined();
+		},
+	);
+});
+
+describe("request and response bodies", () => {
+	const form = new FormData();
+	form.append("name", "dataset");
+	form.append("file", new Blob(["a,b\n1,2"], { type: "text/csv" }), "data.csv");
+
+	test.each<[string, () => RequestBody, string, string]>([
+		["JSON", () => ({ value: 1 }), "application/json", '{"value":1}'],
+		[
+			"URLSearchParams",
+			() => new URLSearchParams({ a: "1", b: "two words" }),
+			"application/x-www-form-urlencoded",
+			"a=1&b=two+words",
+		],
+		[
+			"Blob",
+			() => new Blob(["plain"], { type: "text/plain" }),
+			"text/plain",
+			"plain",
+		],
+		[
+			"Uint8Array",
+			() => new TextEncoder().encode("bytes"),
+			"application/octet-stream",
+			"bytes",
+		],
+		[
+			"ReadableStream",
+			() => new Blob(["streamed"]).stream(),
+			"application/octet-stream",
+			"streamed",
+		],
+	])("sends %s bodies", async (_, body, contentType, text) => {
+		const echoed = await Effect.runPromise(
+			post<{ body: string; contentType: string }>(
+				`http://${origin}/echo`,
+				body(),
+			).pipe(Effect.provide(FetchHttpClient.layer)),
+		);
+
+		expect(echoed.contentType).toStartWith(contentType);
+		expect(echoed.body).toBe(text);
+	});
+
+	test("sends FormData as multipart", async () => {
+		const echoed = await Effect.runPromise(
+			post<{ body: string; contentType: string }>(
+				`http://${origin}/echo`,
+				form,
+			).pipe(Effect.provide(FetchHttpClient.layer)),
+		);
+
+		expect(echoed.contentType).toStartWith("multipart/form-data; boundary=");
+		expect(echoed.body).toContain('filename="data.csv"');
+		expect(echoed.body).toContain("a,b\n1,2");
+	});
+
+	const bytes = Uint8Array.from({ length: 1_000 }, (_, i) => i % 256);
+
+	test("decodes text, binary and blob responses", async () => {
+		const url = `http://${origin}/bytes?size=1000`;
+
+		expect(
+			await run(`http://${origin}/echo`, { responseType: "text" }),
+		).toBeTypeOf("string");
+		expect(
+			new Uint8Array(
+				(await run(url, { responseType: "arrayBuffer" })) as ArrayBuffer,
+			),
+		).toEqual(bytes);
+
+		const image = (await run(`http://${origin}/image`, {
+			responseType: "blob",
+		})) as Blob;
+		expect(image.type).toBe("image/png");
+		expect(image.size).toBe(6);
+	});
+
+	test("streams responses lazily", async () => {
+		const chunks = await Effect.runPromise(
+			fetcher<Stream.Stream<Uint8Array, unknown>>(
+				`http://${origin}/bytes?size=1000`,
+				"GET",
+				{ responseType: "stream" },
+			).pipe(
+				Effect.flatMap(Stream.runCollect),
+				Effect.provide(FetchHttpClient.layer),
+			),
+		);
+
+		expect(Buffer.concat(Chunk.toArray(chunks))).toEqual(Buffer.from(bytes));
+	});
+
+	describe("download", () => {
+		let dir: string;
+
+		beforeEach(async () => {
+			dir = await mkdtemp(join(tmpdir(), "effect-fetch-download-"));
+		});
+
+		afterAll(async () => {
+			await rm(dir, { recursive: true, force: true });
+		});
+
+		test("writes the body to a file and reports progress", async () => {
+			const destination = join(dir, "data.bin");
+			const progress: DownloadProgress[] = [];
+
+			const result = await Effect.runPromise(
+				download(
+					`http://${origin}/bytes`,
+					destination,
+					{ onProgress: (update) => progress.push(update) },
+					{ size: 300_000 },
+				).pipe(Effect.provide(FetchHttpClient.layer)),
+			);
+
+			expect(result).toEqual({ path: destination, bytes: 300_000 });
+			const written = await readFile(destination);
+			expect(written.length).toBe(300_000);
+			expect(written.subarray(0, 1_000)).toEqual(Buffer.from(bytes));
+			expect(progress.at(-1)).toEqual({ loaded: 300_000, total: 300_000 });
+			expect(progress.map(({ loaded }) => loaded)).toEqual(
+				progress.map(({ loaded }) => loaded).toSorted((a, b) => a - b),
+			);
+		});
+
+		test("fails without creating the file on error responses", async () => {
+			const destination = join(dir, "missing.bin");
+
+			const result = await Effect.runPromise(
+				download(`http://${origin}/status?code=404`, destination).pipe(
+					Effect.either,
+					Effect.provide(FetchHttpClient.layer),
+				),
+			);
+
+			const error = Either.getOrThrow(Either.flip(result));
+			expect(error).toBeInstanceOf(FetcherError);
+			expect((error as FetcherError).status).toBe(404);
+			await expect(access(destination)).rejects.toThrow();
+		});
+	});
+});
+
+describe("host guard", () => {
+	const host = `localhost:${server.port}`;
+
+	const guarded = (
+		guard: HostGuardService,
+		path: string,
+		options: Parameters<typeof run>[1] = {},
+		url = `http://${origin}${path}`,
+	) =>
+		Effect.runPromise(
+			fetcher(url, "GET", options).pipe(
+				Effect.either,
+				Effect.provideService(HostGuard, guard),
+				Effect.provide(FetchHttpClient.layer),
+			),
+		);
+
+	const openCircuit = async (guard: HostGuardService) => {
+		await guarded(guard, "/status?code=503");
+		await guarded(guard, "/status?code=503");
+		expect(guard.stats()).toMatchObject([{ host, state: "open" }]);
+		received.length = 0;
+	};
+
+	test("fails fast once consecutive failures open the circuit", async () => {
+		const guard = makeHostGuard({ circuitBreaker: { failureThreshold: 2 } });
+		await openCircuit(guard);
+
+		const error = Either.getOrThrow(Either.flip(await guarded(guard, "/echo")));
+
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect((error as CircuitOpenError).host).toBe(host);
+		expect(received).toHaveLength(0);
+	});
+
+	test("half-opens after the cooldown and closes on success", async () => {
+		const guard = makeHostGuard({
+			circuitBreaker: { failureThreshold: 2, cooldown: 50 },
+		});
+		await openCircuit(guard);
+		await Bun.sleep(60);
+
+		expect(Either.isRight(await guarded(guard, "/echo"))).toBe(true);
+		expect(guard.stats()).toMatchObject([
+			{ host, state: "closed", consecutiveFailures: 0 },
+		]);
+	});
+
+	test("reopens when the half-open trial fails", async () => {
+		const guard = makeHostGuard({
+			circuitBreaker: { failureThreshold: 2, cooldown: 50 },
+		});
+		await openCircuit(guard);
+		await Bun.sleep(60);
+
+		await guarded(guard, "/status?code=503");
+		const error = Either.getOrThrow(Either.flip(await guarded(guard, "/echo")));
+
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect(received).toHaveLength(1);
+	});
+
+	test("does not count client errors as failures", async () => {
+		const guard = makeHostGuard({ circuitBreaker: { failureThreshold: 2 } });
+
+		await guarded(guard, "/status?code=404");
+		await guarded(guard, "/status?code=404");
+
+		expect(guard.stats()).toMatchObject([
+			{ host, state: "closed", consecutiveFailures: 0 },
+		]);
+	});
+
+	test("never retries an open circuit", async () => {
+		const guard = makeHostGuard({ circuitBreaker: { failureThreshold: 2 } });
+		await openCircuit(guard);
+
+		const error = Either.getOrThrow(
+			Either.flip(
+				await guarded(guard, "/echo", { retries: 3, retryDelay: 10_000 }),
+			),
+		);
+
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect((error as CircuitOpenError).attempt).toBe(1);
+	});
+
+	test("guards the host that middleware sends the request to", async () => {
+		const guard = makeHostGuard({ circuitBreaker: { failureThreshold: 2 } });
+		await openCircuit(guard);
+		const toLocalhost = requestMiddleware((request) =>
+			Effect.succeed(
+				HttpClientRequest.setUrl(
+					request,
+					request.url.replace("127.0.0.1", "localhost"),
+				),
+			),
+		);
+
+		const error = Either.getOrThrow(
+			Either.flip(
+				await guarded(
+					guard,
+					"/echo",
+					{ middleware: [toLocalhost] },
+					`http://127.0.0.1:${server.port}/echo`,
+				),
+			),
+		);
+
+		expect(error).toBeInstanceOf(CircuitOpenError);
+		expect(guard.stats().map((stats) => stats.host)).toEqual([host]);
+	});
+
+	test("spaces requests beyond the burst by the refill rate", async () => {
+		const guard = makeHostGuard({
+			hosts: { [host]: { rateLimit: { requestsPerSecond: 20, burst: 2 } } },
+		});
+
+		const startedAt = performance.now();
+		await Promise.all(Array.from({ length: 4 }, () => guarded(guard, "/echo")));
+
+		// Two requests use the burst, the other two wait 50ms and 100ms for tokens
+		expect(performance.now() - startedAt).toBeGreaterThanOrEqual(95);
+		expect(received).toHaveLength(4);
+		expect(guard.stats()).toMatchObject([{ host, state: "closed" }]);
+	});
+});
+
+describe("graphql", () => {
+	const endpoint = `http://${origin}/graphql`;
+	const query = <A>(
+		document: string,
+		options: Parameters<typeof graphql<A>>[2] = {},
+	) =>
+		Effect.runPromise(
+			graphql<A>(endpoint, document, options).pipe(
+				Effect.either,
+				Effect.provide(FetchHttpClient.layer),
+			),
+		);
+
+	test("returns data validated against the schema", async () => {
+		const viewer = await query("query { viewer { login } }", {
+			schema: type({ viewer: { login: "string" } }),
+			variables: { first: 1 },
+			operationName: "Viewer",
+		});
+
+		expect(viewer).toEqual(Either.right({ viewer: { login: "octocat" } }));
+		expect(graphqlRequests).toEqual([
+			{
+				query: "query { viewer { login } }",
+				variables: { first: 1 },
+				operationName: "Viewer",
+			} as GraphQLRequest,
+		]);
+
+		const invalid = await query("query { viewer { login } }", {
+			schema: type({ viewer: { login: "number" } }),
+		});
+		expect(Either.getOrThrow(Either.flip(invalid))).toBeInstanceOf(
+			ValidationError,
+		);
+	});
+
+	test("fails with the errors and partial data of the response", async () => {
+		const result = await query("query { missing: repository { id } }");
+
+		const error = Either.getOrThrow(Either.flip(result)) as GraphQLError;
+		expect(error).toBeInstanceOf(GraphQLError);
+		expect(error.message).toBe("Could not resolve to a Repository");
+		expect(error.codes).toEqual(["NOT_FOUND"]);
+		expect(error.data).toEqual({ repository: null });
+	});
+
+	test("surfaces GraphQL errors sent with an error status", async () => {
+		const result = await query("query { unauthorized }");
+
+		const error = Either.getOrThrow(Either.flip(result)) as GraphQLError;
+		expect(error).toBeInstanceOf(GraphQLError);
+		expect(error.status).toBe(401);
+		expect(error.errors).toEqual([{ message: "Bad credentials" }]);
+	});
+
+	test("keeps other error bodies as FetcherErrors", async () => {
+		const result = await query("query { gateway }");
+
+		const error = Either.getOrThrow(Either.flip(result));
+		expect(error).not.toBeInstanceOf(GraphQLError);
+		expect(error).toBeInstanceOf(FetcherError);
+		expect((error as FetcherError).status).toBe(502);
+	});
+
+	test("sends the document only when the persisted query is unknown", async () => {
+		const document = `query { viewer { login } } # ${crypto.randomUUID()}`;
+		const sha256Hash = createHash("sha256").update(document).digest("hex");
+
+		expect(
+			Either.isRight(await query(document, { persistedQuery: true })),
+		).toBe(true);
+		expect(
+			Either.isRight(await query(document, { persistedQuery: true })),
+		).toBe(true);
+
+		const extensions = { persistedQuery: { version: 1, sha256Hash } };
+		expect(graphqlRequests).toEqual([
+			{ extensions },
+			{ query: document, extensions },
+			{ extensions },
+		] as GraphQLRequest[]);
+	});
+
+	test("follows cursors through every page", async () => {
+		interface Repositories {
+			repositories: {
+				nodes: { id: number }[];
+				pageInfo: { hasNextPage: boolean; endCursor: string };
+			};
+		}
+		const collect = (maxItems?: number) =>
+			Effect.runPromise(
+				paginateGraphQL<Repositories, { id: number }>(
+					endpoint,
+					"query ($after: String) { repositories }",
+					{ getConnection: (data) => data.repositories, maxItems },
+				).pipe(
+					Stream.runCollect,
+					Effect.map((ids) => Chunk.toArray(ids).map(({ id }) => id)),
+					Effect.provide(FetchHttpClient.layer),
+				),
+			);
+
+		expect(await collect()).toEqual([1, 2, 3, 4, 5, 6]);
+		expect(graphqlRequests.map(({ variables }) => variables)).toEqual([
+			{},
+			{ after: "1" },
+			{ after: "2" },
+		]);
+
+		graphqlRequests.length = 0;
+		expect(await collect(3)).toEqual([1, 2, 3]);
+		expect(graphqlRequests).toHaveLength(2);
+	});
+});
+
+describe("cassettes", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "effect-fetch-cassette-"));
+	});
+
+	afterAll(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	const record = <A, E>(
+		options: CassetteOptions,
+		effect: Effect.Effect<A, E, HttpClient.HttpClient>,
+	) =>
+		Effect.runPromise(
+			effect.pipe(
+				Effect.provide(
+					cassetteRecordLayer(options).pipe(
+						Layer.provide(FetchHttpClient.layer),
+					),
+				),
+			),
+		);
+
+	const replay = <A, E>(
+		options: CassetteOptions,
+		effect: Effect.Effect<A, E, HttpClient.HttpClient>,
+	) =>
+		Effect.runPromise(
+			effect.pipe(Effect.either, Effect.provide(cassetteReplayLayer(options))),
+		);
+
+	const echo = (query: string, options: Parameters<typeof fetcher>[2] = {}) =>
+		fetcher(`http://${origin}/echo?${query}`, "GET", options);
+
+	test("replays concurrently recorded exchanges without the network", async () => {
+		const options = { path: join(dir, "echo.json") };
+		const requests = () =>
+			Effect.all(
+				Array.from({ length: 50 }, (_, i) => echo(`i=${i}`)),
+				{ concurrency: "unbounded" },
+			);
+
+		const recorded = await record(options, requests());
+		const cassette = JSON.parse(await readFile(options.path, "utf8"));
+		expect(cassette.entries).toHaveLength(50);
+
+		received.length = 0;
+		const replayed = await replay(options, requests());
+
+		expect(replayed).toEqual(Either.right(recorded));
+		expect(received).toHaveLength(0);
+	});
+
+	test("redacts secret headers and query parameters before writing", async () => {
+		const options = {
+			path: join(dir, "secrets.json"),
+			redactHeaders: ["X-Session"],
+		};
+		await record(
+			options,
+			echo("api_key=secret-key&q=1", {
+				headers: {
+					Authorization: "Bearer secret-token",
+					"X-Session": "session-id",
+					"X-Trace": "kept",
+				},
+			}),
+		);
+
+		const [entry] = JSON.parse(await readFile(options.path, "utf8")).entries;
+		for (const secret of ["secret-key", "secret-token", "session-id"]) {
+			expect(JSON.stringify(entry.request)).not.toContain(secret);
+		}
+		expect(entry.request.url).toBe(
+			`http://${origin}/echo?api_key=REDACTED&q=1`,
+		);
+		expect(entry.request.headers).toMatchObject({
+			authorization: "[REDACTED]",
+			"x-session": "[REDACTED]",
+			"x-trace": "kept",
+		});
+
+		// Matching compares redacted URLs, so any key replays the entry
+		const replayed = await replay(options, echo("api_key=other-key&q=1"));
+		expect(Either.isRight(replayed)).toBe(true);
+	});
+
+	test("fails requests that no entry matches", async () => {
+		const options = { path: join(dir, "miss.json") };
+		await record(options, echo("q=1"));
+
+		const replayed = await replay(options, echo("q=2&token=abc"));
+
+		const error = Either.getOrThrow(Either.flip(replayed));
+		expect(error).toBeInstanceOf(FetcherError);
+		expect(error.message).toContain(
+			`No cassette entry in ${options.path} matches GET http://${origin}/echo?q=2&token=REDACTED`,
+		);
+	});
+
+	test("matches on the configured request properties", async () => {
+		const path = join(dir, "bodies.json");
+		const post = (value: number, query = "ts=1") =>
+			fetcher(`http://${origin}/echo?${query}`, "POST", {}, undefined, {
+				value,
+			});
+		await record({ path }, Effect.all([post(1), post(2)]));
+
+		const bodies = (results: Either.Either<unknown[], unknown>) =>
+			Either.getOrThrow(results).map(
+				(result) => (result as { body: string }).body,
+			);
+
+		// By default equal method and URL is a match, and entries replay in recorded order
+		expect(
+			bodies(await replay({ path }, Effect.all([post(2), post(1)]))),
+		).toEqual(['{"value":1}', '{"value":2}']);
+		expect(
+			bodies(
+				await replay(
+					{ path, match: { body: true } },
+					Effect.all([post(2), post(1)]),
+				),
+			),
+		).toEqual(['{"value":2}', '{"value":1}']);
+
+		const later = await replay(
+			{ path, match: { ignoreQueryParams: ["ts"] } },
+			post(1, "ts=2"),
+		);
+		expect(Either.isRight(later)).toBe(true);
+		expect(Either.isLeft(await replay({ path }, post(1, "ts=2")))).toBe(true);
+		expect(
+			Either.isRight(
+				await replay(
+					{ path, match: { method: false } },
+					fetcher(`http://${origin}/echo?ts=1`, "PUT", {}, undefined, {}),
+				),
+			),
+		).toBe(true);
+	});
+
+	test("round-trips binary bodies through HAR files", async () => {
+		const options = { path: join(dir, "image.har") };
+		const image = fetcher<ArrayBuffer>(`http://${origin}/image`, "GET", {
+			responseType: "arrayBuffer",
+		});
+		const recorded = new Uint8Array(await record(options, image));
+
+		const har = JSON.parse(await readFile(options.path, "utf8"));
+		expect(har.log.version).toBe("1.2");
+		expect(har.log.entries[0].response.content).toMatchObject({
+			mimeType: "image/png",
+			encoding: "base64",
+		});
+
+		const replayed = Either.getOrThrow(await replay(options, image));
+		expect(new Uint8Array(replayed)).toEqual(recorded);
+	});
+
+	test("replays a committed HAR fixture offline", async () => {
+		const headlines = await replay(
+			{ path: join(import.meta.dir, "fixtures/gnews-top-headlines.har") },
+			fetcher<{ totalArticles: number; articles: { title: string }[] }>(
+				"https://gnews.io/api/v4/top-headlines",
+				"GET",
+				{},
+				{ category: "technology", lang: "en", max: 2, token: "live-key" },
+			),
+		);
+
+		const { totalArticles, articles } = Either.getOrThrow(headlines);
+		expect(totalArticles).toBe(2);
+		expect(articles.map((article) => article.title)).toEqual([
+			"Open-source runtime ships faster test runner",
+			"Browser vendors agree on new storage quota rules",
+		]);
+	});
+});
+
+describe("paginate", () => {
+	const collect = (
+		stream: Stream.Stream<unknown, unknown, HttpClient.HttpClient>,
+	) =>
+		Effect.runPromise(
+			stream.pipe(
+				Stream.runCollect,
+				Effect.map(Chunk.toArray),
+				Effect.either,
+				Effect.provide(FetchHttpClient.layer),
+			),
+		);
+
+	test("follows page numbers until the last page", async () => {
+		const items = await collect(paginate(`http://${origin}/pages`));
+
+		expect(items).toEqual(Either.right([10, 11, 20, 21, 30, 31]));
+	});
+
+	test("fails with a ValidationError when pages carry no pagination info", async () => {
+		const result = await collect(
+			paginate(`http://${origin}/pages`, {}, { bare: true }),
+		);
+
+		const error = Either.getOrThrow(Either.flip(result));
+		expect(error).toBeInstanceOf(ValidationError);
+		expect((error as ValidationError).message).toContain(
+			"pass strategy.hasNextPage",
+		);
+	});
+
+	test("uses hasNextPage for other page shapes", async () => {
+		const items = await collect(
+			paginate(
+				`http://${origin}/pages`,
+				{ strategy: { type: "page", hasNextPage: (_, page) => page < 2 } },
+				{ bare: true },
+			),
+		);
+
+		expect(items).toEqual(Either.right([10, 11, 20, 21]));
+	});
+});
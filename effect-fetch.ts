@@ -22,9 +22,42 @@
 
 ("use strict");
 
-import { HttpClient, HttpClientRequest } from "@effect/platform";
+import { createHash } from "node:crypto";
+import { open, readFile, writeFile } from "node:fs/promises";
+import {
+	HttpBody,
+	HttpClient,
+	HttpClientError,
+	HttpClientRequest,
+	HttpClientResponse,
+} from "@effect/platform";
+import {
+	type Attributes,
+	context as otelContext,
+	type Context as OtelContext,
+	type Histogram,
+	type MeterProvider,
+	metrics,
+	propagation,
+	type Span,
+	SpanKind,
+	SpanStatusCode,
+	trace,
+} from "@opentelemetry/api";
 import { type Type, type } from "arktype";
-import { Duration, Effect, pipe, Schedule } from "effect";
+import {
+	Cause,
+	Chunk,
+	Context,
+	Duration,
+	Effect,
+	Layer,
+	Metric,
+	MetricBoundaries,
+	Option,
+	pipe,
+	Stream,
+} from "effect";
 
 declare const EMPTY = "";
 
@@ -42,12 +75,25 @@ declare const EMPTY = "";
  * - Runtime type validation with ArkType
  * - Effect-based error handling and retry logic
  * - Customizable headers, timeouts, and retry strategies
+ * - Retry policies with exponential backoff, full jitter and Retry-After support
+ * - Opt-in GET response caching with TTL, stale-while-revalidate and ETag revalidation
+ * - Automatic pagination streams for page-number, cursor and `Link` header APIs
+ * - GraphQL operations with typed `errors`, persisted queries and `pageInfo` pagination
+ * - Multipart, form-urlencoded, binary and streamed request bodies
+ * - Text, binary and streamed response modes, plus file downloads with progress
+ * - Per-host token-bucket rate limiting and circuit breaking shared across a runtime
+ * - Record/replay HTTP fixtures (JSON cassettes or HAR) for offline tests
+ * - OpenTelemetry client spans per attempt, W3C trace context propagation and request metrics
  * - Rich error context via FetcherError and ValidationError
  * - Query parameter serialization
+ * - Composable request/response middleware (auth refresh, signing, unwrapping)
  * - Designed for use with Effect-TS and React Query
  *
  * @see FetcherError
  * @see ValidationError
+ * @see CircuitOpenError
+ * @see GraphQLError
+ * @see HostGuard
  * @see fetcher
  * @see get
  * @see post
@@ -56,6 +102,12 @@ declare const EMPTY = "";
  * @see del
  * @see options
  * @see head
+ * @see paginate
+ * @see graphql
+ * @see paginateGraphQL
+ * @see download
+ * @see cassetteRecordLayer
+ * @see cassetteReplayLayer
  *
  * @example
  * ```ts
@@ -105,15 +157,42 @@ const QueryParams = type({
 export type QueryParams = typeof QueryParams.infer;
 
 // Request body type definition
-const RequestBody = type(
+const JsonBody = type(
 	"Record<string, unknown> | unknown[] | string | number | boolean | null",
 );
 
 /**
- * Represents a type-safe request body for HTTP methods that support a body.
+ * Represents a JSON-serializable request body.
  * Can be an object, array, string, number, boolean, or null.
  */
-type RequestBody = typeof RequestBody.infer;
+type JsonBody = typeof JsonBody.infer;
+
+/**
+ * Represents a type-safe request body for HTTP methods that support a body.
+ * `FormData` is sent as multipart, `URLSearchParams` as `application/x-www-form-urlencoded`,
+ * `Blob`, `Uint8Array` and `ReadableStream` as raw bytes, and anything else as JSON.
+ */
+export type RequestBody =
+	| JsonBody
+	| FormData
+	| URLSearchParams
+	| Blob
+	| Uint8Array
+	| ReadableStream<Uint8Array>;
+
+// Response type definition
+const ResponseType = type(
+	"'json' | 'text' | 'arrayBuffer' | 'blob' | 'stream'",
+);
+
+/**
+ * How the response body is decoded:
+ * - `json` (default): parsed JSON
+ * - `text`: a string
+ * - `arrayBuffer` / `blob`: the raw bytes
+ * - `stream`: a `Stream<Uint8Array>` that is read lazily, outside the request timeout
+ */
+export type ResponseType = typeof ResponseType.infer;
 
 // Headers type definition
 const Headers = type({
@@ -130,21 +209,185 @@ const FetcherOptions = type({
 	"retries?": "number",
 	"retryDelay?": "number",
 	"onError?": "Function",
+	"onResponse?": "Function",
 	"timeout?": "number",
 	"headers?": Headers,
 	"schema?": "unknown",
+	"middleware?": "Function[]",
+	"retry?": "object",
+	"cache?": "object",
+	"responseType?": ResponseType,
 });
 
+/**
+ * Per-attempt information handed to every middleware.
+ */
+export interface FetcherContext {
+	/** The fully resolved request URL, including the query string */
+	readonly url: string;
+	/** The HTTP method of the request */
+	readonly method: HttpMethod;
+	/** The current attempt number, starting at 1 */
+	readonly attempt: number;
+}
+
+/**
+ * Continuation passed to a middleware. Calling it hands the (possibly rewritten)
+ * request to the next middleware, or to the HTTP client for the innermost one.
+ */
+export type FetcherNext = (
+	request: HttpClientRequest.HttpClientRequest,
+) => Effect.Effect<unknown, FetcherError, HttpClient.HttpClient>;
+
+/**
+ * A request/response interceptor. Middleware run in array order around every attempt:
+ * the first entry sees the request first and the decoded response last.
+ *
+ * A middleware can rewrite the outgoing request before calling `next`, transform the
+ * decoded (pre-validation) response that `next` returns, or skip `next` entirely to
+ * short-circuit the request with its own value.
+ */
+export type FetcherMiddleware = (
+	request: HttpClientRequest.HttpClientRequest,
+	next: FetcherNext,
+	context: FetcherContext,
+) => Effect.Effect<unknown, FetcherError, HttpClient.HttpClient>;
+
+/**
+ * Describes when and how long to wait before retrying a failed attempt.
+ *
+ * Delays grow as `baseDelay * factor ** (retry - 1)`, are capped at `maxDelay`, and with
+ * full jitter a random delay between zero and that value is used. When the server answers
+ * 429 or 503 with a `Retry-After` header, that delay is used instead; if it exceeds
+ * `maxDelay` the request is not retried at all.
+ */
+export interface RetryPolicy {
+	/** Maximum number of retries after the first attempt (default: 3) */
+	maxRetries?: number;
+	/** Delay in milliseconds before the first retry (default: 500) */
+	baseDelay?: number;
+	/** Upper bound in milliseconds for a single delay (default: 30_000) */
+	maxDelay?: number;
+	/** Multiplier applied to the delay after each retry (default: 2) */
+	factor?: number;
+	/** Randomization strategy for the computed delay (default: "full") */
+	jitter?: "full" | "none";
+	/** Whether to honor `Retry-After` on 429/503 responses (default: true) */
+	respectRetryAfter?: boolean;
+	/** Decides whether a failed attempt is retried (default: isRetryableError) */
+	shouldRetry?: (
+		error: FetcherError | ValidationError,
+		attempt: number,
+	) => boolean;
+}
+
+/**
+ * A cached response payload together with its revalidation metadata.
+ * The payload is stored as decoded, before middleware and schema validation run.
+ */
+export interface CacheEntry {
+	/** The decoded response body */
+	data: unknown;
+	/** Epoch milliseconds when the entry was stored or last revalidated */
+	storedAt: number;
+	/** The `ETag` response header, sent back as `If-None-Match` */
+	etag?: string;
+	/** The `Last-Modified` response header, sent back as `If-Modified-Since` */
+	lastModified?: string;
+	/** Headers of the stored response, replayed to `onResponse` on cache hits */
+	headers?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Storage backend for the response cache. Implementations should never fail:
+ * a broken backend behaves like an empty cache.
+ */
+export interface CacheStore {
+	get(key: string): Effect.Effect<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Effect.Effect<void>;
+	delete(key: string): Effect.Effect<void>;
+}
+
+/**
+ * Cache configuration for GET requests.
+ *
+ * Entries younger than `ttl` are served without a request. Entries older than `ttl` but
+ * within `staleWhileRevalidate` are served immediately while a background request refreshes
+ * them. Older entries are revalidated with a conditional request, and a 304 counts as a hit.
+ */
+export interface CacheOptions {
+	/** Backend that holds the entries */
+	store: CacheStore;
+	/** Time in milliseconds an entry is considered fresh (default: 60_000) */
+	ttl?: number;
+	/** Extra time in milliseconds a stale entry may be served while revalidating (default: 0) */
+	staleWhileRevalidate?: number;
+	/** Overrides the default `METHOD url` cache key */
+	key?: string;
+}
+
+/**
+ * Status and headers of a network response, as passed to `onResponse`.
+ */
+export interface FetcherResponseInfo {
+	readonly url: string;
+	readonly status: number;
+	readonly headers: Readonly<Record<string, string>>;
+}
+
+/**
+ * OpenTelemetry settings for a request. Spans and metrics go to the globally registered
+ * tracer and meter providers, so nothing is recorded until an SDK is installed.
+ *
+ * Each attempt becomes a CLIENT span carrying the method, URL template, status code,
+ * `http.request.resend_count` and a `fetcher.validation` outcome, and is timed by the
+ * `http.client.request.duration` and `fetcher.request.error.duration` histograms.
+ * `url.full` has its credentials and well-known secret query parameters redacted.
+ *
+ * @example
+ * ```ts
+ * const exporter = new InMemorySpanExporter();
+ * trace.setGlobalTracerProvider(
+ *   new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }),
+ * );
+ * propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+ *
+ * await Effect.runPromise(
+ *   get(`/users/${id}`, { telemetry: { urlTemplate: "/users/{id}" } }).pipe(
+ *     Effect.provide(FetchHttpClient.layer),
+ *   ),
+ * );
+ * exporter.getFinishedSpans(); // [{ name: "GET /users/{id}", ... }]
+ * ```
+ */
+export interface TelemetryOptions {
+	/** Low-cardinality route used in span names and metric attributes, e.g. "/users/{id}" */
+	urlTemplate?: string;
+	/** Extra attributes added to every attempt span */
+	attributes?: Attributes;
+}
+
 /**
  * Configuration options for the fetcher utility.
  */
 export interface FetcherOptions<T = unknown> {
-	/** Number of times to retry the request on failure */
+	/** Number of times to retry the request on failure (ignored when `retry` is set) */
 	retries?: number;
-	/** Delay in milliseconds between retries */
+	/** Delay in milliseconds between retries (ignored when `retry` is set) */
 	retryDelay?: number;
+	/** Retry policy with backoff, jitter and retry predicates */
+	retry?: RetryPolicy;
+	/** Response cache for GET requests (json and text responses only) */
+	cache?: CacheOptions;
+	/** How to decode the response body (default: "json") */
+	responseType?: ResponseType;
 	/** Optional callback invoked on error */
 	onError?: (error: unknown) => void;
+	/**
+	 * Optional callback invoked with the status and headers of every successful response.
+	 * Cache hits replay the headers stored with the entry.
+	 */
+	onResponse?: (response: FetcherResponseInfo) => void;
 	/** Timeout in milliseconds for the request */
 	timeout?: number;
 	/** Additional headers to include in the request */
@@ -153,6 +396,10 @@ export interface FetcherOptions<T = unknown> {
 	schema?: Type<T>;
 	/** Abortsignal */
 	signal?: AbortSignal;
+	/** Ordered request/response interceptors applied to every attempt */
+	middleware?: ReadonlyArray<FetcherMiddleware>;
+	/** OpenTelemetry span and metric settings, or `false` to disable instrumentation */
+	telemetry?: TelemetryOptions | false;
 }
 
 /**
@@ -210,6 +457,7 @@ export class FetcherError extends Error {
 		public readonly status?: number,
 		public readonly responseData?: unknown,
 		public readonly attempt?: number,
+		public readonly headers?: Readonly<Record<string, string>>,
 	) {
 		super(message);
 		this.name = "FetcherError";
@@ -236,392 +484,753 @@ export class FetcherError extends Error {
 	}
 }
 
-// --- Overloaded function signatures for type safety with ArkType ---
+// --- Body helpers ---
 
 /**
- * Performs a GET request with optional schema validation.
+ * Attaches a request body, picking the encoding from the body's runtime type.
  */
-export function fetcher<T = unknown>(
-	input: string,
-	method?: "GET",
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+const setRequestBody = (
+	request: HttpClientRequest.HttpClientRequest,
+	body: RequestBody,
+): Effect.Effect<
+	HttpClientRequest.HttpClientRequest,
+	HttpBody.HttpBodyError
+> => {
+	if (body instanceof FormData) {
+		return Effect.succeed(HttpClientRequest.bodyFormData(request, body));
+	}
+	if (body instanceof URLSearchParams) {
+		return Effect.succeed(HttpClientRequest.bodyUrlParams(request, body));
+	}
+	if (body instanceof Blob) {
+		return Effect.succeed(
+			HttpClientRequest.setBody(
+				request,
+				HttpBody.raw(body, {
+					contentType: body.type || "application/octet-stream",
+					contentLength: body.size,
+				}),
+			),
+		);
+	}
+	if (body instanceof Uint8Array) {
+		return Effect.succeed(HttpClientRequest.bodyUint8Array(request, body));
+	}
+	if (body instanceof ReadableStream) {
+		return Effect.succeed(
+			HttpClientRequest.bodyStream(
+				request,
+				Stream.fromReadableStream({
+					evaluate: () => body,
+					onError: (error) => error,
+				}),
+			),
+		);
+	}
+
+	return HttpClientRequest.bodyJson(request, body);
+};
 
 /**
- * Performs a GET request with ArkType schema validation and automatic type inference.
+ * Decodes a non-JSON response body according to the requested response type.
  */
-export function fetcher<S extends Type<any>>(
-	input: string,
-	method: "GET",
-	options: FetcherOptions<Type<S>> & { schema: S },
-	params?: QueryParams,
-): Effect.Effect<
-	Type<S>,
-	FetcherError | ValidationError,
-	HttpClient.HttpClient
->;
+const decodeResponseBody = (
+	response: HttpClientResponse.HttpClientResponse,
+	responseType: Exclude<ResponseType, "json">,
+): Effect.Effect<unknown, HttpClientError.ResponseError> => {
+	switch (responseType) {
+		case "text":
+			return response.text;
+		case "arrayBuffer":
+			return response.arrayBuffer;
+		case "blob":
+			return Effect.map(
+				response.arrayBuffer,
+				(buffer) =>
+					new Blob([buffer], {
+						type: response.headers["content-type"] ?? "",
+					}),
+			);
+		case "stream":
+			return Effect.succeed(response.stream);
+		default: {
+			const _exhaustive: never = responseType;
+			throw new Error(`Unsupported response type: ${responseType}`);
+		}
+	}
+};
+
+// --- URL helpers ---
 
 /**
- * Performs a POST, PUT, or PATCH request with a request body and optional schema validation.
+ * Resolves a URL the way the platform HttpClient does, taking relative URLs against the
+ * page location when there is one. Returns undefined when the URL cannot be parsed.
  */
-export function fetcher<T = unknown>(
-	input: string,
-	method: "POST" | "PUT" | "PATCH",
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-	body?: RequestBody,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+const resolveUrl = (url: string, base?: string): URL | undefined => {
+	const origin =
+		base ??
+		(typeof location === "undefined"
+			? undefined
+			: location.origin + location.pathname);
+	return URL.canParse(url, origin) ? new URL(url, origin) : undefined;
+};
+
+const DEFAULT_REDACTED_QUERY_PARAMS = [
+	"api_key",
+	"apikey",
+	"apiKey",
+	"access_key",
+	"access_token",
+	"key",
+	"token",
+	"client_secret",
+];
 
 /**
- * Performs a POST, PUT, or PATCH request with ArkType schema validation and automatic type inference.
+ * Replaces URL credentials and the values of the given query parameters with "REDACTED".
  */
-export function fetcher<S extends Type<any>>(
-	input: string,
-	method: "POST" | "PUT" | "PATCH",
-	options: FetcherOptions<Type<S>> & { schema: S },
-	params?: QueryParams,
-	body?: RequestBody,
-): Effect.Effect<
-	Type<S>,
-	FetcherError | ValidationError,
-	HttpClient.HttpClient
->;
+const redactUrl = (url: string, params: ReadonlySet<string>): string => {
+	const parsed = new URL(url);
+	if (parsed.username) parsed.username = "REDACTED";
+	if (parsed.password) parsed.password = "REDACTED";
+	for (const name of [...parsed.searchParams.keys()]) {
+		if (params.has(name)) parsed.searchParams.set(name, "REDACTED");
+	}
+	return parsed.toString();
+};
+
+// --- Retry helpers ---
 
 /**
- * Performs a DELETE, OPTIONS, or HEAD request with optional schema validation.
+ * Default retry predicate: retries transport failures, timeouts, 408, 425, 429 and 5xx
+ * responses. Other 4xx responses, open circuits and validation errors are returned immediately.
  */
-export function fetcher<T = unknown>(
-	input: string,
-	method: "DELETE" | "OPTIONS" | "HEAD",
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+export const isRetryableError = (
+	error: FetcherError | ValidationError,
+): boolean => {
+	if (!(error instanceof FetcherError)) return false;
+	if (error instanceof CircuitOpenError) return false;
+	if (error.status === undefined) return true;
+
+	return (
+		error.status === 408 ||
+		error.status === 425 ||
+		error.status === 429 ||
+		error.status >= 500
+	);
+};
 
 /**
- * Enhanced data fetching utility with type safety, ArkType validation, and Effect-based error handling.
- * Supports retries, timeouts, custom headers, runtime validation, and error handling.
- *
- * @template T
- * @param input The URL to request
- * @param method The HTTP method to use
- * @param options Optional fetcher configuration including ArkType schema
- * @param params Optional query parameters
- * @param body Optional request body (for methods that support it)
- * @returns An Effect that resolves to the validated response data of type T
- *
- * @example
- * ```ts
- * import { type } from 'arktype';
- *
- * const UserSchema = type({
- *   id: 'number',
- *   name: 'string',
- *   email: 'string'
- * });
- *
- * const effect = pipe(
- *   get("/api/user/123", {
- *     retries: 1,
- *     retryDelay: 1_000,
- *     timeout: 10_000,
- *     schema: UserSchema,
- *     onError: (error) => {
- *       if (error instanceof ValidationError) {
- *         console.error("Validation failed:", error.getProblemsString())
- *       }
- *     }
- *   }),
- *   Effect.provide(FetchHttpClient.layer)
- * )
- * ```
+ * Parses a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when the header is missing or malformed.
  */
-export function fetcher<T = unknown>(
-	input: string,
-	method: HttpMethod = "GET",
-	options: FetcherOptions<T> = {},
-	params?: QueryParams,
-	body?: RequestBody,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient> {
-	const {
-		retries = 0,
-		retryDelay = 1_000,
-		onError,
-		timeout = 10_000,
-		headers = {},
-		schema,
-	} = options;
+export const parseRetryAfter = (
+	value: string | undefined,
+	now: number = Date.now(),
+): number | undefined => {
+	if (!value) return undefined;
 
-	/**
-	 * Builds a query string from the provided query parameters.
-	 */
-	const buildQueryString = (params?: QueryParams): string => {
-		if (!params) return EMPTY;
-		const urlParams = new URLSearchParams();
-
-		Object.entries(params).forEach(([key, value]) => {
-			if (value == null) return;
+	const trimmed = value.trim();
+	if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1_000;
 
-			if (Array.isArray(value)) {
-				value
-					.filter((item): item is string | number | boolean => item != null)
-					.forEach((item) => urlParams.append(key, String(item)));
-			} else {
-				urlParams.append(key, String(value));
-			}
-		});
+	const date = Date.parse(trimmed);
+	if (Number.isNaN(date)) return undefined;
 
-		return urlParams.toString();
-	};
+	return Math.max(0, date - now);
+};
 
-	const url = params ? `${input}?${buildQueryString(params)}` : input;
+/**
+ * Computes the delay before the given retry (1-based), or undefined if a `Retry-After`
+ * header asks for a longer wait than the policy allows.
+ */
+export const computeRetryDelay = (
+	policy: Required<RetryPolicy>,
+	retry: number,
+	error: FetcherError | ValidationError,
+): number | undefined => {
+	if (
+		policy.respectRetryAfter &&
+		error instanceof FetcherError &&
+		(error.status === 429 || error.status === 503)
+	) {
+		const retryAfter = parseRetryAfter(
+			error.headers?.["retry-after"] ?? error.headers?.["Retry-After"],
+		);
 
-	/**
-	 * Builds a type-safe HttpClientRequest for the given method and URL.
-	 */
-	const buildRequest = (
-		method: HttpMethod,
-		url: string,
-	): HttpClientRequest.HttpClientRequest => {
-		switch (method) {
-			case "GET":
-				return HttpClientRequest.get(url);
-			case "POST":
-				return HttpClientRequest.post(url);
-			case "PUT":
-				return HttpClientRequest.put(url);
-			case "PATCH":
-				return HttpClientRequest.patch(url);
-			case "DELETE":
-				return HttpClientRequest.del(url);
-			case "OPTIONS":
-				return HttpClientRequest.options(url);
-			case "HEAD":
-				return HttpClientRequest.head(url);
-			default: {
-				const _exhaustive: never = method;
-				throw new Error(`Unsupported HTTP method: ${method}`);
-			}
+		if (retryAfter !== undefined) {
+			return retryAfter > policy.maxDelay ? undefined : retryAfter;
 		}
-	};
+	}
 
-	/**
-	 * Validates response data using the provided ArkType schema.
-	 */
-	const validateResponse = (
-		data: unknown,
-		attempt: number,
-	): Effect.Effect<T, ValidationError, never> => {
-		if (!schema) {
-			return Effect.succeed(data as T);
-		}
+	const exponential = Math.min(
+		policy.maxDelay,
+		policy.baseDelay * policy.factor ** (retry - 1),
+	);
 
-		const result = schema(data);
+	return policy.jitter === "full"
+		? Math.floor(Math.random() * exponential)
+		: exponential;
+};
 
-		if (result instanceof type.errors) {
-			const validationError = new ValidationError(
-				`Response validation failed: ${result.summary}`,
-				url,
-				result.summary,
-				data,
-				attempt,
-			);
+// --- Cache stores ---
 
-			if (onError) onError(validationError);
-			return Effect.fail(validationError);
-		}
+/**
+ * In-memory cache store, scoped to the returned instance.
+ */
+export const memoryCache = (): CacheStore => {
+	const entries = new Map<string, CacheEntry>();
 
-		// Use type assertion since we know the validation passed
-		return Effect.succeed(result as T);
+	return {
+		get: (key) => Effect.sync(() => entries.get(key)),
+		set: (key, entry) => Effect.sync(() => void entries.set(key, entry)),
+		delete: (key) => Effect.sync(() => void entries.delete(key)),
 	};
+};
 
-	return Effect.gen(function* () {
-		const client = yield* HttpClient.HttpClient;
-		let attempt = 0;
+/**
+ * On-disk cache store that keeps all entries in a single JSON file.
+ * The file is read once on first use and rewritten on every change.
+ */
+export const jsonFileCache = (path: string): CacheStore => {
+	let entries: Promise<Map<string, CacheEntry>> | undefined;
+
+	const load = () => {
+		entries ??= readFile(path, "utf8")
+			.then(
+				(text) =>
+					new Map(
+						Object.entries(JSON.parse(text) as Record<string, CacheEntry>),
+					),
+			)
+			.catch(() => new Map<string, CacheEntry>());
+		return entries;
+	};
 
-		// Build the request object
-		let req = buildRequest(method, url);
-		req = HttpClientRequest.setHeaders(headers)(req);
+	// Writes are chained so parallel `set`s cannot finish out of order and leave
+	// an older snapshot on disk; each one serializes the map as it is when it runs
+	let writes: Promise<void> = Promise.resolve();
+	const persist = (map: Map<string, CacheEntry>) => {
+		writes = writes
+			.catch(() => undefined)
+			.then(() => writeFile(path, JSON.stringify(Object.fromEntries(map))));
+		return writes;
+	};
 
-		// Add body for methods that support it with proper error handling
-		if (
-			body != null &&
-			(method === "POST" || method === "PUT" || method === "PATCH")
-		) {
-			req = yield* pipe(
-				HttpClientRequest.bodyJson(body)(req),
-				Effect.mapError(
-					(error) =>
-						new FetcherError(
-							`Failed to serialize request body: ${error instanceof Error ? error.message : String(error)}`,
-							url,
-							undefined,
-							undefined,
-							attempt,
-						),
+	return {
+		get: (key) =>
+			pipe(
+				Effect.promise(load),
+				Effect.map((map) => map.get(key)),
+			),
+		set: (key, entry) =>
+			pipe(
+				Effect.tryPromise(() =>
+					load().then((map) => persist(map.set(key, entry))),
 				),
+				Effect.ignore,
+			),
+		delete: (key) =>
+			pipe(
+				Effect.tryPromise(() =>
+					load().then((map) => (map.delete(key) ? persist(map) : undefined)),
+				),
+				Effect.ignore,
+			),
+	};
+};
+
+/**
+ * On-disk cache store backed by `bun:sqlite`. Requires the Bun runtime; the
+ * module is only loaded when the store is first used.
+ */
+export const sqliteCache = (path: string): CacheStore => {
+	let database: Promise<import("bun:sqlite").Database> | undefined;
+
+	const open = () => {
+		database ??= import("bun:sqlite").then(({ Database }) => {
+			const db = new Database(path, { create: true });
+			db.run(
+				"CREATE TABLE IF NOT EXISTS fetcher_cache (key TEXT PRIMARY KEY, entry TEXT NOT NULL)",
 			);
-		}
+			return db;
+		});
+		return database;
+	};
 
-		/**
-		 * Wraps an Effect with a timeout, converting timeout errors to FetcherError.
-		 */
-		const withTimeout = <A, E, R>(
-			eff: Effect.Effect<A, E, R>,
-		): Effect.Effect<A, FetcherError | E, R> =>
+	return {
+		get: (key) =>
 			pipe(
-				eff,
-				Effect.timeoutFail({
-					duration: Duration.millis(timeout),
-					onTimeout: () =>
-						new FetcherError(
-							"Request timed out",
-							url,
-							undefined,
-							undefined,
-							attempt,
-						),
+				Effect.tryPromise(async () => {
+					const row = (await open())
+						.query<{ entry: string }, [string]>(
+							"SELECT entry FROM fetcher_cache WHERE key = ?",
+						)
+						.get(key);
+					return row ? (JSON.parse(row.entry) as CacheEntry) : undefined;
 				}),
-			);
+				Effect.orElseSucceed(() => undefined),
+			),
+		set: (key, entry) =>
+			pipe(
+				Effect.tryPromise(async () =>
+					(await open()).run(
+						"INSERT OR REPLACE INTO fetcher_cache (key, entry) VALUES (?, ?)",
+						[key, JSON.stringify(entry)],
+					),
+				),
+				Effect.ignore,
+			),
+		delete: (key) =>
+			pipe(
+				Effect.tryPromise(async () =>
+					(await open()).run("DELETE FROM fetcher_cache WHERE key = ?", [key]),
+				),
+				Effect.ignore,
+			),
+	};
+};
 
-		// Retry schedule with exponential backoff and maximum number of retries
-		const retrySchedule = Schedule.intersect(
-			Schedule.exponential(Duration.millis(retryDelay)),
-			Schedule.recurs(retries),
+// --- Rate limiting and circuit breaking ---
+
+/**
+ * Error raised without touching the network while a host's circuit breaker is open.
+ */
+export class CircuitOpenError extends FetcherError {
+	constructor(
+		url: string,
+		public readonly host: string,
+		public readonly retryAt: number,
+		attempt?: number,
+	) {
+		super(
+			`Circuit breaker open for ${host} until ${new Date(retryAt).toISOString()}`,
+			url,
+			undefined,
+			undefined,
+			attempt,
 		);
+		this.name = "CircuitOpenError";
+		Object.setPrototypeOf(this, CircuitOpenError.prototype);
+	}
 
-		/**
-		 * Executes the HTTP request, handling errors, HTTP status, response parsing, and validation.
-		 */
-		const executeRequest = Effect.gen(function* () {
-			attempt++;
+	[Symbol.toStringTag] = "CircuitOpenError";
+}
+
+/**
+ * Token-bucket settings: `burst` requests may go out at once, refilled at `requestsPerSecond`.
+ * Requests beyond the bucket wait for their token instead of failing.
+ */
+export interface RateLimitOptions {
+	requestsPerSecond: number;
+	/** Bucket capacity (default: 1) */
+	burst?: number;
+}
+
+/**
+ * Circuit breaker settings. After `failureThreshold` consecutive failures the circuit opens
+ * and requests fail fast with CircuitOpenError. After `cooldown` it half-opens and lets
+ * `halfOpenMaxCalls` trial requests through; a success closes it, a failure reopens it.
+ */
+export interface CircuitBreakerOptions {
+	/** Consecutive failures that open the circuit (default: 5) */
+	failureThreshold?: number;
+	/** Milliseconds the circuit stays open before half-opening (default: 30_000) */
+	cooldown?: number;
+	/** Concurrent trial requests while half-open (default: 1) */
+	halfOpenMaxCalls?: number;
+	/** Which errors count as failures (default: transport errors, timeouts and 5xx) */
+	isFailure?: (error: FetcherError) => boolean;
+}
+
+/**
+ * Policies applied by HostGuard. Top-level settings apply to every host; `hosts`
+ * overrides them per host (matched against `URL.host`).
+ */
+export interface HostGuardOptions {
+	rateLimit?: RateLimitOptions;
+	circuitBreaker?: CircuitBreakerOptions;
+	hosts?: Record<
+		string,
+		{ rateLimit?: RateLimitOptions; circuitBreaker?: CircuitBreakerOptions }
+	>;
+}
+
+/**
+ * Circuit breaker state of a host.
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Point-in-time view of a host's limiter and breaker.
+ */
+export interface HostGuardStats {
+	readonly host: string;
+	readonly state: CircuitState;
+	readonly consecutiveFailures: number;
+	readonly availableTokens?: number;
+	readonly openedAt?: number;
+}
+
+/**
+ * Runtime-wide rate limiter and circuit breaker, keyed by host.
+ */
+export interface HostGuardService {
+	/** Runs a network effect under the host's rate limit and circuit breaker */
+	run<A>(
+		url: string,
+		effect: Effect.Effect<A, FetcherError>,
+		attempt?: number,
+	): Effect.Effect<A, FetcherError>;
+	/** Current state of every host seen so far */
+	stats(): ReadonlyArray<HostGuardStats>;
+}
+
+/**
+ * Service tag for the shared HostGuard. `fetcher()` uses it when present in the
+ * environment, so providing `hostGuardLayer(...)` once covers every call in that runtime.
+ *
+ * @example
+ * ```ts
+ * const GuardLive = hostGuardLayer({
+ *   circuitBreaker: { failureThreshold: 3, cooldown: 60_000 },
+ *   hosts: { "api.mediastack.com": { rateLimit: { requestsPerSecond: 0.5 } } },
+ * });
+ *
+ * const effect = pipe(
+ *   get("https://api.mediastack.com/v1/news", {}, { access_key }),
+ *   Effect.catchIf(
+ *     (error) => error instanceof CircuitOpenError,
+ *     () => Effect.succeed(cachedNews),
+ *   ),
+ *   Effect.provide(GuardLive),
+ *   Effect.provide(FetchHttpClient.layer),
+ * );
+ * ```
+ */
+export class HostGuard extends Context.Tag("effect-fetch/HostGuard")<
+	HostGuard,
+	HostGuardService
+>() {}
+
+const rateLimitedRequests = Metric.counter("fetcher_rate_limited_total", {
+	description: "Requests delayed by the per-host rate limiter",
+});
+const rateLimitWait = Metric.histogram(
+	"fetcher_rate_limit_wait_ms",
+	MetricBoundaries.exponential({ start: 10, factor: 2, count: 12 }),
+	"Time requests spent waiting for a rate limit token",
+);
+const circuitRejections = Metric.counter("fetcher_circuit_rejected_total", {
+	description: "Requests rejected because the host's circuit was open",
+});
+const circuitStateGauge = Metric.gauge("fetcher_circuit_state", {
+	description: "Circuit state per host: 0 closed, 1 half-open, 2 open",
+});
+
+const circuitStateValue: Record<CircuitState, number> = {
+	closed: 0,
+	"half-open": 1,
+	open: 2,
+};
+
+const isCircuitFailure = (error: FetcherError): boolean =>
+	error.status === undefined || error.status >= 500;
+
+/**
+ * Creates a standalone HostGuard. Prefer `hostGuardLayer` to share one across a runtime.
+ */
+export const makeHostGuard = (
+	options: HostGuardOptions = {},
+): HostGuardService => {
+	interface HostState {
+		tokens: number;
+		refilledAt: number;
+		state: CircuitState;
+		consecutiveFailures: number;
+		openedAt: number;
+		trials: number;
+	}
+
+	const states = new Map<string, HostState>();
+
+	const policyFor = (host: string) => ({
+		rateLimit: options.hosts?.[host]?.rateLimit ?? options.rateLimit,
+		circuitBreaker:
+			options.hosts?.[host]?.circuitBreaker ?? options.circuitBreaker,
+	});
+
+	const stateFor = (host: string): HostState => {
+		let state = states.get(host);
+		if (!state) {
+			state = {
+				tokens: policyFor(host).rateLimit?.burst ?? 1,
+				refilledAt: Date.now(),
+				state: "closed",
+				consecutiveFailures: 0,
+				openedAt: 0,
+				trials: 0,
+			};
+			states.set(host, state);
+		}
+		return state;
+	};
+
+	const setCircuitState = (
+		host: string,
+		state: HostState,
+		next: CircuitState,
+	) => {
+		state.state = next;
+		return Metric.set(
+			Metric.tagged(circuitStateGauge, "host", host),
+			circuitStateValue[next],
+		);
+	};
 
-			// Execute the HTTP request and handle network/transport errors
-			const response = yield* pipe(
-				client.execute(req),
-				withTimeout,
-				Effect.mapError((error) => {
-					if (error instanceof FetcherError) return error;
+	/**
+	 * Reserves a token and returns how long to wait for it. Tokens may go negative,
+	 * which queues later callers behind earlier ones.
+	 */
+	const reserveToken = (state: HostState, limit: RateLimitOptions): number => {
+		const now = Date.now();
+		const burst = limit.burst ?? 1;
+		state.tokens = Math.min(
+			burst,
+			state.tokens +
+				((now - state.refilledAt) / 1_000) * limit.requestsPerSecond,
+		);
+		state.refilledAt = now;
+		state.tokens -= 1;
+
+		return state.tokens >= 0
+			? 0
+			: Math.ceil((-state.tokens / limit.requestsPerSecond) * 1_000);
+	};
 
-					return new FetcherError(
-						error instanceof Error ? error.message : String(error),
+	const run = <A>(
+		url: string,
+		effect: Effect.Effect<A, FetcherError>,
+		attempt?: number,
+	): Effect.Effect<A, FetcherError> =>
+		Effect.suspend(() => {
+			const parsed = resolveUrl(url);
+			if (!parsed) {
+				return Effect.fail(
+					new FetcherError(
+						`Invalid URL: ${url}`,
 						url,
 						undefined,
 						undefined,
 						attempt,
-					);
-				}),
-			);
-
-			// Check for HTTP errors (non-2xx status codes)
-			if (response.status < 200 || response.status >= 300) {
-				const errorData = yield* pipe(
-					response.json,
-					Effect.catchAll(() => Effect.succeed(undefined)),
+					),
 				);
+			}
 
-				const error = new FetcherError(
-					`HTTP ${response.status}: ${response.text || "Request failed"}`,
-					url,
-					response.status,
-					errorData,
-					attempt,
-				);
+			const host = parsed.host;
+			const state = stateFor(host);
+			const { rateLimit, circuitBreaker } = policyFor(host);
 
-				if (onError) onError(error);
-				return yield* Effect.fail(error);
-			}
+			let admit: Effect.Effect<void, FetcherError> = Effect.void;
+			let trial = false;
 
-			// Parse response data as JSON, with fallback to text and detailed error reporting
-			const rawData = yield* pipe(
-				response.json,
-				Effect.catchAll((error) => {
-					// Try to get response text for better debugging
+			if (circuitBreaker) {
+				const cooldown = circuitBreaker.cooldown ?? 30_000;
+
+				if (state.state === "open" && Date.now() - state.openedAt >= cooldown) {
+					admit = setCircuitState(host, state, "half-open");
+					state.trials = 0;
+				}
+
+				if (
+					state.state === "open" ||
+					(state.state === "half-open" &&
+						state.trials >= (circuitBreaker.halfOpenMaxCalls ?? 1))
+				) {
 					return pipe(
-						response.text,
-						Effect.flatMap((text) => {
-							const errorMessage = `Failed to parse JSON response. Status: ${response.status}, Content-Type: ${response.headers["Content-Type"] || "unknown"}, Body: ${text.slice(0, 200)}${text.length > 200 ? "..." : ""}`;
-							return Effect.fail(
-								new FetcherError(
-									errorMessage,
-									url,
-									response.status,
-									{ originalError: error, responseText: text },
-									attempt,
-								),
-							);
-						}),
-						Effect.catchAll(() =>
+						Metric.increment(Metric.tagged(circuitRejections, "host", host)),
+						Effect.zipRight(
 							Effect.fail(
-								new FetcherError(
-									`Failed to parse response: ${Error.isError(error) ? error.message : String(error)}`,
+								new CircuitOpenError(
 									url,
-									response.status,
-									undefined,
+									host,
+									state.openedAt + cooldown,
 									attempt,
 								),
 							),
 						),
 					);
+				}
+
+				if (state.state === "half-open") {
+					state.trials++;
+					trial = true;
+				}
+			}
+
+			if (rateLimit) {
+				const wait = reserveToken(state, rateLimit);
+				if (wait > 0) {
+					admit = pipe(
+						admit,
+						Effect.zipRight(
+							Metric.increment(
+								Metric.tagged(rateLimitedRequests, "host", host),
+							),
+						),
+						Effect.zipRight(
+							Metric.update(Metric.tagged(rateLimitWait, "host", host), wait),
+						),
+						Effect.zipRight(Effect.sleep(Duration.millis(wait))),
+					);
+				}
+			}
+
+			if (!circuitBreaker) return Effect.zipRight(admit, effect);
+
+			const isFailure = circuitBreaker.isFailure ?? isCircuitFailure;
+			const threshold = circuitBreaker.failureThreshold ?? 5;
+
+			return pipe(
+				admit,
+				Effect.zipRight(effect),
+				Effect.tap(() => {
+					state.consecutiveFailures = 0;
+					return state.state === "closed"
+						? Effect.void
+						: setCircuitState(host, state, "closed");
 				}),
+				Effect.tapError((error) => {
+					if (!isFailure(error)) return Effect.void;
+
+					state.consecutiveFailures++;
+					if (
+						state.state === "half-open" ||
+						state.consecutiveFailures >= threshold
+					) {
+						state.openedAt = Date.now();
+						return setCircuitState(host, state, "open");
+					}
+					return Effect.void;
+				}),
+				Effect.ensuring(
+					Effect.sync(() => {
+						if (trial) state.trials--;
+					}),
+				),
 			);
+		});
 
-			// Validate the response data using ArkType schema if provided
-			const validatedData = yield* validateResponse(rawData, attempt);
+	const stats = (): ReadonlyArray<HostGuardStats> =>
+		Array.from(states, ([host, state]) => ({
+			host,
+			state: state.state,
+			consecutiveFailures: state.consecutiveFailures,
+			availableTokens: policyFor(host).rateLimit
+				? Math.max(0, state.tokens)
+				: undefined,
+			openedAt: state.state === "closed" ? undefined : state.openedAt,
+		}));
+
+	return { run, stats };
+};
 
-			return validatedData;
-		});
+/**
+ * Layer providing one HostGuard shared by every `fetcher()` call in the runtime.
+ */
+export const hostGuardLayer = (
+	options: HostGuardOptions = {},
+): Layer.Layer<HostGuard> =>
+	Layer.sync(HostGuard, () => makeHostGuard(options));
 
-		// Run the request with retry and error handling
-		return yield* pipe(
-			executeRequest,
-			Effect.retry(retrySchedule),
-			Effect.catchAll((error) => {
-				if (error instanceof FetcherError || error instanceof ValidationError) {
-					if (onError) onError(error);
-					return Effect.fail(error);
-				}
+// --- Telemetry ---
 
-				const fetcherError = new FetcherError(
-					String(error),
-					url,
-					undefined,
-					undefined,
-					attempt,
-				);
+const TELEMETRY_SCOPE = "effect-fetch";
+const TELEMETRY_REDACTED_QUERY_PARAMS: ReadonlySet<string> = new Set(
+	DEFAULT_REDACTED_QUERY_PARAMS,
+);
 
-				if (onError) onError(fetcherError);
-				return Effect.fail(fetcherError);
-			}),
-		);
-	});
+interface RequestInstruments {
+	readonly duration: Histogram;
+	readonly errors: Histogram;
 }
 
+const instrumentsByProvider = new WeakMap<MeterProvider, RequestInstruments>();
+
 /**
- * Convenience function for GET requests with optional schema validation.
- *
- * @example
- * ```ts
- * import { type } from 'arktype';
- *
- * const UserSchema = type({
- *   id: 'number',
- *   name: 'string',
- *   email: 'string'
- * });
- *
- * const effect = get("/api/user", { schema: UserSchema });
- * const user = await Effect.runPromise(effect); // Fully typed and validated!
- * ```
+ * Returns the request histograms of the currently registered meter provider.
  */
-export function get<T = unknown>(
-	url: string,
+const requestInstruments = (): RequestInstruments => {
+	const provider = metrics.getMeterProvider();
+	let instruments = instrumentsByProvider.get(provider);
+
+	if (!instruments) {
+		const meter = provider.getMeter(TELEMETRY_SCOPE);
+		instruments = {
+			duration: meter.createHistogram("http.client.request.duration", {
+				description: "Duration of HTTP client request attempts",
+				unit: "s",
+			}),
+			errors: meter.createHistogram("fetcher.request.error.duration", {
+				description:
+					"Duration of failed HTTP client request attempts, by error type",
+				unit: "s",
+			}),
+		};
+		instrumentsByProvider.set(provider, instruments);
+	}
+
+	return instruments;
+};
+
+/**
+ * Classifies a failed attempt for the `error.type` attribute: the HTTP status for
+ * error responses, otherwise the error class name.
+ */
+const errorType = (error: unknown): string => {
+	if (error instanceof FetcherError && error.status !== undefined) {
+		return String(error.status);
+	}
+	if (error instanceof FetcherError && error.message === "Request timed out") {
+		return "timeout";
+	}
+	return error instanceof Error ? error.name : "unknown";
+};
+
+/**
+ * Writes the span's W3C trace context (`traceparent`, `tracestate`) into the request headers.
+ * Leaves the request untouched when no propagator is registered or the span is not sampled.
+ */
+const injectTraceContext = (
+	request: HttpClientRequest.HttpClientRequest,
+	parent: OtelContext,
+	span: Span,
+): HttpClientRequest.HttpClientRequest => {
+	const carrier: Record<string, string> = {};
+	propagation.inject(trace.setSpan(parent, span), carrier);
+
+	return Object.keys(carrier).length > 0
+		? HttpClientRequest.setHeaders(carrier)(request)
+		: request;
+};
+
+// --- Overloaded function signatures for type safety with ArkType ---
+
+/**
+ * Performs a GET request with optional schema validation.
+ */
+export function fetcher<T = unknown>(
+	input: string,
+	method?: "GET",
 	options?: FetcherOptions<T>,
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function get<S extends Type<any>>(
-	url: string,
+/**
+ * Performs a GET request with ArkType schema validation and automatic type inference.
+ */
+export function fetcher<S extends Type<any>>(
+	input: string,
+	method: "GET",
 	options: FetcherOptions<Type<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
@@ -630,27 +1239,866 @@ export function get<S extends Type<any>>(
 	HttpClient.HttpClient
 >;
 
-export function get<T = unknown>(
-	url: string,
+/**
+ * Performs a POST, PUT, or PATCH request with a request body and optional schema validation.
+ */
+export function fetcher<T = unknown>(
+	input: string,
+	method: "POST" | "PUT" | "PATCH",
 	options?: FetcherOptions<T>,
 	params?: QueryParams,
-) {
-	return fetcher<T>(url, "GET", options, params);
-}
+	body?: RequestBody,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+/**
+ * Performs a POST, PUT, or PATCH request with ArkType schema validation and automatic type inference.
+ */
+export function fetcher<S extends Type<any>>(
+	input: string,
+	method: "POST" | "PUT" | "PATCH",
+	options: FetcherOptions<Type<S>> & { schema: S },
+	params?: QueryParams,
+	body?: RequestBody,
+): Effect.Effect<
+	Type<S>,
+	FetcherError | ValidationError,
+	HttpClient.HttpClient
+>;
+
+/**
+ * Performs a DELETE, OPTIONS, or HEAD request with optional schema validation.
+ */
+export function fetcher<T = unknown>(
+	input: string,
+	method: "DELETE" | "OPTIONS" | "HEAD",
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+/**
+ * Enhanced data fetching utility with type safety, ArkType validation, and Effect-based error handling.
+ * Supports retries, timeouts, custom headers, runtime validation, and error handling.
+ *
+ * @template T
+ * @param input The URL to request
+ * @param method The HTTP method to use
+ * @param options Optional fetcher configuration including ArkType schema
+ * @param params Optional query parameters
+ * @param body Optional request body (for methods that support it)
+ * @returns An Effect that resolves to the validated response data of type T
+ *
+ * @example
+ * ```ts
+ * import { type } from 'arktype';
+ *
+ * const UserSchema = type({
+ *   id: 'number',
+ *   name: 'string',
+ *   email: 'string'
+ * });
+ *
+ * const effect = pipe(
+ *   get("/api/user/123", {
+ *     retries: 1,
+ *     retryDelay: 1_000,
+ *     timeout: 10_000,
+ *     schema: UserSchema,
+ *     onError: (error) => {
+ *       if (error instanceof ValidationError) {
+ *         console.error("Validation failed:", error.getProblemsString())
+ *       }
+ *     }
+ *   }),
+ *   Effect.provide(FetchHttpClient.layer)
+ * )
+ * ```
+ */
+export function fetcher<T = unknown>(
+	input: string,
+	method: HttpMethod = "GET",
+	options: FetcherOptions<T> = {},
+	params?: QueryParams,
+	body?: RequestBody,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient> {
+	const {
+		retries = 0,
+		retryDelay = 1_000,
+		onError,
+		onResponse,
+		timeout = 10_000,
+		headers = {},
+		schema,
+		middleware = [],
+		retry,
+		cache,
+		responseType = "json",
+		telemetry = {},
+	} = options;
+	const cacheable =
+		cache !== undefined &&
+		method === "GET" &&
+		(responseType === "json" || responseType === "text");
+
+	// Legacy `retries`/`retryDelay` retry every failure with plain exponential backoff,
+	// except an open circuit, which would only fail fast again
+	const retryPolicy: Required<RetryPolicy> = retry
+		? {
+				maxRetries: retry.maxRetries ?? 3,
+				baseDelay: retry.baseDelay ?? 500,
+				maxDelay: retry.maxDelay ?? 30_000,
+				factor: retry.factor ?? 2,
+				jitter: retry.jitter ?? "full",
+				respectRetryAfter: retry.respectRetryAfter ?? true,
+				shouldRetry: retry.shouldRetry ?? isRetryableError,
+			}
+		: {
+				maxRetries: retries,
+				baseDelay: retryDelay,
+				maxDelay: Number.POSITIVE_INFINITY,
+				factor: 2,
+				jitter: "none",
+				respectRetryAfter: false,
+				shouldRetry: (error) => !(error instanceof CircuitOpenError),
+			};
+
+	/**
+	 * Builds a query string from the provided query parameters.
+	 */
+	const buildQueryString = (params?: QueryParams): string => {
+		if (!params) return EMPTY;
+		const urlParams = new URLSearchParams();
+
+		Object.entries(params).forEach(([key, value]) => {
+			if (value == null) return;
+
+			if (Array.isArray(value)) {
+				value
+					.filter((item): item is string | number | boolean => item != null)
+					.forEach((item) => urlParams.append(key, String(item)));
+			} else {
+				urlParams.append(key, String(value));
+			}
+		});
+
+		return urlParams.toString();
+	};
+
+	const url = params ? `${input}?${buildQueryString(params)}` : input;
+	const cacheKey = cache?.key ?? `${method} ${url}`;
+
+	/**
+	 * Builds a type-safe HttpClientRequest for the given method and URL.
+	 */
+	const buildRequest = (
+		method: HttpMethod,
+		url: string,
+	): HttpClientRequest.HttpClientRequest => {
+		switch (method) {
+			case "GET":
+				return HttpClientRequest.get(url);
+			case "POST":
+				return HttpClientRequest.post(url);
+			case "PUT":
+				return HttpClientRequest.put(url);
+			case "PATCH":
+				return HttpClientRequest.patch(url);
+			case "DELETE":
+				return HttpClientRequest.del(url);
+			case "OPTIONS":
+				return HttpClientRequest.options(url);
+			case "HEAD":
+				return HttpClientRequest.head(url);
+			default: {
+				const _exhaustive: never = method;
+				throw new Error(`Unsupported HTTP method: ${method}`);
+			}
+		}
+	};
+
+	/**
+	 * Validates response data using the provided ArkType schema.
+	 */
+	const validateResponse = (
+		data: unknown,
+		attempt: number,
+	): Effect.Effect<T, ValidationError, never> => {
+		if (!schema) {
+			return Effect.succeed(data as T);
+		}
+
+		const result = schema(data);
+
+		if (result instanceof type.errors) {
+			const validationError = new ValidationError(
+				`Response validation failed: ${result.summary}`,
+				url,
+				result.summary,
+				data,
+				attempt,
+			);
+
+			if (onError) onError(validationError);
+			return Effect.fail(validationError);
+		}
+
+		// Use type assertion since we know the validation passed
+		return Effect.succeed(result as T);
+	};
+
+	return Effect.gen(function* () {
+		const client = yield* HttpClient.HttpClient;
+		const guard = yield* Effect.serviceOption(HostGuard);
+		const parentContext = otelContext.active();
+		let attempt = 0;
+		let responseStatus: number | undefined;
+
+		// Build the request object
+		let req = buildRequest(method, url);
+		req = HttpClientRequest.setHeaders(headers)(req);
+
+		// Add body for methods that support it with proper error handling
+		if (
+			body != null &&
+			(method === "POST" || method === "PUT" || method === "PATCH")
+		) {
+			req = yield* pipe(
+				setRequestBody(req, body),
+				Effect.mapError(
+					(error) =>
+						new FetcherError(
+							`Failed to serialize request body: ${error instanceof Error ? error.message : String(error)}`,
+							url,
+							undefined,
+							undefined,
+							attempt,
+						),
+				),
+			);
+		}
+
+		/**
+		 * Wraps an Effect with a timeout, converting timeout errors to FetcherError.
+		 */
+		const withTimeout = <A, E, R>(
+			eff: Effect.Effect<A, E, R>,
+		): Effect.Effect<A, FetcherError | E, R> =>
+			pipe(
+				eff,
+				Effect.timeoutFail({
+					duration: Duration.millis(timeout),
+					onTimeout: () =>
+						new FetcherError(
+							"Request timed out",
+							url,
+							undefined,
+							undefined,
+							attempt,
+						),
+				}),
+			);
+
+		/**
+		 * Routes network traffic through the runtime's HostGuard, when one is provided.
+		 * The guard keys on the request as middleware left it, so rewritten hosts are tracked.
+		 */
+		const guarded = <A>(
+			request: HttpClientRequest.HttpClientRequest,
+			eff: Effect.Effect<A, FetcherError>,
+		): Effect.Effect<A, FetcherError> =>
+			Option.isSome(guard) ? guard.value.run(request.url, eff, attempt) : eff;
+
+		/**
+		 * Sends a request and decodes the response, handling transport errors, HTTP status and JSON parsing.
+		 * A 304 is only accepted when the caller sent a conditional request.
+		 */
+		const exchange = (
+			request: HttpClientRequest.HttpClientRequest,
+			conditional = false,
+		): Effect.Effect<
+			{
+				data: unknown;
+				headers: Readonly<Record<string, string>>;
+				notModified: boolean;
+			},
+			FetcherError,
+			never
+		> =>
+			guarded(
+				request,
+				Effect.gen(function* () {
+					// Execute the HTTP request and handle network/transport errors.
+					// An explicit traceparent header must not be replaced by Effect's own tracer.
+					const response = yield* pipe(
+						"traceparent" in request.headers
+							? Effect.locally(
+									client.execute(request),
+									HttpClient.currentTracerPropagation,
+									false,
+								)
+							: client.execute(request),
+						withTimeout,
+						Effect.mapError((error) => {
+							if (error instanceof FetcherError) return error;
+
+							return new FetcherError(
+								error instanceof Error ? error.message : String(error),
+								url,
+								undefined,
+								undefined,
+								attempt,
+							);
+						}),
+					);
+
+					responseStatus = response.status;
+
+					if (onResponse && response.status >= 200 && response.status < 300) {
+						onResponse({
+							url,
+							status: response.status,
+							headers: response.headers,
+						});
+					}
+
+					if (conditional && response.status === 304) {
+						return {
+							data: undefined,
+							headers: response.headers,
+							notModified: true,
+						};
+					}
+
+					// Check for HTTP errors (non-2xx status codes)
+					if (response.status < 200 || response.status >= 300) {
+						const errorData = yield* pipe(
+							response.json,
+							Effect.catchAll(() => Effect.succeed(undefined)),
+						);
+
+						const error = new FetcherError(
+							`HTTP ${response.status}: ${response.text || "Request failed"}`,
+							url,
+							response.status,
+							errorData,
+							attempt,
+							response.headers,
+						);
+
+						if (onError) onError(error);
+						return yield* Effect.fail(error);
+					}
+
+					if (responseType !== "json") {
+						const data = yield* pipe(
+							decodeResponseBody(response, responseType),
+							Effect.mapError(
+								(error) =>
+									new FetcherError(
+										`Failed to read response body: ${error.message}`,
+										url,
+										response.status,
+										undefined,
+										attempt,
+									),
+							),
+						);
+
+						return { data, headers: response.headers, notModified: false };
+					}
+
+					// Parse response data as JSON, with fallback to text and detailed error reporting
+					const data = yield* pipe(
+						response.json,
+						Effect.catchAll((error) => {
+							// Try to get response text for better debugging
+							return pipe(
+								response.text,
+								Effect.flatMap((text) => {
+									const errorMessage = `Failed to parse JSON response. Status: ${response.status}, Content-Type: ${response.headers["Content-Type"] || "unknown"}, Body: ${text.slice(0, 200)}${text.length > 200 ? "..." : ""}`;
+									return Effect.fail(
+										new FetcherError(
+											errorMessage,
+											url,
+											response.status,
+											{ originalError: error, responseText: text },
+											attempt,
+										),
+									);
+								}),
+								Effect.catchAll(() =>
+									Effect.fail(
+										new FetcherError(
+											`Failed to parse response: ${Error.isError(error) ? error.message : String(error)}`,
+											url,
+											response.status,
+											undefined,
+											attempt,
+										),
+									),
+								),
+							);
+						}),
+					);
+
+					return { data, headers: response.headers, notModified: false };
+				}),
+			);
+
+		const send = (
+			request: HttpClientRequest.HttpClientRequest,
+		): Effect.Effect<unknown, FetcherError, never> =>
+			Effect.map(exchange(request), (result) => result.data);
+
+		/**
+		 * Fetches from the network, sending stored validators and updating the cache entry.
+		 */
+		const revalidate = (
+			store: CacheStore,
+			request: HttpClientRequest.HttpClientRequest,
+			entry: CacheEntry | undefined,
+		): Effect.Effect<unknown, FetcherError, never> =>
+			Effect.gen(function* () {
+				let conditionalRequest = request;
+				if (entry?.etag) {
+					conditionalRequest = HttpClientRequest.setHeader(
+						"If-None-Match",
+						entry.etag,
+					)(conditionalRequest);
+				}
+				if (entry?.lastModified) {
+					conditionalRequest = HttpClientRequest.setHeader(
+						"If-Modified-Since",
+						entry.lastModified,
+					)(conditionalRequest);
+				}
+
+				const result = yield* exchange(
+					conditionalRequest,
+					conditionalRequest !== request,
+				);
+
+				if (result.notModified && entry) {
+					// A 304 usually omits headers such as `Link`, so the stored ones fill the gaps
+					const headers = { ...entry.headers, ...result.headers };
+					onResponse?.({ url, status: 304, headers });
+					yield* store.set(cacheKey, {
+						...entry,
+						storedAt: Date.now(),
+						headers,
+					});
+					return entry.data;
+				}
+
+				yield* store.set(cacheKey, {
+					data: result.data,
+					storedAt: Date.now(),
+					etag: result.headers.etag,
+					lastModified: result.headers["last-modified"],
+					headers: result.headers,
+				});
+				return result.data;
+			});
+
+		/**
+		 * Serves GET requests from the cache when possible, falling back to `revalidate`.
+		 */
+		const sendCached =
+			(cacheOptions: CacheOptions): FetcherNext =>
+			(request) =>
+				Effect.gen(function* () {
+					const {
+						store,
+						ttl = 60_000,
+						staleWhileRevalidate = 0,
+					} = cacheOptions;
+					const entry = yield* store.get(cacheKey);
+					const age = entry ? Date.now() - entry.storedAt : undefined;
+					const replay = (entry: CacheEntry) =>
+						onResponse?.({ url, status: 200, headers: entry.headers ?? {} });
+
+					if (entry && age !== undefined && age < ttl) {
+						replay(entry);
+						return entry.data;
+					}
+
+					if (entry && age !== undefined && age < ttl + staleWhileRevalidate) {
+						replay(entry);
+						yield* Effect.forkDaemon(
+							Effect.ignore(revalidate(store, request, entry)),
+						);
+						return entry.data;
+					}
+
+					return yield* revalidate(store, request, entry);
+				});
+
+		/**
+		 * Executes the HTTP request through the middleware chain, then validates the decoded response.
+		 */
+		const executeRequest = (request: HttpClientRequest.HttpClientRequest) =>
+			Effect.gen(function* () {
+				const context: FetcherContext = { url, method, attempt };
+				const chain = middleware.reduceRight<FetcherNext>(
+					(next, current) => (request) => current(request, next, context),
+					cacheable ? sendCached(cache) : send,
+				);
+
+				const rawData = yield* chain(request);
+
+				// Validate the response data using ArkType schema if provided,
+				// evicting cached payloads that no longer match it
+				const validatedData = yield* pipe(
+					validateResponse(rawData, attempt),
+					Effect.tapError(() =>
+						cacheable ? cache.store.delete(cacheKey) : Effect.void,
+					),
+				);
+
+				return validatedData;
+			});
+
+		/**
+		 * Runs one attempt inside an OpenTelemetry client span, propagating its trace context
+		 * and recording the attempt's duration.
+		 */
+		const executeAttempt = Effect.suspend(() => {
+			attempt++;
+			responseStatus = undefined;
+
+			if (telemetry === false) return executeRequest(req);
+
+			const parsedUrl = resolveUrl(url);
+			const attributes: Attributes = {
+				"http.request.method": method,
+				...(telemetry.urlTemplate && { "url.template": telemetry.urlTemplate }),
+				...(parsedUrl && { "server.address": parsedUrl.hostname }),
+				...(parsedUrl?.port && { "server.port": Number(parsedUrl.port) }),
+			};
+			const span = trace.getTracer(TELEMETRY_SCOPE).startSpan(
+				telemetry.urlTemplate ? `${method} ${telemetry.urlTemplate}` : method,
+				{
+					kind: SpanKind.CLIENT,
+					attributes: {
+						...attributes,
+						...(parsedUrl && {
+							"url.full": redactUrl(
+								parsedUrl.toString(),
+								TELEMETRY_REDACTED_QUERY_PARAMS,
+							),
+						}),
+						"http.request.resend_count": attempt - 1,
+						...telemetry.attributes,
+					},
+				},
+				parentContext,
+			);
+			const startedAt = performance.now();
+
+			return pipe(
+				executeRequest(injectTraceContext(req, parentContext, span)),
+				Effect.onExit((exit) =>
+					Effect.sync(() => {
+						const error =
+							exit._tag === "Failure" ? Cause.squash(exit.cause) : undefined;
+						const status =
+							responseStatus ??
+							(error instanceof FetcherError ? error.status : undefined);
+						const outcome = {
+							...attributes,
+							...(status !== undefined && {
+								"http.response.status_code": status,
+							}),
+						};
+						const elapsed = (performance.now() - startedAt) / 1_000;
+						const instruments = requestInstruments();
+
+						if (status !== undefined) {
+							span.setAttribute("http.response.status_code", status);
+						}
+
+						if (exit._tag === "Success") {
+							span.setAttribute(
+								"fetcher.validation",
+								schema ? "passed" : "skipped",
+							);
+							instruments.duration.record(elapsed, outcome);
+						} else {
+							const kind = errorType(error);
+
+							if (error instanceof ValidationError) {
+								span.setAttribute("fetcher.validation", "failed");
+							}
+							span.setAttribute("error.type", kind);
+							span.setStatus({
+								code: SpanStatusCode.ERROR,
+								message: error instanceof Error ? error.message : String(error),
+							});
+							instruments.duration.record(elapsed, {
+								...outcome,
+								"error.type": kind,
+							});
+							instruments.errors.record(elapsed, {
+								...outcome,
+								"error.type": kind,
+							});
+						}
+
+						span.end();
+					}),
+				),
+			);
+		});
+
+		/**
+		 * Re-runs the request according to the retry policy until it succeeds or gives up.
+		 */
+		const executeWithRetry = (
+			retryCount: number,
+		): Effect.Effect<
+			T,
+			FetcherError | ValidationError,
+			HttpClient.HttpClient
+		> =>
+			pipe(
+				executeAttempt,
+				Effect.catchAll((error) => {
+					if (
+						retryCount >= retryPolicy.maxRetries ||
+						!retryPolicy.shouldRetry(error, attempt)
+					) {
+						return Effect.fail(error);
+					}
+
+					const delay = computeRetryDelay(retryPolicy, retryCount + 1, error);
+					if (delay === undefined) return Effect.fail(error);
+
+					return pipe(
+						Effect.sleep(Duration.millis(delay)),
+						Effect.zipRight(executeWithRetry(retryCount + 1)),
+					);
+				}),
+			);
+
+		// Run the request with retry and error handling
+		return yield* pipe(
+			executeWithRetry(0),
+			Effect.catchAll((error) => {
+				if (error instanceof FetcherError || error instanceof ValidationError) {
+					if (onError) onError(error);
+					return Effect.fail(error);
+				}
+
+				const fetcherError = new FetcherError(
+					String(error),
+					url,
+					undefined,
+					undefined,
+					attempt,
+				);
+
+				if (onError) onError(fetcherError);
+				return Effect.fail(fetcherError);
+			}),
+		);
+	});
+}
+
+/**
+ * Convenience function for GET requests with optional schema validation.
+ *
+ * @example
+ * ```ts
+ * import { type } from 'arktype';
+ *
+ * const UserSchema = type({
+ *   id: 'number',
+ *   name: 'string',
+ *   email: 'string'
+ * });
+ *
+ * const effect = get("/api/user", { schema: UserSchema });
+ * const user = await Effect.runPromise(effect); // Fully typed and validated!
+ * ```
+ */
+export function get<T = unknown>(
+	url: string,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+export function get<S extends Type<any>>(
+	url: string,
+	options: FetcherOptions<Type<S>> & { schema: S },
+	params?: QueryParams,
+): Effect.Effect<
+	Type<S>,
+	FetcherError | ValidationError,
+	HttpClient.HttpClient
+>;
+
+export function get<T = unknown>(
+	url: string,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+) {
+	return fetcher<T>(url, "GET", options, params);
+}
 
 /**
  * Convenience function for POST requests with optional schema validation.
  */
-export function post<T = unknown>(
+export function post<T = unknown>(
+	url: string,
+	body?: RequestBody,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+export function post<S extends Type<any>>(
+	url: string,
+	body: RequestBody,
+	options: FetcherOptions<Type<S>> & { schema: S },
+	params?: QueryParams,
+): Effect.Effect<
+	Type<S>,
+	FetcherError | ValidationError,
+	HttpClient.HttpClient
+>;
+
+export function post<T = unknown>(
+	url: string,
+	body?: RequestBody,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+) {
+	return fetcher<T>(url, "POST", options, params, body);
+}
+
+/**
+ * Convenience function for PUT requests with optional schema validation.
+ */
+export function put<T = unknown>(
+	url: string,
+	body?: RequestBody,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+export function put<S extends Type<any>>(
+	url: string,
+	body: RequestBody,
+	options: FetcherOptions<Type<S>> & { schema: S },
+	params?: QueryParams,
+): Effect.Effect<
+	Type<S>,
+	FetcherError | ValidationError,
+	HttpClient.HttpClient
+>;
+
+export function put<T = unknown>(
+	url: string,
+	body?: RequestBody,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+) {
+	return fetcher<T>(url, "PUT", options, params, body);
+}
+
+/**
+ * Convenience function for PATCH requests with optional schema validation.
+ */
+export function patch<T = unknown>(
+	url: string,
+	body?: RequestBody,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+export function patch<S extends Type<any>>(
+	url: string,
+	body: RequestBody,
+	options: FetcherOptions<Type<S>> & { schema: S },
+	params?: QueryParams,
+): Effect.Effect<
+	Type<S>,
+	FetcherError | ValidationError,
+	HttpClient.HttpClient
+>;
+
+export function patch<T = unknown>(
+	url: string,
+	body?: RequestBody,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+) {
+	return fetcher<T>(url, "PATCH", options, params, body);
+}
+
+/**
+ * Convenience function for DELETE requests with optional schema validation.
+ */
+export function del<T = unknown>(
+	url: string,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+export function del<S extends Type<any>>(
+	url: string,
+	options: FetcherOptions<Type<S>> & { schema: S },
+	params?: QueryParams,
+): Effect.Effect<
+	Type<S>,
+	FetcherError | ValidationError,
+	HttpClient.HttpClient
+>;
+
+export function del<T = unknown>(
+	url: string,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+) {
+	return fetcher<T>(url, "DELETE", options, params);
+}
+
+/**
+ * Convenience function for OPTIONS requests with optional schema validation.
+ */
+export function options<T = unknown>(
 	url: string,
-	body?: RequestBody,
 	options?: FetcherOptions<T>,
 	params?: QueryParams,
 ): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
 
-export function post<S extends Type<any>>(
+export function options<S extends Type<any>>(
+	url: string,
+	options: FetcherOptions<Type<S>> & { schema: S },
+	params?: QueryParams,
+): Effect.Effect<
+	Type<S>,
+	FetcherError | ValidationError,
+	HttpClient.HttpClient
+>;
+
+export function options<T = unknown>(
+	url: string,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+) {
+	return fetcher<T>(url, "OPTIONS", options, params);
+}
+
+/**
+ * Convenience function for HEAD requests with optional schema validation.
+ */
+export function head<T = unknown>(
+	url: string,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+
+export function head<S extends Type<any>>(
 	url: string,
-	body: RequestBody,
 	options: FetcherOptions<Type<S>> & { schema: S },
 	params?: QueryParams,
 ): Effect.Effect<
@@ -659,209 +2107,1200 @@ export function post<S extends Type<any>>(
 	HttpClient.HttpClient
 >;
 
-export function post<T = unknown>(
-	url: string,
-	body?: RequestBody,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-) {
-	return fetcher<T>(url, "POST", options, params, body);
+export function head<T = unknown>(
+	url: string,
+	options?: FetcherOptions<T>,
+	params?: QueryParams,
+) {
+	return fetcher<T>(url, "HEAD", options, params);
+}
+
+// --- Middleware helpers ---
+
+/**
+ * Creates a middleware that only rewrites the outgoing request.
+ *
+ * @example
+ * ```ts
+ * const auth = requestMiddleware((req) =>
+ *   Effect.succeed(HttpClientRequest.bearerToken(req, process.env.API_TOKEN!)),
+ * );
+ *
+ * const effect = get("/api/me", { middleware: [auth] });
+ * ```
+ */
+export const requestMiddleware =
+	(
+		transform: (
+			request: HttpClientRequest.HttpClientRequest,
+			context: FetcherContext,
+		) => Effect.Effect<
+			HttpClientRequest.HttpClientRequest,
+			FetcherError,
+			HttpClient.HttpClient
+		>,
+	): FetcherMiddleware =>
+	(request, next, context) =>
+		Effect.flatMap(transform(request, context), next);
+
+/**
+ * Creates a middleware that only transforms the decoded response before validation.
+ *
+ * @example
+ * ```ts
+ * // Unwrap `{ data: ... }` envelopes so the schema can describe the payload directly
+ * const unwrap = responseMiddleware((body) =>
+ *   Effect.succeed((body as { data: unknown }).data),
+ * );
+ * ```
+ */
+export const responseMiddleware =
+	(
+		transform: (
+			data: unknown,
+			context: FetcherContext,
+		) => Effect.Effect<unknown, FetcherError, HttpClient.HttpClient>,
+	): FetcherMiddleware =>
+	(request, next, context) =>
+		Effect.flatMap(next(request), (data) => transform(data, context));
+
+// --- Utility functions for common schema patterns ---
+
+/**
+ * Helper function to create a paginated response schema.
+ *
+ * @example
+ * ```ts
+ * const UserSchema = type({
+ *   id: 'number',
+ *   name: 'string'
+ * });
+ *
+ * const PaginatedUsersSchema = createPaginatedSchema(UserSchema);
+ *
+ * const effect = get("/api/users", {
+ *   schema: PaginatedUsersSchema
+ * });
+ * ```
+ */
+export const createPaginatedSchema = <T>(
+	itemSchema: Type<T>,
+): Type<{
+	data: T[];
+	pagination: {
+		page: number;
+		pageSize: number;
+		total: number;
+		totalPages: number;
+	};
+}> => {
+	return type({
+		data: itemSchema.array(),
+		pagination: {
+			page: "number",
+			pageSize: "number",
+			total: "number",
+			totalPages: "number",
+		},
+	});
+};
+
+/**
+ * Helper function to create an API response wrapper schema.
+ *
+ * @example
+ * ```ts
+ * const UserSchema = type({
+ *   id: 'number',
+ *   name: 'string'
+ * });
+ *
+ * const WrappedUserSchema = createApiResponseSchema(UserSchema);
+ *
+ * const effect = get("/api/user/123", {
+ *   schema: WrappedUserSchema
+ * });
+ * ```
+ */
+export const createApiResponseSchema = <T>(dataSchema: Type<T>) => {
+	return type({
+		success: "boolean",
+		data: dataSchema,
+		message: "string?",
+		errors: "string[]?",
+	});
+};
+
+// --- Pagination ---
+
+/**
+ * How `paginate` finds the next page.
+ *
+ * - `page`: increments a page-number query parameter. By default it stops once
+ *   `pagination.page >= pagination.totalPages` (the `createPaginatedSchema` shape), and
+ *   fails with a `ValidationError` for pages without that shape unless `hasNextPage` is given.
+ * - `cursor`: sends the token returned by `getCursor` as a query parameter and stops
+ *   when it is null, undefined or empty.
+ * - `link`: follows the RFC 5988 `Link: <...>; rel="next"` response header.
+ */
+export type PaginationStrategy<P> =
+	| {
+			type: "page";
+			/** Query parameter carrying the page number (default: "page") */
+			pageParam?: string;
+			/** Number of the first page (default: 1) */
+			startPage?: number;
+			/** Whether another page follows the given one */
+			hasNextPage?: (page: P, pageNumber: number) => boolean;
+	  }
+	| {
+			type: "cursor";
+			/** Query parameter carrying the cursor (default: "cursor") */
+			cursorParam?: string;
+			/** Extracts the cursor for the next page */
+			getCursor: (page: P) => string | null | undefined;
+	  }
+	| { type: "link" };
+
+/**
+ * Options for `paginate`. `schema` validates every page, not the individual items.
+ */
+export interface PaginateOptions<P, I> extends FetcherOptions<P> {
+	/** Strategy used to reach the next page (default: `{ type: "page" }`) */
+	strategy?: PaginationStrategy<P>;
+	/** Extracts the items of a page (default: `page.data`) */
+	getItems?: (page: P) => ReadonlyArray<I>;
+	/** Stop after this many pages */
+	maxPages?: number;
+	/** Stop after this many items */
+	maxItems?: number;
+}
+
+/** The part of a `createPaginatedSchema` page the default page strategy reads */
+const PagePosition = type({
+	pagination: { page: "number", totalPages: "number" },
+});
+
+/**
+ * Parses an RFC 5988 `Link` header into a map of relation type to URL.
+ *
+ * @example
+ * ```ts
+ * parseLinkHeader('<https://api.github.com/repos?page=2>; rel="next"');
+ * // { next: "https://api.github.com/repos?page=2" }
+ * ```
+ */
+export const parseLinkHeader = (
+	header: string | undefined,
+): Record<string, string> => {
+	const links: Record<string, string> = {};
+	if (!header) return links;
+
+	for (const part of header.split(/,(?=\s*<)/)) {
+		const match = part.match(/<([^>]*)>(.*)/);
+		if (!match) continue;
+
+		const rel = match[2].match(/rel="?([^";]+)"?/i);
+		if (!rel) continue;
+
+		for (const name of rel[1].trim().split(/\s+/)) {
+			links[name.toLowerCase()] = match[1];
+		}
+	}
+
+	return links;
+};
+
+/**
+ * Streams the items of a paginated GET endpoint, fetching pages lazily as the stream is consumed.
+ * Each page goes through `fetcher()` with the given options, so retries, caching, middleware and
+ * schema validation apply per page.
+ *
+ * @example
+ * ```ts
+ * const UserSchema = type({ id: 'number', name: 'string' });
+ *
+ * const users = paginate("/api/users", {
+ *   schema: createPaginatedSchema(UserSchema),
+ *   maxItems: 500,
+ * });
+ *
+ * const all = await Effect.runPromise(
+ *   pipe(Stream.runCollect(users), Effect.provide(FetchHttpClient.layer)),
+ * );
+ *
+ * // GitHub-style APIs that return a bare array and a Link header
+ * const repos = paginate<Repo[], Repo>("https://api.github.com/user/repos", {
+ *   strategy: { type: "link" },
+ *   getItems: (page) => page,
+ * }, { per_page: 100 });
+ * ```
+ */
+export const paginate = <
+	P,
+	I = P extends { data: ReadonlyArray<infer Item> } ? Item : unknown,
+>(
+	url: string,
+	options: PaginateOptions<P, I> = {},
+	params?: QueryParams,
+): Stream.Stream<I, FetcherError | ValidationError, HttpClient.HttpClient> => {
+	const {
+		strategy = { type: "page" },
+		getItems = (page: P) => (page as { data: ReadonlyArray<I> }).data,
+		maxPages = Number.POSITIVE_INFINITY,
+		maxItems,
+		...fetcherOptions
+	} = options;
+
+	interface PageRequest {
+		url: string;
+		params?: QueryParams;
+		pageNumber: number;
+		fetched: number;
+	}
+
+	const startPage = strategy.type === "page" ? (strategy.startPage ?? 1) : 1;
+	const first: PageRequest = {
+		url,
+		params:
+			strategy.type === "page"
+				? { ...params, [strategy.pageParam ?? "page"]: startPage }
+				: params,
+		pageNumber: startPage,
+		fetched: 0,
+	};
+
+	const fetchPage = (request: PageRequest) =>
+		Effect.gen(function* () {
+			let linkHeader: string | undefined;
+
+			const page = yield* fetcher<P>(
+				request.url,
+				"GET",
+				{
+					...fetcherOptions,
+					onResponse: (response) => {
+						linkHeader = response.headers.link;
+						fetcherOptions.onResponse?.(response);
+					},
+				},
+				request.params,
+			);
+
+			const fetched = request.fetched + 1;
+			let next: PageRequest | undefined;
+
+			if (fetched < maxPages) {
+				switch (strategy.type) {
+					case "page": {
+						let hasNext: boolean;
+						if (strategy.hasNextPage) {
+							hasNext = strategy.hasNextPage(page, request.pageNumber);
+						} else {
+							const position = PagePosition(page);
+							if (position instanceof type.errors) {
+								return yield* Effect.fail(
+									new ValidationError(
+										`Page has no pagination info (${position.summary}); pass strategy.hasNextPage for other page shapes`,
+										request.url,
+										position.summary,
+										page,
+									),
+								);
+							}
+							hasNext =
+								position.pagination.page < position.pagination.totalPages;
+						}
+
+						if (hasNext) {
+							next = {
+								url: request.url,
+								params: {
+									...request.params,
+									[strategy.pageParam ?? "page"]: request.pageNumber + 1,
+								},
+								pageNumber: request.pageNumber + 1,
+								fetched,
+							};
+						}
+						break;
+					}
+					case "cursor": {
+						const cursor = strategy.getCursor(page);
+						if (cursor) {
+							next = {
+								url: request.url,
+								params: {
+									...request.params,
+									[strategy.cursorParam ?? "cursor"]: cursor,
+								},
+								pageNumber: request.pageNumber + 1,
+								fetched,
+							};
+						}
+						break;
+					}
+					case "link": {
+						const nextUrl = parseLinkHeader(linkHeader).next;
+						if (nextUrl) {
+							// The next link already carries the query string
+							next = {
+								url:
+									resolveUrl(
+										nextUrl,
+										resolveUrl(request.url)?.toString(),
+									)?.toString() ?? nextUrl,
+								pageNumber: request.pageNumber + 1,
+								fetched,
+							};
+						}
+						break;
+					}
+				}
+			}
+
+			return [
+				Chunk.fromIterable(getItems(page)),
+				Option.fromNullable(next),
+			] as const;
+		});
+
+	const pages = Stream.paginateChunkEffect(first, fetchPage);
+	return maxItems === undefined ? pages : Stream.take(pages, maxItems);
+};
+
+// --- GraphQL ---
+
+/**
+ * One entry of the `errors` array of a GraphQL response.
+ */
+export interface GraphQLErrorEntry {
+	readonly message: string;
+	readonly locations?: ReadonlyArray<{ line: number; column: number }>;
+	readonly path?: ReadonlyArray<string | number>;
+	readonly extensions?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Error raised when a GraphQL response carries `errors`, whatever its HTTP status.
+ * `data` holds the partial result the server returned alongside the errors, if any.
+ */
+export class GraphQLError extends Error {
+	constructor(
+		message: string,
+		public readonly url: string,
+		public readonly errors: ReadonlyArray<GraphQLErrorEntry>,
+		public readonly data?: unknown,
+		public readonly status?: number,
+	) {
+		super(message);
+		this.name = "GraphQLError";
+		Object.setPrototypeOf(this, GraphQLError.prototype);
+	}
+
+	[Symbol.toStringTag] = "GraphQLError";
+
+	/**
+	 * Distinct `extensions.code` values of the errors, e.g. `NOT_FOUND` or `RATE_LIMITED`.
+	 */
+	get codes(): ReadonlyArray<string> {
+		const codes = this.errors
+			.map((error) => error.extensions?.code)
+			.filter((code): code is string => typeof code === "string");
+		return [...new Set(codes)];
+	}
+
+	toString(): string {
+		return `GraphQLError: ${this.message} (URL: ${this.url}${this.status ? `, Status: ${this.status}` : ""})`;
+	}
+}
+
+// GraphQL response envelope
+const GraphQLResponse = type({
+	"data?": "unknown",
+	"errors?": type({
+		message: "string",
+		"locations?": type({ line: "number", column: "number" }).array(),
+		"path?": "(string | number)[]",
+		"extensions?": "Record<string, unknown>",
+	}).array(),
+});
+
+type GraphQLResponse = typeof GraphQLResponse.infer;
+
+/**
+ * Whether an error response body is a GraphQL envelope worth surfacing: it carries
+ * errors or data, rather than being some other JSON object.
+ */
+const isGraphQLEnvelope = (body: unknown): body is GraphQLResponse => {
+	const response = GraphQLResponse(body);
+	if (response instanceof type.errors) return false;
+	return (
+		(response.errors !== undefined && response.errors.length > 0) ||
+		response.data != null
+	);
+};
+
+/**
+ * Options for `graphql`. `schema` validates the `data` field of the response.
+ */
+export interface GraphQLOptions<T = unknown>
+	extends Omit<FetcherOptions<T>, "responseType" | "cache"> {
+	/** Operation variables */
+	variables?: Record<string, unknown>;
+	/** Operation to run when the document defines several */
+	operationName?: string;
+	/**
+	 * Send an automatic persisted query: only the SHA-256 hash of the document goes out,
+	 * and the full document is sent once if the server has not seen the hash yet
+	 */
+	persistedQuery?: boolean;
+}
+
+const isPersistedQueryNotFound = (errors: ReadonlyArray<GraphQLErrorEntry>) =>
+	errors.some(
+		(error) =>
+			error.extensions?.code === "PERSISTED_QUERY_NOT_FOUND" ||
+			error.message === "PersistedQueryNotFound",
+	);
+
+/**
+ * Runs a GraphQL query or mutation over POST and returns its `data`, validated against `schema`.
+ * GraphQL `errors` fail the effect with a GraphQLError, including errors sent with a non-2xx status.
+ * Transport failures keep failing with FetcherError, and retries, middleware, host guards and
+ * telemetry apply as for any other `fetcher()` call.
+ *
+ * @example
+ * ```ts
+ * const Viewer = type({ viewer: { login: 'string', name: 'string | null' } });
+ *
+ * const effect = pipe(
+ *   graphql("https://api.github.com/graphql", "query { viewer { login name } }", {
+ *     headers: { Authorization: `Bearer ${token}` },
+ *     schema: Viewer,
+ *   }),
+ *   Effect.catchIf(
+ *     (error) => error instanceof GraphQLError && error.codes.includes("NOT_FOUND"),
+ *     () => Effect.succeed(null),
+ *   ),
+ * );
+ * ```
+ */
+export function graphql<T = unknown>(
+	url: string,
+	query: string,
+	options: GraphQLOptions<T> = {},
+): Effect.Effect<
+	T,
+	GraphQLError | FetcherError | ValidationError,
+	HttpClient.HttpClient
+> {
+	const {
+		variables,
+		operationName,
+		persistedQuery = false,
+		schema,
+		onError,
+		...fetcherOptions
+	} = options;
+	const extensions = persistedQuery
+		? {
+				persistedQuery: {
+					version: 1,
+					sha256Hash: createHash("sha256").update(query).digest("hex"),
+				},
+			}
+		: undefined;
+
+	/**
+	 * Posts the operation. Error statuses whose body is a GraphQL envelope are returned
+	 * as responses so their `errors` reach the caller.
+	 */
+	const post = (includeQuery: boolean) =>
+		pipe(
+			fetcher<GraphQLResponse>(
+				url,
+				"POST",
+				{ ...fetcherOptions, schema: GraphQLResponse },
+				undefined,
+				{
+					...(includeQuery && { query }),
+					...(variables && { variables }),
+					...(operationName && { operationName }),
+					...(extensions && { extensions }),
+				},
+			),
+			Effect.map((body) => ({ body, status: undefined })),
+			Effect.catchIf(
+				(error): error is FetcherError =>
+					error instanceof FetcherError &&
+					isGraphQLEnvelope(error.responseData),
+				(error) =>
+					Effect.succeed({
+						body: error.responseData as GraphQLResponse,
+						status: error.status,
+					}),
+			),
+		);
+
+	return Effect.gen(function* () {
+		let response = yield* post(!persistedQuery);
+
+		if (
+			persistedQuery &&
+			response.body.errors &&
+			isPersistedQueryNotFound(response.body.errors)
+		) {
+			response = yield* post(true);
+		}
+
+		const { body, status } = response;
+
+		if (body.errors && body.errors.length > 0) {
+			const error = new GraphQLError(
+				body.errors.map((entry) => entry.message).join("; "),
+				url,
+				body.errors,
+				body.data,
+				status,
+			);
+
+			if (onError) onError(error);
+			return yield* Effect.fail(error);
+		}
+
+		if (!schema) return body.data as T;
+
+		const result = schema(body.data);
+		if (result instanceof type.errors) {
+			const validationError = new ValidationError(
+				`Response validation failed: ${result.summary}`,
+				url,
+				result.summary,
+				body.data,
+			);
+
+			if (onError) onError(validationError);
+			return yield* Effect.fail(validationError);
+		}
+
+		return result as T;
+	});
 }
 
 /**
- * Convenience function for PUT requests with optional schema validation.
+ * A Relay-style connection: items under `nodes` or `edges[].node`, plus `pageInfo`.
  */
-export function put<T = unknown>(
-	url: string,
-	body?: RequestBody,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
-
-export function put<S extends Type<any>>(
-	url: string,
-	body: RequestBody,
-	options: FetcherOptions<Type<S>> & { schema: S },
-	params?: QueryParams,
-): Effect.Effect<
-	Type<S>,
-	FetcherError | ValidationError,
-	HttpClient.HttpClient
->;
-
-export function put<T = unknown>(
-	url: string,
-	body?: RequestBody,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-) {
-	return fetcher<T>(url, "PUT", options, params, body);
+export interface GraphQLConnection<I> {
+	readonly nodes?: ReadonlyArray<I> | null;
+	readonly edges?: ReadonlyArray<{ readonly node: I }> | null;
+	readonly pageInfo: {
+		readonly hasNextPage: boolean;
+		readonly endCursor?: string | null;
+	};
 }
 
 /**
- * Convenience function for PATCH requests with optional schema validation.
+ * Options for `paginateGraphQL`.
  */
-export function patch<T = unknown>(
-	url: string,
-	body?: RequestBody,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+export interface PaginateGraphQLOptions<T, I> extends GraphQLOptions<T> {
+	/** Extracts the paginated connection from the `data` of a page */
+	getConnection: (data: T) => GraphQLConnection<I> | null | undefined;
+	/** Variable receiving `pageInfo.endCursor` of the previous page (default: "after") */
+	cursorVariable?: string;
+	/** Stop after this many pages */
+	maxPages?: number;
+	/** Stop after this many items */
+	maxItems?: number;
+}
 
-export function patch<S extends Type<any>>(
+/**
+ * Streams the nodes of a cursor-paginated GraphQL connection, following
+ * `pageInfo { hasNextPage endCursor }` lazily as the stream is consumed.
+ *
+ * @example
+ * ```ts
+ * const query = `query ($after: String) {
+ *   viewer { repositories(first: 100, after: $after) {
+ *     nodes { name }
+ *     pageInfo { hasNextPage endCursor }
+ *   } }
+ * }`;
+ *
+ * const repos = paginateGraphQL<Repos, { name: string }>("https://api.github.com/graphql", query, {
+ *   headers: { Authorization: `Bearer ${token}` },
+ *   getConnection: (data) => data.viewer.repositories,
+ * });
+ * ```
+ */
+export const paginateGraphQL = <T, I>(
 	url: string,
-	body: RequestBody,
-	options: FetcherOptions<Type<S>> & { schema: S },
-	params?: QueryParams,
-): Effect.Effect<
-	Type<S>,
-	FetcherError | ValidationError,
+	query: string,
+	options: PaginateGraphQLOptions<T, I>,
+): Stream.Stream<
+	I,
+	GraphQLError | FetcherError | ValidationError,
 	HttpClient.HttpClient
->;
+> => {
+	const {
+		getConnection,
+		cursorVariable = "after",
+		maxPages = Number.POSITIVE_INFINITY,
+		maxItems,
+		...graphqlOptions
+	} = options;
 
-export function patch<T = unknown>(
-	url: string,
-	body?: RequestBody,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-) {
-	return fetcher<T>(url, "PATCH", options, params, body);
+	interface PageRequest {
+		cursor?: string;
+		fetched: number;
+	}
+
+	const fetchPage = (request: PageRequest) =>
+		Effect.gen(function* () {
+			const data = yield* graphql<T>(url, query, {
+				...graphqlOptions,
+				variables: {
+					...graphqlOptions.variables,
+					...(request.cursor !== undefined && {
+						[cursorVariable]: request.cursor,
+					}),
+				},
+			});
+
+			const connection = getConnection(data);
+			const items =
+				connection?.nodes ?? connection?.edges?.map((edge) => edge.node) ?? [];
+			const fetched = request.fetched + 1;
+			const cursor = connection?.pageInfo.endCursor;
+
+			const next: PageRequest | undefined =
+				connection?.pageInfo.hasNextPage && cursor && fetched < maxPages
+					? { cursor, fetched }
+					: undefined;
+
+			return [Chunk.fromIterable(items), Option.fromNullable(next)] as const;
+		});
+
+	const pages = Stream.paginateChunkEffect({ fetched: 0 }, fetchPage);
+	return maxItems === undefined ? pages : Stream.take(pages, maxItems);
+};
+
+// --- Downloads ---
+
+/**
+ * Progress of a running download. `total` is only known when the server sends `Content-Length`.
+ */
+export interface DownloadProgress {
+	readonly loaded: number;
+	readonly total?: number;
 }
 
 /**
- * Convenience function for DELETE requests with optional schema validation.
+ * Options for `download`. Retries and the timeout only cover the request up to the response
+ * headers; the body is streamed to disk afterwards.
  */
-export function del<T = unknown>(
-	url: string,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+export interface DownloadOptions
+	extends Omit<FetcherOptions<never>, "schema" | "cache" | "responseType"> {
+	/** Called after every chunk written to disk */
+	onProgress?: (progress: DownloadProgress) => void;
+}
 
-export function del<S extends Type<any>>(
+/**
+ * Streams a GET response to a file without buffering it in memory.
+ *
+ * @example
+ * ```ts
+ * const result = await Effect.runPromise(
+ *   pipe(
+ *     download("https://example.com/dataset.zip", "dataset.zip", {
+ *       onProgress: ({ loaded, total }) =>
+ *         console.log(`${loaded}/${total ?? "?"} bytes`),
+ *     }),
+ *     Effect.provide(FetchHttpClient.layer),
+ *   ),
+ * );
+ * console.log(`Saved ${result.bytes} bytes to ${result.path}`);
+ * ```
+ */
+export const download = (
 	url: string,
-	options: FetcherOptions<Type<S>> & { schema: S },
+	destination: string,
+	options: DownloadOptions = {},
 	params?: QueryParams,
 ): Effect.Effect<
-	Type<S>,
+	{ path: string; bytes: number },
 	FetcherError | ValidationError,
 	HttpClient.HttpClient
->;
+> => {
+	const { onProgress, ...fetcherOptions } = options;
 
-export function del<T = unknown>(
-	url: string,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-) {
-	return fetcher<T>(url, "DELETE", options, params);
-}
+	return Effect.gen(function* () {
+		let total: number | undefined;
+
+		const body = yield* fetcher<Stream.Stream<Uint8Array, unknown>>(
+			url,
+			"GET",
+			{
+				...fetcherOptions,
+				responseType: "stream",
+				onResponse: (response) => {
+					const length = Number(response.headers["content-length"]);
+					total = Number.isFinite(length) ? length : undefined;
+					fetcherOptions.onResponse?.(response);
+				},
+			},
+			params,
+		);
+
+		return yield* Effect.acquireUseRelease(
+			Effect.tryPromise({
+				try: () => open(destination, "w"),
+				catch: (error) =>
+					new FetcherError(
+						`Failed to open ${destination}: ${error instanceof Error ? error.message : String(error)}`,
+						url,
+					),
+			}),
+			(file) => {
+				let loaded = 0;
+
+				return pipe(
+					body,
+					Stream.runForEach((chunk) =>
+						Effect.tryPromise(async () => {
+							await file.write(chunk);
+							loaded += chunk.byteLength;
+							onProgress?.({ loaded, total });
+						}),
+					),
+					Effect.mapError(
+						(error) =>
+							new FetcherError(
+								`Download failed: ${error instanceof Error ? error.message : String(error)}`,
+								url,
+							),
+					),
+					Effect.map(() => ({ path: destination, bytes: loaded })),
+				);
+			},
+			(file) => Effect.promise(() => file.close()),
+		);
+	});
+};
+
+// --- Record/replay fixtures ---
 
 /**
- * Convenience function for OPTIONS requests with optional schema validation.
+ * A recorded request/response pair. Bodies that are not text are stored base64-encoded.
  */
-export function options<T = unknown>(
-	url: string,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
-
-export function options<S extends Type<any>>(
-	url: string,
-	options: FetcherOptions<Type<S>> & { schema: S },
-	params?: QueryParams,
-): Effect.Effect<
-	Type<S>,
-	FetcherError | ValidationError,
-	HttpClient.HttpClient
->;
+export interface CassetteEntry {
+	request: {
+		method: string;
+		url: string;
+		headers: Record<string, string>;
+		bodyHash?: string;
+	};
+	response: {
+		status: number;
+		statusText: string;
+		headers: Record<string, string>;
+		body: string;
+		encoding?: "base64";
+	};
+	recordedAt: string;
+	/** Round-trip time in milliseconds */
+	duration: number;
+}
 
-export function options<T = unknown>(
-	url: string,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-) {
-	return fetcher<T>(url, "OPTIONS", options, params);
+/**
+ * Which request properties must be equal for a recorded entry to be replayed.
+ */
+export interface CassetteMatchOptions {
+	/** Compare HTTP methods (default: true) */
+	method?: boolean;
+	/** Compare URLs after redaction (default: true) */
+	url?: boolean;
+	/** Compare SHA-256 hashes of the request bodies (default: false) */
+	body?: boolean;
+	/** Query parameters left out of the URL comparison, e.g. timestamps or nonces */
+	ignoreQueryParams?: ReadonlyArray<string>;
 }
 
 /**
- * Convenience function for HEAD requests with optional schema validation.
+ * Options shared by `cassetteRecordLayer` and `cassetteReplayLayer`.
+ * Files ending in `.har` are read and written as HAR 1.2, anything else as a JSON cassette.
  */
-export function head<T = unknown>(
-	url: string,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-): Effect.Effect<T, FetcherError | ValidationError, HttpClient.HttpClient>;
+export interface CassetteOptions {
+	/** Path of the cassette file */
+	path: string;
+	/** How requests are matched against recorded entries */
+	match?: CassetteMatchOptions;
+	/** Header names replaced with "[REDACTED]" before writing (merged with the defaults) */
+	redactHeaders?: ReadonlyArray<string>;
+	/** Query parameters replaced with "REDACTED" before writing (merged with the defaults) */
+	redactQueryParams?: ReadonlyArray<string>;
+}
 
-export function head<S extends Type<any>>(
-	url: string,
-	options: FetcherOptions<Type<S>> & { schema: S },
-	params?: QueryParams,
-): Effect.Effect<
-	Type<S>,
-	FetcherError | ValidationError,
-	HttpClient.HttpClient
->;
+const DEFAULT_REDACTED_HEADERS = [
+	"authorization",
+	"proxy-authorization",
+	"cookie",
+	"set-cookie",
+	"x-api-key",
+	"x-goog-api-key",
+	"x-auth-token",
+];
+
+const TEXT_CONTENT_TYPE =
+	/^(text\/|application\/(json|xml|javascript|x-www-form-urlencoded)|[^;]*\+(json|xml))/i;
+
+const redactHeaderValues = (
+	headers: Readonly<Record<string, string>>,
+	names: ReadonlySet<string>,
+): Record<string, string> =>
+	Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [
+			name,
+			names.has(name.toLowerCase()) ? "[REDACTED]" : value,
+		]),
+	);
+
+const hashRequestBody = (body: HttpBody.HttpBody): string | undefined => {
+	switch (body._tag) {
+		case "Uint8Array":
+			return createHash("sha256").update(body.body).digest("hex");
+		case "Raw":
+			return typeof body.body === "string" || body.body instanceof Uint8Array
+				? createHash("sha256").update(body.body).digest("hex")
+				: undefined;
+		default:
+			return undefined;
+	}
+};
 
-export function head<T = unknown>(
-	url: string,
-	options?: FetcherOptions<T>,
-	params?: QueryParams,
-) {
-	return fetcher<T>(url, "HEAD", options, params);
-}
+const resolveCassetteOptions = (options: CassetteOptions) => {
+	const redactedParams = new Set([
+		...DEFAULT_REDACTED_QUERY_PARAMS,
+		...(options.redactQueryParams ?? []),
+	]);
+
+	return {
+		isHar: options.path.toLowerCase().endsWith(".har"),
+		redactedHeaders: new Set(
+			[...DEFAULT_REDACTED_HEADERS, ...(options.redactHeaders ?? [])].map(
+				(name) => name.toLowerCase(),
+			),
+		),
+		redactedParams,
+		/**
+		 * The identity of a request under the configured match options.
+		 */
+		matchKey: (method: string, url: string, bodyHash: string | undefined) => {
+			const {
+				method: byMethod = true,
+				url: byUrl = true,
+				body: byBody = false,
+				ignoreQueryParams = [],
+			} = options.match ?? {};
+
+			const parsed = new URL(redactUrl(url, redactedParams));
+			for (const name of ignoreQueryParams) parsed.searchParams.delete(name);
+			parsed.searchParams.sort();
+
+			return JSON.stringify([
+				byMethod ? method.toUpperCase() : null,
+				byUrl ? parsed.toString() : null,
+				byBody ? (bodyHash ?? null) : null,
+			]);
+		},
+	};
+};
 
-// --- Utility functions for common schema patterns ---
+const toHar = (entries: ReadonlyArray<CassetteEntry>) => ({
+	log: {
+		version: "1.2",
+		creator: { name: "effect-fetch", version: "1.0.0" },
+		entries: entries.map((entry) => ({
+			startedDateTime: entry.recordedAt,
+			time: entry.duration,
+			request: {
+				method: entry.request.method,
+				url: entry.request.url,
+				httpVersion: "HTTP/1.1",
+				headers: Object.entries(entry.request.headers).map(([name, value]) => ({
+					name,
+					value,
+				})),
+				queryString: [...new URL(entry.request.url).searchParams].map(
+					([name, value]) => ({ name, value }),
+				),
+				cookies: [],
+				headersSize: -1,
+				bodySize: -1,
+				_bodyHash: entry.request.bodyHash,
+			},
+			response: {
+				status: entry.response.status,
+				statusText: entry.response.statusText,
+				httpVersion: "HTTP/1.1",
+				headers: Object.entries(entry.response.headers).map(
+					([name, value]) => ({ name, value }),
+				),
+				cookies: [],
+				content: {
+					size: -1,
+					mimeType:
+						entry.response.headers["content-type"] ??
+						"application/octet-stream",
+					text: entry.response.body,
+					encoding: entry.response.encoding,
+				},
+				redirectURL: "",
+				headersSize: -1,
+				bodySize: -1,
+			},
+			cache: {},
+			timings: { send: 0, wait: entry.duration, receive: 0 },
+		})),
+	},
+});
+
+type HarHeader = { name: string; value: string };
+
+type HarLog = {
+	log: {
+		entries: Array<{
+			startedDateTime: string;
+			time: number;
+			request: {
+				method: string;
+				url: string;
+				headers: HarHeader[];
+				_bodyHash?: string;
+			};
+			response: {
+				status: number;
+				statusText: string;
+				headers: HarHeader[];
+				content: { text?: string; encoding?: string };
+			};
+		}>;
+	};
+};
+
+const fromHar = (har: HarLog): CassetteEntry[] => {
+	const headerRecord = (headers: HarHeader[]) =>
+		Object.fromEntries(
+			headers.map(({ name, value }) => [name.toLowerCase(), value]),
+		);
+
+	return har.log.entries.map((entry) => ({
+		request: {
+			method: entry.request.method,
+			url: entry.request.url,
+			headers: headerRecord(entry.request.headers),
+			bodyHash: entry.request._bodyHash,
+		},
+		response: {
+			status: entry.response.status,
+			statusText: entry.response.statusText,
+			headers: headerRecord(entry.response.headers),
+			body: entry.response.content.text ?? "",
+			encoding:
+				entry.response.content.encoding === "base64" ? "base64" : undefined,
+		},
+		recordedAt: entry.startedDateTime,
+		duration: entry.time,
+	}));
+};
 
 /**
- * Helper function to create a paginated response schema.
+ * Wraps the HttpClient in the environment and records every exchange into a cassette.
+ * The file is rewritten after each response, so a crashed run still leaves usable fixtures.
+ * Secret headers and query parameters are redacted before anything touches the disk.
  *
  * @example
  * ```ts
- * const UserSchema = type({
- *   id: 'number',
- *   name: 'string'
- * });
- *
- * const PaginatedUsersSchema = createPaginatedSchema(UserSchema);
+ * const RecordLive = pipe(
+ *   cassetteRecordLayer({ path: "fixtures/gnews.har" }),
+ *   Layer.provide(FetchHttpClient.layer),
+ * );
  *
- * const effect = get("/api/users", {
- *   schema: PaginatedUsersSchema
- * });
+ * await Effect.runPromise(pipe(get(url, {}, { token }), Effect.provide(RecordLive)));
  * ```
  */
-export const createPaginatedSchema = <T>(itemSchema: Type<T>) => {
-	return type({
-		data: [itemSchema],
-		pagination: {
-			page: "number",
-			pageSize: "number",
-			total: "number",
-			totalPages: "number",
-		},
-	});
-};
+export const cassetteRecordLayer = (
+	options: CassetteOptions,
+): Layer.Layer<HttpClient.HttpClient, never, HttpClient.HttpClient> =>
+	Layer.effect(
+		HttpClient.HttpClient,
+		Effect.gen(function* () {
+			const client = yield* HttpClient.HttpClient;
+			const { isHar, redactedHeaders, redactedParams } =
+				resolveCassetteOptions(options);
+			const entries: CassetteEntry[] = [];
+
+			// Concurrent responses queue their rewrites instead of racing on the file,
+			// and each rewrite includes every entry recorded by the time it starts
+			let writes: Promise<void> = Promise.resolve();
+			const persist = () => {
+				writes = writes
+					.catch(() => undefined)
+					.then(() =>
+						writeFile(
+							options.path,
+							JSON.stringify(
+								isHar ? toHar(entries) : { version: 1, entries },
+								null,
+								2,
+							),
+						),
+					);
+				return writes;
+			};
+
+			return HttpClient.make((request, url) =>
+				Effect.gen(function* () {
+					const startedAt = Date.now();
+					const response = yield* client.execute(request);
+					const bytes = new Uint8Array(yield* response.arrayBuffer);
+					const duration = Date.now() - startedAt;
+					const contentType = response.headers["content-type"] ?? "";
+					const isText =
+						contentType === "" || TEXT_CONTENT_TYPE.test(contentType);
+
+					entries.push({
+						request: {
+							method: request.method,
+							url: redactUrl(url.toString(), redactedParams),
+							headers: redactHeaderValues(request.headers, redactedHeaders),
+							bodyHash: hashRequestBody(request.body),
+						},
+						response: {
+							status: response.status,
+							statusText: "",
+							headers: redactHeaderValues(response.headers, redactedHeaders),
+							body: isText
+								? new TextDecoder().decode(bytes)
+								: Buffer.from(bytes).toString("base64"),
+							encoding: isText ? undefined : "base64",
+						},
+						recordedAt: new Date(startedAt).toISOString(),
+						duration,
+					});
+
+					yield* Effect.tryPromise({
+						try: persist,
+						catch: (cause) =>
+							new HttpClientError.RequestError({
+								request,
+								reason: "Transport",
+								cause,
+								description: `Failed to write cassette ${options.path}`,
+							}),
+					});
+
+					return HttpClientResponse.fromWeb(
+						request,
+						new Response(
+							response.status === 204 || response.status === 304 ? null : bytes,
+							{
+								status: response.status,
+								headers: response.headers,
+							},
+						),
+					);
+				}),
+			);
+		}),
+	);
 
 /**
- * Helper function to create an API response wrapper schema.
+ * Serves responses from a cassette without touching the network. Each recorded entry is
+ * replayed once in order; after that the last matching entry is repeated. Requests with
+ * no matching entry fail with a transport error naming the request.
  *
  * @example
  * ```ts
- * const UserSchema = type({
- *   id: 'number',
- *   name: 'string'
- * });
- *
- * const WrappedUserSchema = createApiResponseSchema(UserSchema);
- *
- * const effect = get("/api/user/123", {
- *   schema: WrappedUserSchema
- * });
+ * const effect = pipe(
+ *   get(url, { schema: ArticlesSchema }, { token: "anything" }),
+ *   Effect.provide(cassetteReplayLayer({ path: "fixtures/gnews.har" })),
+ * );
  * ```
  */
-export const createApiResponseSchema = <T>(dataSchema: Type<T>) => {
-	return type({
-		success: "boolean",
-		data: dataSchema,
-		message: "string?",
-		errors: "string[]?",
-	});
-};
+export const cassetteReplayLayer = (
+	options: CassetteOptions,
+): Layer.Layer<HttpClient.HttpClient> =>
+	Layer.effect(
+		HttpClient.HttpClient,
+		Effect.gen(function* () {
+			const { isHar, matchKey, redactedParams } =
+				resolveCassetteOptions(options);
+
+			const entries = yield* pipe(
+				Effect.tryPromise(async () => {
+					const parsed = JSON.parse(await readFile(options.path, "utf8"));
+					return isHar
+						? fromHar(parsed as HarLog)
+						: (parsed as { entries: CassetteEntry[] }).entries;
+				}),
+				Effect.orDieWith(
+					(error) =>
+						new Error(
+							`Failed to load cassette ${options.path}: ${error.cause}`,
+						),
+				),
+			);
+
+			const byKey = new Map<string, CassetteEntry[]>();
+			for (const entry of entries) {
+				const key = matchKey(
+					entry.request.method,
+					entry.request.url,
+					entry.request.bodyHash,
+				);
+				byKey.set(key, [...(byKey.get(key) ?? []), entry]);
+			}
+			const served = new Map<string, number>();
+
+			return HttpClient.make((request, url) => {
+				const key = matchKey(
+					request.method,
+					url.toString(),
+					hashRequestBody(request.body),
+				);
+				const candidates = byKey.get(key);
+
+				if (!candidates) {
+					return Effect.fail(
+						new HttpClientError.RequestError({
+							request,
+							reason: "Transport",
+							description: `No cassette entry in ${options.path} matches ${request.method} ${redactUrl(url.toString(), redactedParams)}`,
+						}),
+					);
+				}
+
+				const index = served.get(key) ?? 0;
+				served.set(key, index + 1);
+				const { response } = candidates[Math.min(index, candidates.length - 1)];
+
+				const body =
+					response.status === 204 || response.status === 304
+						? null
+						: response.encoding === "base64"
+							? Buffer.from(response.body, "base64")
+							: response.body;
+
+				return Effect.succeed(
+					HttpClientResponse.fromWeb(
+						request,
+						new Response(body, {
+							status: response.status,
+							headers: response.headers,
+						}),
+					),
+				);
+			});
+		}),
+	);
@@ -39,6 +39,8 @@ import { DefaultContext, type Generator, rateLimit } from "elysia-rate-limit";
 import { elysiaHelmet } from "elysiajs-helmet";
 import jwt from "jsonwebtoken";
 import logixlysia from "logixlysia";
+import { enterLogContext } from "./log-context.js";
+import { ShutdownManager } from "./process-signal.js";
 
 const authRegisterSchema = t.Object(
 	{
@@ -560,6 +562,13 @@ const permission = {
  * Includes tracing, logging, security, CORS, rate limiting, authentication, and utility/protected routes.
  */
 const api = new Elysia({ prefix: "/api/v1" })
+	// Tag every Logger line written while handling the request with its id
+	.onRequest(({ request, set }) => {
+		const requestId =
+			request.headers.get("x-request-id") ?? crypto.randomUUID();
+		set.headers["x-request-id"] = requestId;
+		enterLogContext({ requestId });
+	})
 	.trace(async ({ onBeforeHandle, onAfterHandle, onError }) => {
 		onBeforeHandle(({ begin, onStop }) => {
 			onStop(({ end }) => {
@@ -756,19 +765,18 @@ security, observability, and more.
 export type App = typeof api;
 
 /**
- * Gracefully shuts down the application and flushes telemetry.
- * @async
- * @returns {Promise<void>}
+ * Gracefully shuts down the application: stops accepting requests, then flushes telemetry.
  */
-const shutdown = async (): Promise<void> => {
-	console.info("Shutting down 🦊 Elysia");
-	await batchSpanProcessor.forceFlush();
-	await root.stop();
-	process.exit(0);
-};
-
-process.on("SIGINT", shutdown);
-process.on("SIGTERM", shutdown);
+const shutdown = new ShutdownManager({ timeout: 10_000 }).install();
+shutdown.register(
+	"http-server",
+	async () => {
+		console.info("Shutting down 🦊 Elysia");
+		await root.stop();
+	},
+	{ priority: 100 },
+);
+shutdown.register("telemetry", () => batchSpanProcessor.forceFlush());
 
 /**
  * Initializes Jaeger tracing by checking Docker and starting the Jaeger container if needed.
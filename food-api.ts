@@ -20,6 +20,16 @@
  * SOFTWARE.
  */
 
+import { FetchHttpClient } from "@effect/platform";
+import { Effect, Either, pipe } from "effect";
+import {
+	FetcherError,
+	type FetcherOptions,
+	fetcher,
+	isRetryableError,
+	ValidationError,
+} from "./effect-fetch.js";
+
 export interface FoodNutrient {
 	id: number;
 	amount: number;
@@ -228,113 +238,91 @@ export class FDCClient {
 	 */
 	private async makeRequest<T>(
 		endpoint: string,
-		options: RequestInit = {},
+		method: "GET" | "POST" = "GET",
+		body?: Record<string, unknown>,
 	): Promise<T> {
 		const url = `${this.baseUrl}${endpoint}`;
-		const controller = new AbortController();
-		const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
-		const requestOptions: RequestInit = {
-			...options,
-			signal: controller.signal,
+		const options: FetcherOptions<T> = {
+			timeout: this.timeout,
 			headers: {
 				"Content-Type": "application/json",
 				Accept: "application/json",
-				...options.headers,
+			},
+			retry: {
+				maxRetries: this.retryAttempts - 1,
+				baseDelay: this.retryDelay,
+				// A 429 blocks the key for an hour, so retrying it only extends the block
+				shouldRetry: (error) =>
+					isRetryableError(error) &&
+					!(error instanceof FetcherError && error.status === 429),
 			},
 		};
 
-		let lastError: Error;
-
-		for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
-			try {
-				console.log(`Making request to: ${url}`); // Debug log
-
-				const response = await fetch(url, requestOptions);
-				clearTimeout(timeoutId);
-
-				if (!response.ok) {
-					await this.handleHttpError(response);
-				}
-
-				const data = await response.json();
-				console.log(`Response received:`, JSON.stringify(data, null, 2)); // Debug log
-				return data as T;
-			} catch (error) {
-				lastError = error as Error;
-
-				// Log the error for debugging
-				console.error(`Attempt ${attempt} failed:`, error);
-
-				if (
-					error instanceof FDCRateLimitError ||
-					error instanceof FDCAuthError
-				) {
-					throw error; // Don't retry on these errors
-				}
-
-				if (attempt < this.retryAttempts) {
-					await this.delay(this.retryDelay * attempt);
-				}
-			}
+		const result = await Effect.runPromise(
+			pipe(
+				method === "POST"
+					? fetcher<T>(url, "POST", options, undefined, body)
+					: fetcher<T>(url, "GET", options),
+				Effect.provide(FetchHttpClient.layer),
+				Effect.either,
+			),
+		);
+
+		if (Either.isLeft(result)) {
+			throw this.toFDCError(result.left);
 		}
 
-		clearTimeout(timeoutId);
-		throw lastError!;
+		return result.right;
 	}
 
 	/**
-	 * Handle HTTP errors with appropriate error types
+	 * Map fetcher errors to the appropriate FDC error types
 	 */
-	private async handleHttpError(response: Response): Promise<never> {
-		let responseText = "";
-		try {
-			responseText = await response.text();
-		} catch (e) {
-			responseText = `Could not read response: ${e}`;
+	private toFDCError(error: FetcherError | ValidationError): FDCApiError {
+		if (error instanceof ValidationError) {
+			return new FDCApiError(error.message, undefined, error.responseData);
 		}
 
-		console.error(`HTTP Error ${response.status}: ${responseText}`); // Debug log
+		const responseText =
+			error.responseData === undefined
+				? error.message
+				: JSON.stringify(error.responseData);
 
-		switch (response.status) {
+		switch (error.status) {
+			case undefined:
+				return new FDCApiError(error.message);
 			case 401:
-				throw new FDCAuthError("Invalid API key");
+				return new FDCAuthError("Invalid API key");
 			case 429:
-				throw new FDCRateLimitError();
+				return new FDCRateLimitError();
 			case 404:
-				throw new FDCApiError(
+				return new FDCApiError(
 					`Resource not found. Check the endpoint URL and FDC ID.`,
 					404,
 					responseText,
 				);
 			case 400:
-				throw new FDCApiError(
+				return new FDCApiError(
 					`Bad request: ${responseText}`,
 					400,
 					responseText,
 				);
 			case 500:
-				throw new FDCApiError(
+				return new FDCApiError(
 					`Server error: ${responseText}`,
 					500,
 					responseText,
 				);
 			default:
-				throw new FDCApiError(
-					`HTTP ${response.status}: ${responseText}`,
-					response.status,
+				return new FDCApiError(
+					`HTTP ${error.status}: ${responseText}`,
+					error.status,
 					responseText,
 				);
 		}
 	}
 
-	/**
-	 * Utility method for delays
-	 */
-	private delay(ms: number): Promise<void> {
-		return new Promise((resolve) => setTimeout(resolve, ms));
-	}
-
 	/**
 	 * Validates FDC ID format
 	 */
@@ -404,10 +392,7 @@ export class FDCClient {
 		const queryString = this.buildQueryParams({});
 		const endpoint = `/foods?${queryString}`;
 
-		return this.makeRequest<Food[]>(endpoint, {
-			method: "POST",
-			body: JSON.stringify(body),
-		});
+		return this.makeRequest<Food[]>(endpoint, "POST", body);
 	}
 
 	/**
@@ -474,10 +459,7 @@ export class FDCClient {
 		const queryString = this.buildQueryParams({});
 		const endpoint = `/foods/search?${queryString}`;
 
-		return this.makeRequest<SearchResult>(endpoint, {
-			method: "POST",
-			body: JSON.stringify(body),
-		});
+		return this.makeRequest<SearchResult>(endpoint, "POST", body);
 	}
 
 	/**
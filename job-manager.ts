@@ -6,6 +6,7 @@ import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { stdin as input, stdout as output } from "node:process";
 import readline from "node:readline/promises";
 import ora from "ora";
+import { Scheduler } from "./time-manager.js";
 
 /**
  * Represents a job listing parsed from GitHub repositories.
@@ -1153,6 +1154,21 @@ async function updateAllSources(): Promise<void> {
   }
 }
 
+async function watchSources(schedule: string): Promise<void> {
+  const scheduler = new Scheduler();
+  // Overlapping refreshes would race on the jobs database
+  const job = scheduler.add("refresh-sources", {
+    schedule,
+    overlap: "skip",
+    jitter: ms("1m"),
+    task: () => updateAllSources(),
+  });
+
+  console.log(chalk.bold.blue(`\n⏰ Refreshing sources on "${schedule}"`));
+  console.log(chalk.gray(`   Next refresh: ${job.nextRunAt?.toLocaleString() ?? "never"}`));
+  console.log(chalk.gray("   Press Ctrl+C to stop.\n"));
+}
+
 async function markJobsAsProcessed(links: string[]): Promise<void> {
   const processedData = await loadProcessedJobs();
   
@@ -1410,6 +1426,7 @@ async function showHelp(): Promise<void> {
   console.log(chalk.bold.blue("╠" + "═".repeat(58) + "╣"));
   console.log(chalk.bold.blue("║") + chalk.bold.white(" Commands:" .padEnd(58)) + chalk.bold.blue("║"));
   console.log(chalk.bold.blue("║") + chalk.white(`   ${chalk.cyan('update')}       Fetch, filter, and save jobs`).padEnd(67) + chalk.bold.blue("║"));
+  console.log(chalk.bold.blue("║") + chalk.white(`   ${chalk.cyan('watch')}        Update on a cron schedule`).padEnd(67) + chalk.bold.blue("║"));
   console.log(chalk.bold.blue("║") + chalk.white(`   ${chalk.cyan('apply')}        Process jobs (smart shortcuts)`).padEnd(67) + chalk.bold.blue("║"));
   console.log(chalk.bold.blue("║") + chalk.white(`   ${chalk.cyan('stats')}        Show database statistics`).padEnd(67) + chalk.bold.blue("║"));
   console.log(chalk.bold.blue("║") + chalk.white(`   ${chalk.cyan('insights')}     Analytics & job insights`).padEnd(67) + chalk.bold.blue("║"));
@@ -1525,6 +1542,10 @@ async function main() {
     case "update": 
       await updateAllSources(); 
       break;
+
+    case "watch":
+      await watchSources(arg || "0 */6 * * *");
+      break;
       
     case "apply": 
       await openJobsInBatches(); 
@@ -20,18 +20,24 @@
  * SOFTWARE.
  */
 
-import { measurePerformance } from "./performance.js";
+import { parseBenchmarkArgs, runBenchmarks } from "./performance.js";
 
 if (require.main === module) {
 	(async () => {
+		// Inputs are built once per size so only the mapping itself is timed
+		const inputs = new Map<number, number[]>();
+		const input = (size: number) => {
+			let arr = inputs.get(size);
+			if (!arr) {
+				arr = Array.from({ length: size }, (_, i) => i);
+				inputs.set(size, arr);
+			}
+			return arr;
+		};
+
 		const standardMapAlgorithm = {
 			name: "StandardMap",
-			fn: async (size: number, calls: number) => {
-				const arr = Array.from({ length: size }, (_, i) => i);
-				for (let i = 0; i < calls; i++) {
-					arr.map((x) => x * 2);
-				}
-			},
+			fn: (size: number) => input(size).map((x) => x * 2),
 		};
 
 		function* lazyMap<T, R>(arr: T[], fn: (item: T) => R) {
@@ -42,12 +48,7 @@ if (require.main === module) {
 
 		const lazyMapAlgorithm = {
 			name: "LazyMap",
-			fn: async (size: number, calls: number) => {
-				const arr = Array.from({ length: size }, (_, i) => i);
-				for (let i = 0; i < calls; i++) {
-					[...lazyMap(arr, (x) => x * 2)];
-				}
-			},
+			fn: (size: number) => [...lazyMap(input(size), (x) => x * 2)],
 		};
 
 		async function* lazyMapAsync<T, R>(arr: T[], fn: (item: T) => Promise<R>) {
@@ -58,36 +59,22 @@ if (require.main === module) {
 
 		const lazyMapAsyncAlgorithm = {
 			name: "LazyMapAsync",
-			fn: async (size: number, calls: number) => {
-				const arr = Array.from({ length: size }, (_, i) => i);
-				for (let i = 0; i < calls; i++) {
-					const result: number[] = [];
-					for await (const item of lazyMapAsync(arr, async (x) => x * 2)) {
-						result.push(item);
-					}
+			fn: async (size: number) => {
+				const result: number[] = [];
+				for await (const item of lazyMapAsync(input(size), async (x) => x * 2)) {
+					result.push(item);
 				}
+				return result;
 			},
 		};
 
-		const sizes = [1_000, 10_000, 100_000, 1_000_000];
-
-		const results = await measurePerformance(
+		// e.g. bun lazy-map.ts --baseline lazy-map.baseline.json --json -
+		// Memory is always profiled, since holding less at once is the point of mapping lazily
+		// (--heap-snapshot snapshots/ also writes heap snapshots)
+		const args = parseBenchmarkArgs();
+		await runBenchmarks(
 			[standardMapAlgorithm, lazyMapAlgorithm, lazyMapAsyncAlgorithm],
-			sizes,
-			true, // warm up the functions
-			20 * 5, // number of iterations
-			30000, // max execution time in ms
-			1_000, // chunk size for parallel execution
+			{ sizes: [1_000, 10_000, 100_000], ...args, memory: args.memory || true },
 		);
-
-		Object.entries(results).forEach(([name, data]) => {
-			console.log(`${name} Results:`);
-			console.log(`Duration: ${data.duration.toFixed(6)}ms`);
-			console.log(
-				`Complexity: `,
-				JSON.stringify(data.estimatedDomains, null, 2),
-			);
-			console.log();
-		});
 	})();
 }
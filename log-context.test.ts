@@ -0,0 +1,155 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { context, trace } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { BasicTracerProvider } from "@opentelemetry/sdk-trace-base";
+import {
+	addLogContext,
+	enterLogContext,
+	getLogContext,
+	runWithLogContext,
+} from "./log-context.js";
+import { Logger, LogLevel, type LogRecord } from "./logger.js";
+
+const records: LogRecord[] = [];
+const logger = new Logger("LogContext", {
+	minLevel: LogLevel.DEBUG,
+	transports: [{ write: (record) => records.push(record) }],
+});
+
+/**
+ * Logs a line and returns its data
+ */
+const logged = (data?: Parameters<Logger["info"]>[1]) => {
+	logger.info("line", data);
+	return records.at(-1)?.data;
+};
+
+describe("log context", () => {
+	test("adds the fields to lines logged deep inside the scope", async () => {
+		const handler = async () => {
+			await Bun.sleep(1);
+			return new Promise((resolve) => {
+				setTimeout(() => resolve(logged({ status: 200 })), 1);
+			});
+		};
+
+		const data = await runWithLogContext({ requestId: "req-1" }, handler);
+
+		expect(data).toEqual({ requestId: "req-1", status: 200 });
+		expect(logged()).toBeUndefined();
+	});
+
+	test("keeps concurrent scopes apart", async () => {
+		const request = (requestId: string, delay: number) =>
+			runWithLogContext({ requestId }, async () => {
+				await Bun.sleep(delay);
+				return logged();
+			});
+
+		expect(await Promise.all([request("a", 10), request("b", 1)])).toEqual([
+			{ requestId: "a" },
+			{ requestId: "b" },
+		]);
+	});
+
+	test("nested scopes inherit and override fields", () => {
+		runWithLogContext({ requestId: "req-1", user: "a" }, () => {
+			expect(runWithLogContext({ user: "b" }, () => logged())).toEqual({
+				requestId: "req-1",
+				user: "b",
+			});
+			expect(logged()).toEqual({ requestId: "req-1", user: "a" });
+		});
+	});
+
+	test("call data and bound fields take precedence over the context", () => {
+		const child = logger.child({ source: "bound", user: "bound" });
+
+		runWithLogContext({ user: "ambient", source: "ambient", job: 1 }, () => {
+			child.info("line", { user: "call" });
+		});
+
+		expect(records.at(-1)?.data).toEqual({
+			user: "call",
+			source: "bound",
+			job: 1,
+		});
+	});
+
+	test("addLogContext extends the current scope only", () => {
+		expect(addLogContext({ user: "a" })).toBe(false);
+
+		runWithLogContext({ requestId: "req-1" }, () => {
+			expect(addLogContext({ user: "a" })).toBe(true);
+			expect(logged()).toEqual({ requestId: "req-1", user: "a" });
+		});
+		expect(getLogContext()).toBeUndefined();
+	});
+
+	test("enterLogContext lasts for the rest of the async execution", async () => {
+		const handler = async () => {
+			enterLogContext({ requestId: "req-1" });
+			await Bun.sleep(1);
+			return logged();
+		};
+
+		expect(await runWithLogContext({}, handler)).toEqual({
+			requestId: "req-1",
+		});
+	});
+
+	describe("with OpenTelemetry", () => {
+		const contextManager = new AsyncLocalStorageContextManager();
+
+		beforeAll(() => {
+			context.setGlobalContextManager(contextManager.enable());
+		});
+
+		afterAll(() => {
+			context.disable();
+		});
+
+		test("adds the ids of the active span", () => {
+			const tracer = new BasicTracerProvider().getTracer("log-context");
+
+			tracer.startActiveSpan("request", (span) => {
+				const { traceId, spanId } = span.spanContext();
+				try {
+					expect(
+						runWithLogContext({ requestId: "req-1" }, () => logged()),
+					).toEqual({
+						traceId,
+						spanId,
+						requestId: "req-1",
+					});
+				} finally {
+					span.end();
+				}
+			});
+			expect(trace.getActiveSpan()).toBeUndefined();
+			expect(logged()).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * @fileoverview Async-context propagation of correlation fields for the Logger in logger.ts.
+ *
+ * Fields stored with `runWithLogContext` or `enterLogContext` live in an `AsyncLocalStorage`
+ * and are added to every line logged inside that scope, however deep in the call stack,
+ * together with the trace and span ids of the active OpenTelemetry span.
+ * Importing this module registers it as the Logger's context provider.
+ *
+ * @example
+ * import { runWithLogContext } from "./log-context.js";
+ *
+ * await runWithLogContext({ requestId: crypto.randomUUID() }, async () => {
+ *   await handleRequest(); // every Logger call in here includes requestId
+ * });
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { isSpanContextValid, trace } from "@opentelemetry/api";
+import { type LogData, Logger } from "./logger.js";
+
+/** Correlation fields of the current async scope */
+const storage = new AsyncLocalStorage<LogData>();
+
+/**
+ * Run a function inside a new log context. Fields of the enclosing context are inherited,
+ * and the context ends when the function (or the promise it returns) settles.
+ *
+ * @template T - The return type of the function
+ * @param {LogData} fields - Correlation fields, e.g. `{ requestId, userId }`
+ * @param {() => T} fn - The function to run
+ * @returns {T} The function's return value
+ */
+export const runWithLogContext = <T>(fields: LogData, fn: () => T): T =>
+	storage.run({ ...storage.getStore(), ...fields }, fn);
+
+/**
+ * Start a log context for the rest of the current async execution, for frameworks whose
+ * request hooks cannot wrap the handler in a callback (e.g. Elysia's `onRequest`).
+ *
+ * @param {LogData} fields - Correlation fields to add
+ */
+export const enterLogContext = (fields: LogData): void => {
+	storage.enterWith({ ...storage.getStore(), ...fields });
+};
+
+/**
+ * Add fields to the current log context, e.g. a user id known only after authentication.
+ * The fields are visible to everything else running in the same context.
+ *
+ * @param {LogData} fields - Correlation fields to add
+ * @returns {boolean} Whether there was a context to add them to
+ */
+export const addLogContext = (fields: LogData): boolean => {
+	const store = storage.getStore();
+	if (!store) return false;
+
+	Object.assign(store, fields);
+	return true;
+};
+
+/**
+ * Get the fields of the current log context, plus `traceId` and `spanId` when an
+ * OpenTelemetry span is active.
+ *
+ * @returns {LogData | undefined} The context fields, or undefined outside of any context
+ */
+export const getLogContext = (): LogData | undefined => {
+	const store = storage.getStore();
+	const spanContext = trace.getActiveSpan()?.spanContext();
+	const traceFields =
+		spanContext && isSpanContextValid(spanContext)
+			? { traceId: spanContext.traceId, spanId: spanContext.spanId }
+			: undefined;
+
+	if (!traceFields && (!store || Object.keys(store).length === 0)) {
+		return undefined;
+	}
+
+	return { ...traceFields, ...store };
+};
+
+Logger.setContextProvider(getLogContext);
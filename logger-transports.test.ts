@@ -0,0 +1,331 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	afterAll,
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	spyOn,
+	test,
+} from "bun:test";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Writable } from "node:stream";
+import { gunzipSync } from "node:zlib";
+import {
+	HttpTransport,
+	JsonLinesTransport,
+	RotatingFileTransport,
+} from "./logger-transports.js";
+import { LogLevel, type LogRecord } from "./logger.js";
+
+const record = (
+	message: string,
+	timestamp = new Date("2025-06-02T09:00:00Z"),
+): LogRecord => ({
+	timestamp,
+	level: "info",
+	severity: LogLevel.INFO,
+	context: "Transports",
+	message,
+	isServer: true,
+});
+
+const message = (record: LogRecord) => record.message;
+
+let dir: string;
+
+beforeEach(async () => {
+	dir = await mkdtemp(join(tmpdir(), "logger-transports-"));
+});
+
+afterEach(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+describe("RotatingFileTransport", () => {
+	/**
+	 * Rotated segments oldest first, with gzipped ones decompressed
+	 */
+	const segments = async () => {
+		const files = (await readdir(dir))
+			.filter((file) => file.startsWith("app.log."))
+			.sort();
+		return Promise.all(
+			files.map(async (file) => {
+				const content = await readFile(join(dir, file));
+				return (
+					file.endsWith(".gz") ? gunzipSync(content) : content
+				).toString();
+			}),
+		);
+	};
+
+	// Each line, newline included, is 7 bytes
+	const lines = (count: number, minutes = 0) =>
+		Array.from({ length: count }, (_, i) =>
+			record(
+				`line-${i + 1}`,
+				new Date(Date.UTC(2025, 5, 2, 9, minutes ? i * minutes : 0)),
+			),
+		);
+
+	test("rotates by size and gzips the old segments", async () => {
+		const path = join(dir, "app.log");
+		const transport = new RotatingFileTransport({
+			path,
+			maxSize: 20,
+			formatter: message,
+		});
+
+		for (const line of lines(6, 1)) transport.write(line);
+		await transport.close();
+
+		expect(await readFile(path, "utf8")).toBe("line-5\nline-6\n");
+		expect(
+			(await readdir(dir)).filter((file) => file.endsWith(".gz")),
+		).toHaveLength(2);
+		expect(await segments()).toEqual(["line-1\nline-2\n", "line-3\nline-4\n"]);
+	});
+
+	test("keeps distinct segments for rotations within the same millisecond", async () => {
+		const path = join(dir, "app.log");
+		const transport = new RotatingFileTransport({
+			path,
+			maxSize: 7,
+			compress: false,
+			formatter: message,
+		});
+
+		for (const line of lines(3)) transport.write(line);
+		await transport.close();
+
+		expect((await segments()).toSorted()).toEqual(["line-1\n", "line-2\n"]);
+	});
+
+	test("rotates when the interval rolls over", async () => {
+		const path = join(dir, "app.log");
+		const transport = new RotatingFileTransport({
+			path,
+			interval: "hourly",
+			compress: false,
+			formatter: message,
+		});
+
+		transport.write(record("before", new Date("2025-06-02T09:59:00Z")));
+		transport.write(record("still", new Date("2025-06-02T09:59:30Z")));
+		transport.write(record("after", new Date("2025-06-02T10:00:00Z")));
+		await transport.close();
+
+		expect(await segments()).toEqual(["before\nstill\n"]);
+		expect(await readFile(path, "utf8")).toBe("after\n");
+	});
+
+	test("keeps only the newest maxFiles segments", async () => {
+		const path = join(dir, "app.log");
+		const transport = new RotatingFileTransport({
+			path,
+			maxSize: 7,
+			maxFiles: 2,
+			formatter: message,
+		});
+
+		for (const line of lines(5, 1)) transport.write(line);
+		await transport.close();
+
+		expect(await segments()).toEqual(["line-3\n", "line-4\n"]);
+	});
+
+	test("counts an existing file towards maxSize", async () => {
+		const path = join(dir, "app.log");
+		await writeFile(path, "previous run\n");
+		const transport = new RotatingFileTransport({
+			path,
+			maxSize: 15,
+			compress: false,
+			formatter: message,
+		});
+
+		transport.write(record("line-1"));
+		await transport.close();
+
+		expect(await segments()).toEqual(["previous run\n"]);
+		expect(await readFile(path, "utf8")).toBe("line-1\n");
+	});
+});
+
+describe("JsonLinesTransport", () => {
+	test("writes one JSON object per line to a stream", () => {
+		const chunks: string[] = [];
+		const stream = new Writable({
+			write(chunk, _encoding, callback) {
+				chunks.push(String(chunk));
+				callback();
+			},
+		});
+		const transport = new JsonLinesTransport({ stream });
+
+		transport.write({ ...record("served"), data: { status: 200 } });
+		transport.write(record("done"));
+
+		expect(chunks.map((chunk) => JSON.parse(chunk))).toEqual([
+			{
+				ts: "2025-06-02T09:00:00.000Z",
+				level: "info",
+				context: "Transports",
+				msg: "served",
+				status: 200,
+			},
+			expect.objectContaining({ msg: "done" }),
+		]);
+		expect(chunks.every((chunk) => chunk.endsWith("}\n"))).toBe(true);
+	});
+
+	test("appends to a file, creating its directory", async () => {
+		const path = join(dir, "nested", "app.ndjson");
+		const transport = new JsonLinesTransport({ path, formatter: message });
+
+		transport.write(record("first"));
+		transport.write(record("second"));
+
+		expect(await readFile(path, "utf8")).toBe("first\nsecond\n");
+	});
+});
+
+describe("HttpTransport", () => {
+	const batches: {
+		body: string;
+		contentType: string | null;
+		key: string | null;
+	}[] = [];
+	let statuses: number[] = [];
+	const server = Bun.serve({
+		port: 0,
+		async fetch(request) {
+			batches.push({
+				body: await request.text(),
+				contentType: request.headers.get("content-type"),
+				key: request.headers.get("x-api-key"),
+			});
+			return new Response(null, { status: statuses.shift() ?? 200 });
+		},
+	});
+
+	const transports: HttpTransport[] = [];
+	const create = (
+		options: Partial<ConstructorParameters<typeof HttpTransport>[0]>,
+	) => {
+		const transport = new HttpTransport({
+			url: `http://localhost:${server.port}/ingest`,
+			flushInterval: 60_000,
+			retryDelay: 10,
+			formatter: message,
+			...options,
+		});
+		transports.push(transport);
+		return transport;
+	};
+
+	beforeEach(() => {
+		batches.length = 0;
+		statuses = [];
+	});
+
+	afterEach(async () => {
+		await Promise.all(
+			transports.splice(0).map((transport) => transport.close()),
+		);
+	});
+
+	afterAll(() => {
+		server.stop(true);
+	});
+
+	test("sends full batches as NDJSON and the rest on close", async () => {
+		const transport = create({ batchSize: 2, headers: { "X-Api-Key": "key" } });
+
+		for (const line of ["a", "b", "c", "d", "e"]) transport.write(record(line));
+		await transport.close();
+
+		expect(batches.map(({ body }) => body)).toEqual([
+			"a\nb\n",
+			"c\nd\n",
+			"e\n",
+		]);
+		expect(batches[0]).toMatchObject({
+			contentType: "application/x-ndjson",
+			key: "key",
+		});
+	});
+
+	test("retries server errors with exponential backoff", async () => {
+		statuses = [503, 429];
+		const transport = create({ retryDelay: 20 });
+
+		const startedAt = performance.now();
+		transport.write(record("a"));
+		await transport.flush();
+
+		expect(batches.map(({ body }) => body)).toEqual(["a\n", "a\n", "a\n"]);
+		// 20ms before the first retry, 40ms before the second
+		expect(performance.now() - startedAt).toBeGreaterThanOrEqual(55);
+	});
+
+	test("drops a batch after a client error without retrying", async () => {
+		const error = spyOn(console, "error").mockImplementation(() => {});
+		statuses = [400];
+		const transport = create({});
+
+		try {
+			transport.write(record("a"));
+			transport.write(record("b"));
+			await transport.flush();
+
+			expect(batches).toHaveLength(1);
+			expect(error).toHaveBeenCalledWith(
+				expect.stringContaining("Dropped 2 log records sent to"),
+			);
+		} finally {
+			error.mockRestore();
+		}
+	});
+
+	test("drops the oldest records when the buffer overflows", async () => {
+		const error = spyOn(console, "error").mockImplementation(() => {});
+		const transport = create({ maxBufferSize: 2 });
+
+		try {
+			for (const line of ["a", "b", "c", "d"]) transport.write(record(line));
+			await transport.flush();
+
+			expect(batches.map(({ body }) => body)).toEqual(["c\nd\n"]);
+			expect(error).toHaveBeenCalledWith(
+				"[HttpTransport] Dropped 2 log records after the buffer overflowed",
+			);
+		} finally {
+			error.mockRestore();
+		}
+	});
+});
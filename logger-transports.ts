@@ -0,0 +1,482 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * @fileoverview Server-side transports for the Logger in logger.ts: rotating log files
+ * with gzip of old segments, newline-delimited JSON, and a batched HTTP sink.
+ * Kept apart from logger.ts so the logger itself stays usable in the browser.
+ */
+
+import {
+	appendFileSync,
+	createReadStream,
+	createWriteStream,
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	renameSync,
+	statSync,
+	unlinkSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { createGzip } from "node:zlib";
+import {
+	jsonFormatter,
+	type LogFormatter,
+	type LogLevel,
+	type LogRecord,
+	type LogTransport,
+	textFormatter,
+} from "./logger.js";
+
+/**
+ * Length of the named rotation intervals in milliseconds
+ */
+const INTERVALS = {
+	hourly: 60 * 60 * 1_000,
+	daily: 24 * 60 * 60 * 1_000,
+} as const;
+
+/**
+ * Options shared by every transport in this module
+ * @interface
+ */
+export interface TransportOptions {
+	/**
+	 * The minimum level of records this transport accepts
+	 */
+	minLevel?: LogLevel;
+
+	/**
+	 * Formatter turning a record into one line of output
+	 */
+	formatter?: LogFormatter;
+}
+
+/**
+ * Options for `RotatingFileTransport`
+ * @interface
+ */
+export interface RotatingFileTransportOptions extends TransportOptions {
+	/**
+	 * Path of the active log file; rotated segments are written next to it
+	 */
+	path: string;
+
+	/**
+	 * Rotate once the active file would grow beyond this many bytes (default: 10 MB)
+	 */
+	maxSize?: number;
+
+	/**
+	 * Also rotate when the hour/day (UTC) or a custom period in milliseconds rolls over
+	 */
+	interval?: keyof typeof INTERVALS | number;
+
+	/**
+	 * Number of rotated segments to keep (default: 7)
+	 */
+	maxFiles?: number;
+
+	/**
+	 * Whether to gzip rotated segments (default: true)
+	 */
+	compress?: boolean;
+}
+
+/**
+ * Transport appending plain-text lines to a file, rotating it by size and/or time.
+ * Rotated segments are renamed to `<path>.<ISO timestamp>` and gzipped in the background.
+ *
+ * @example
+ * const transport = new RotatingFileTransport({
+ *   path: "logs/app.log",
+ *   maxSize: 5_000_000,
+ *   interval: "daily",
+ *   maxFiles: 14,
+ * });
+ */
+export class RotatingFileTransport implements LogTransport {
+	readonly minLevel?: LogLevel;
+	private readonly formatter: LogFormatter;
+	private readonly path: string;
+	private readonly maxSize: number;
+	private readonly intervalMs?: number;
+	private readonly maxFiles: number;
+	private readonly compress: boolean;
+
+	/** Size of the active file in bytes */
+	private size = 0;
+
+	/** Time of the last write to the active file */
+	private lastWrite = Date.now();
+
+	/** Background compression and pruning of rotated segments */
+	private pending: Promise<void> = Promise.resolve();
+
+	constructor(options: RotatingFileTransportOptions) {
+		this.minLevel = options.minLevel;
+		this.formatter =
+			options.formatter ??
+			textFormatter({ colorize: false, includeTimestamp: true });
+		this.path = options.path;
+		this.maxSize = options.maxSize ?? 10 * 1024 * 1024;
+		this.intervalMs =
+			typeof options.interval === "string"
+				? INTERVALS[options.interval]
+				: options.interval;
+		this.maxFiles = options.maxFiles ?? 7;
+		this.compress = options.compress ?? true;
+
+		mkdirSync(dirname(this.path), { recursive: true });
+		if (existsSync(this.path)) {
+			const stats = statSync(this.path);
+			this.size = stats.size;
+			this.lastWrite = stats.mtimeMs;
+		}
+	}
+
+	write(record: LogRecord): void {
+		const line = `${this.formatter(record)}\n`;
+		const bytes = Buffer.byteLength(line);
+		const now = record.timestamp.getTime();
+
+		if (
+			this.size > 0 &&
+			(this.size + bytes > this.maxSize ||
+				(this.intervalMs !== undefined &&
+					Math.floor(now / this.intervalMs) !==
+						Math.floor(this.lastWrite / this.intervalMs)))
+		) {
+			this.rotate();
+		}
+
+		appendFileSync(this.path, line);
+		this.size += bytes;
+		this.lastWrite = now;
+	}
+
+	/**
+	 * Waits for rotated segments to be compressed and pruned
+	 */
+	async flush(): Promise<void> {
+		await this.pending;
+	}
+
+	async close(): Promise<void> {
+		await this.flush();
+	}
+
+	/**
+	 * Moves the active file aside, then compresses it and prunes old segments
+	 */
+	private rotate(): void {
+		const stamp = new Date(this.lastWrite).toISOString().replace(/[:.]/g, "-");
+		let segment = `${this.path}.${stamp}`;
+		for (let i = 1; existsSync(segment) || existsSync(`${segment}.gz`); i++) {
+			segment = `${this.path}.${stamp}-${i}`;
+		}
+
+		renameSync(this.path, segment);
+		this.size = 0;
+
+		this.pending = this.pending
+			.then(async () => {
+				if (this.compress) {
+					await pipeline(
+						createReadStream(segment),
+						createGzip(),
+						createWriteStream(`${segment}.gz`),
+					);
+					unlinkSync(segment);
+				}
+				this.prune();
+			})
+			.catch((error) => {
+				console.error(
+					`[RotatingFileTransport] Failed to archive ${segment}:`,
+					error,
+				);
+			});
+	}
+
+	/**
+	 * Deletes the oldest archived segments beyond `maxFiles`. Segments still waiting
+	 * for compression are left alone.
+	 */
+	private prune(): void {
+		const directory = dirname(this.path);
+		const prefix = `${basename(this.path)}.`;
+		const segments = readdirSync(directory)
+			.filter(
+				(file) =>
+					file.startsWith(prefix) && file.endsWith(".gz") === this.compress,
+			)
+			.map((file) => ({
+				path: join(directory, file),
+				mtime: statSync(join(directory, file)).mtimeMs,
+			}))
+			.sort((a, b) => b.mtime - a.mtime || b.path.localeCompare(a.path));
+
+		for (const segment of segments.slice(this.maxFiles)) {
+			unlinkSync(segment.path);
+		}
+	}
+}
+
+/**
+ * Options for `JsonLinesTransport`
+ * @interface
+ */
+export interface JsonLinesTransportOptions extends TransportOptions {
+	/**
+	 * File to append to; when omitted, lines go to `stream`
+	 */
+	path?: string;
+
+	/**
+	 * Stream to write to when no `path` is given (default: process.stdout)
+	 */
+	stream?: NodeJS.WritableStream;
+}
+
+/**
+ * Transport writing one JSON object per line (NDJSON) to a file or a stream,
+ * for log shippers and `jq`.
+ *
+ * @example
+ * const transport = new JsonLinesTransport({ path: "logs/app.ndjson" });
+ */
+export class JsonLinesTransport implements LogTransport {
+	readonly minLevel?: LogLevel;
+	private readonly formatter: LogFormatter;
+	private readonly path?: string;
+	private readonly stream: NodeJS.WritableStream;
+
+	constructor(options: JsonLinesTransportOptions = {}) {
+		this.minLevel = options.minLevel;
+		this.formatter = options.formatter ?? jsonFormatter();
+		this.path = options.path;
+		this.stream = options.stream ?? process.stdout;
+
+		if (this.path) mkdirSync(dirname(this.path), { recursive: true });
+	}
+
+	write(record: LogRecord): void {
+		const line = `${this.formatter(record)}\n`;
+
+		if (this.path) {
+			appendFileSync(this.path, line);
+		} else {
+			this.stream.write(line);
+		}
+	}
+}
+
+/**
+ * Options for `HttpTransport`
+ * @interface
+ */
+export interface HttpTransportOptions extends TransportOptions {
+	/**
+	 * Endpoint receiving batches as an `application/x-ndjson` POST body
+	 */
+	url: string;
+
+	/**
+	 * Extra request headers, e.g. an API key
+	 */
+	headers?: Record<string, string>;
+
+	/**
+	 * Send as soon as this many records are buffered (default: 100)
+	 */
+	batchSize?: number;
+
+	/**
+	 * Send whatever is buffered at this interval in milliseconds (default: 5000)
+	 */
+	flushInterval?: number;
+
+	/**
+	 * Retries per batch on network errors, 429 and 5xx responses (default: 3)
+	 */
+	maxRetries?: number;
+
+	/**
+	 * Delay before the first retry in milliseconds, doubled on each retry (default: 1000)
+	 */
+	retryDelay?: number;
+
+	/**
+	 * Upper bound for the retry delay in milliseconds (default: 30000)
+	 */
+	maxRetryDelay?: number;
+
+	/**
+	 * Records kept in memory while the endpoint is unreachable; the oldest are dropped
+	 * beyond this (default: 10000)
+	 */
+	maxBufferSize?: number;
+}
+
+/**
+ * Transport shipping records to an HTTP endpoint in batches, retrying failed batches
+ * with exponential backoff. Buffered records are sent when the process is about to
+ * exit; call `close()` (or `Logger.closeAll()`) before `process.exit`.
+ *
+ * @example
+ * const transport = new HttpTransport({
+ *   url: "https://logs.example.com/ingest",
+ *   headers: { Authorization: `Bearer ${process.env.LOG_TOKEN}` },
+ *   minLevel: LogLevel.WARN,
+ * });
+ */
+export class HttpTransport implements LogTransport {
+	readonly minLevel?: LogLevel;
+	private readonly formatter: LogFormatter;
+	private readonly options: Required<
+		Omit<HttpTransportOptions, "minLevel" | "formatter">
+	>;
+
+	/** Formatted records waiting to be sent */
+	private buffer: string[] = [];
+
+	/** Records dropped because the buffer overflowed, reported with the next send */
+	private dropped = 0;
+
+	/** Chain of in-flight sends, so batches go out in order */
+	private sending: Promise<void> = Promise.resolve();
+
+	private readonly timer: ReturnType<typeof setInterval>;
+	private readonly onBeforeExit = () => {
+		void this.flush();
+	};
+
+	constructor(options: HttpTransportOptions) {
+		this.minLevel = options.minLevel;
+		this.formatter = options.formatter ?? jsonFormatter();
+		this.options = {
+			url: options.url,
+			headers: options.headers ?? {},
+			batchSize: options.batchSize ?? 100,
+			flushInterval: options.flushInterval ?? 5_000,
+			maxRetries: options.maxRetries ?? 3,
+			retryDelay: options.retryDelay ?? 1_000,
+			maxRetryDelay: options.maxRetryDelay ?? 30_000,
+			maxBufferSize: options.maxBufferSize ?? 10_000,
+		};
+
+		this.timer = setInterval(() => {
+			void this.flush();
+		}, this.options.flushInterval);
+		// The timer alone must not keep the process alive
+		this.timer.unref?.();
+		process.once("beforeExit", this.onBeforeExit);
+	}
+
+	write(record: LogRecord): void {
+		this.buffer.push(this.formatter(record));
+
+		if (this.buffer.length > this.options.maxBufferSize) {
+			this.dropped += this.buffer.length - this.options.maxBufferSize;
+			this.buffer.splice(0, this.buffer.length - this.options.maxBufferSize);
+		}
+
+		if (this.buffer.length >= this.options.batchSize) {
+			void this.flush();
+		}
+	}
+
+	/**
+	 * Sends every buffered record, one batch at a time
+	 */
+	flush(): Promise<void> {
+		this.sending = this.sending.then(async () => {
+			while (this.buffer.length > 0) {
+				await this.send(this.buffer.splice(0, this.options.batchSize));
+			}
+		});
+		return this.sending;
+	}
+
+	async close(): Promise<void> {
+		clearInterval(this.timer);
+		process.removeListener("beforeExit", this.onBeforeExit);
+		await this.flush();
+	}
+
+	/**
+	 * Posts one batch, retrying with exponential backoff. Batches that still fail are
+	 * dropped and reported on stderr rather than thrown.
+	 */
+	private async send(batch: string[]): Promise<void> {
+		if (this.dropped > 0) {
+			console.error(
+				`[HttpTransport] Dropped ${this.dropped} log records after the buffer overflowed`,
+			);
+			this.dropped = 0;
+		}
+
+		let reason = "";
+		for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+			if (attempt > 0) {
+				const delay = Math.min(
+					this.options.retryDelay * 2 ** (attempt - 1),
+					this.options.maxRetryDelay,
+				);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
+
+			try {
+				const response = await fetch(this.options.url, {
+					method: "POST",
+					headers: {
+						"Content-Type": "application/x-ndjson",
+						...this.options.headers,
+					},
+					body: `${batch.join("\n")}\n`,
+				});
+
+				if (response.ok) return;
+
+				reason = `HTTP ${response.status}`;
+				// Other client errors will not succeed on retry
+				if (
+					response.status >= 400 &&
+					response.status < 500 &&
+					response.status !== 408 &&
+					response.status !== 429
+				) {
+					break;
+				}
+			} catch (error) {
+				reason = error instanceof Error ? error.message : String(error);
+			}
+		}
+
+		console.error(
+			`[HttpTransport] Dropped ${batch.length} log records sent to ${this.options.url}: ${reason}`,
+		);
+	}
+}
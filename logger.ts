@@ -80,6 +80,144 @@ export interface LogData {
 	[key: string]: any;
 }
 
+/**
+ * Name of the logger method that produced a record
+ * @typedef {'error' | 'warn' | 'info' | 'debug' | 'trace' | 'action' | 'success'} LogLevelName
+ */
+export type LogLevelName =
+	| "error"
+	| "warn"
+	| "info"
+	| "debug"
+	| "trace"
+	| "action"
+	| "success";
+
+/**
+ * A single log entry, as handed to transports
+ * @interface
+ */
+export interface LogRecord {
+	/** When the entry was created */
+	timestamp: Date;
+	/** The logger method that produced the entry */
+	level: LogLevelName;
+	/** Numeric level of the entry, used for filtering */
+	severity: LogLevel;
+	/** Context/category name of the logger */
+	context: string;
+	/** The log message */
+	message: string;
+	/** Structured data attached to the entry */
+	data?: LogData;
+	/** Whether the entry was produced in a server environment */
+	isServer: boolean;
+	/** Number of `span`s the entry was logged in, used to indent text output */
+	depth?: number;
+}
+
+/**
+ * Turns a log record into a single line of output
+ */
+export type LogFormatter = (record: LogRecord) => string;
+
+/**
+ * A destination for log records. A logger fans every record out to all of its transports.
+ * @interface
+ */
+export interface LogTransport {
+	/**
+	 * The minimum level of records this transport accepts, on top of the logger's own level
+	 */
+	minLevel?: LogLevel;
+
+	/**
+	 * Writes a record. Buffered transports may defer the actual output until `flush`.
+	 */
+	write(record: LogRecord): void;
+
+	/**
+	 * Writes out any buffered records
+	 */
+	flush?(): Promise<void>;
+
+	/**
+	 * Flushes and releases the transport's resources (timers, handles)
+	 */
+	close?(): Promise<void>;
+}
+
+/**
+ * Supplies fields from the ambient (async) context, such as request or trace ids,
+ * that are added to every record. See log-context.ts.
+ */
+export type LogContextProvider = () => LogData | undefined;
+
+/**
+ * Redaction rules applied to messages, data and error messages before any transport sees them
+ * @interface
+ */
+export interface RedactOptions {
+	/**
+	 * Key paths whose values are replaced entirely, e.g. "headers.authorization" or "*.password".
+	 * Keys match case-insensitively; `*` matches one key or array index and `**` any number
+	 * of them (default: DEFAULT_REDACT_PATHS)
+	 */
+	paths?: string[];
+
+	/**
+	 * Patterns replaced wherever they occur inside strings (default: DEFAULT_REDACT_PATTERNS)
+	 */
+	patterns?: RegExp[];
+
+	/**
+	 * Replacement text, or a function computing the replacement from the redacted value
+	 * (a whole value for paths, the matched text for patterns) and its key path
+	 * (default: "[REDACTED]")
+	 */
+	censor?: string | ((value: unknown, path: string) => unknown);
+}
+
+/**
+ * Sampling for hot paths. Records are grouped by key (default: level and message) and each
+ * group is thinned independently; error records are never dropped.
+ * @interface
+ */
+export interface SamplingOptions {
+	/**
+	 * Keep 1 in every N records of a key
+	 */
+	every?: number;
+
+	/**
+	 * Keep at most this many records of a key per second
+	 */
+	perSecond?: number;
+
+	/**
+	 * Computes the grouping key of a record
+	 */
+	key?: (level: LogLevelName, message: string, data?: LogData) => string;
+}
+
+/**
+ * A running timer created by `logger.time(label)`
+ * @interface
+ */
+export interface LogTimer {
+	/**
+	 * Log successful completion with the elapsed time
+	 * @returns {number} Elapsed milliseconds
+	 */
+	end(data?: LogData): number;
+
+	/**
+	 * Log failure with the error and the elapsed time
+	 * @returns {number} Elapsed milliseconds
+	 */
+	fail(error: unknown, data?: LogData): number;
+}
+
 /**
  * Configuration options for the Logger
  * @interface
@@ -100,15 +238,568 @@ export interface LoggerOptions {
 	 */
 	colorize?: boolean;
 
+	/**
+	 * Output format of the default console transport: human-readable text, or one JSON
+	 * object per line (default: "json" when LOG_FORMAT=json, otherwise "text")
+	 */
+	format?: "text" | "json";
+
 	/**
 	 * Whether to write logs to a file (server-side only)
+	 * @deprecated Pass a `RotatingFileTransport` from logger-transports.ts in `transports`
 	 */
 	logToFile?: boolean;
 
 	/**
 	 * Path to the log file if logToFile is enabled
+	 * @deprecated Pass a `RotatingFileTransport` from logger-transports.ts in `transports`
 	 */
 	filePath?: string;
+
+	/**
+	 * Where log records go (default: a single colorized `ConsoleTransport`)
+	 */
+	transports?: LogTransport[];
+
+	/**
+	 * Secret and PII redaction; `true` applies the default paths and patterns
+	 */
+	redact?: boolean | RedactOptions;
+
+	/**
+	 * Drop repetitive records on hot paths
+	 */
+	sampling?: SamplingOptions;
+}
+
+/** ANSI color codes for terminal output */
+const COLORS: Record<ColorKey, string> = {
+	reset: "\x1b[0m",
+	red: "\x1b[31m",
+	green: "\x1b[32m",
+	yellow: "\x1b[33m",
+	blue: "\x1b[34m",
+	magenta: "\x1b[35m",
+	cyan: "\x1b[36m",
+	white: "\x1b[37m",
+	gray: "\x1b[90m",
+	bold: "\x1b[1m",
+};
+
+/** Mapping of log levels to their display colors */
+const LEVEL_COLORS: Record<LogLevelName, ColorKey> = {
+	error: "red",
+	warn: "yellow",
+	info: "blue",
+	debug: "gray",
+	trace: "cyan",
+	action: "magenta",
+	success: "green",
+};
+
+/**
+ * Apply an ANSI color to text
+ *
+ * @param {ColorKey} color - The color to apply
+ * @param {string} text - The text to colorize
+ * @returns {string} Colorized text
+ */
+const paint = (color: ColorKey, text: string): string =>
+	`${COLORS[color]}${text}${COLORS.reset}`;
+
+/**
+ * Options for the human-readable text formatter
+ * @interface
+ */
+export interface TextFormatterOptions {
+	/**
+	 * Whether to apply ANSI color codes to the level indicator
+	 */
+	colorize?: boolean;
+
+	/**
+	 * Whether to include ISO timestamps in log messages
+	 */
+	includeTimestamp?: boolean;
+}
+
+/**
+ * Create the human-readable formatter used for console output, e.g.
+ * `[INFO] 2025-01-01T00:00:00.000Z [SERVER] UserService: User logged in`
+ * followed by the pretty-printed data.
+ *
+ * @param {TextFormatterOptions} [options={}] - Formatter configuration
+ * @returns {LogFormatter} The formatter
+ */
+export const textFormatter =
+	(options: TextFormatterOptions = {}): LogFormatter =>
+	(record) => {
+		const { colorize = false, includeTimestamp = true } = options;
+		const timestamp = includeTimestamp ? record.timestamp.toISOString() : "";
+		const environment = record.isServer ? "[SERVER]" : "[CLIENT]";
+		const logParts = [
+			`${timestamp} ${environment} ${record.context}:`,
+			record.message,
+		];
+		const { data } = record;
+
+		if (data) {
+			// Handle special cases like Error objects better
+			if (data.error instanceof Error) {
+				logParts.push("\nError Details:");
+				logParts.push(`  Name: ${data.error.name}`);
+				logParts.push(`  Message: ${data.error.message}`);
+				if (data.error.stack) {
+					logParts.push(`  Stack: ${data.error.stack}`);
+				}
+
+				// Remove error from data to avoid duplication
+				const { error, ...restData } = data;
+				if (Object.keys(restData).length > 0) {
+					logParts.push("\nAdditional Data:");
+					logParts.push(JSON.stringify(restData, null, 2));
+				}
+			} else {
+				logParts.push("\n" + JSON.stringify(data, null, 2));
+			}
+		}
+
+		let level = `[${record.level.toUpperCase()}]`;
+		if (colorize) {
+			level = paint(LEVEL_COLORS[record.level], level);
+			if (record.level === "error") level = paint("bold", level);
+		}
+
+		const line = `${level} ${logParts.join(" ")}`;
+		return record.depth ? line.replace(/^/gm, "  ".repeat(record.depth)) : line;
+	};
+
+/** Fields every JSON line starts with */
+const JSON_FIELDS = new Set(["ts", "level", "context", "msg", "err"]);
+
+/**
+ * Convert an Error (including its cause chain) into a plain JSON-friendly object
+ *
+ * @param {unknown} error - The error to serialize
+ * @returns {unknown} The serialized error, or the value itself if it is not an Error
+ */
+const serializeError = (error: unknown): unknown =>
+	error instanceof Error
+		? {
+				name: error.name,
+				message: error.message,
+				stack: error.stack,
+				...(error.cause !== undefined && {
+					cause: serializeError(error.cause),
+				}),
+			}
+		: error;
+
+/**
+ * Create a formatter emitting one JSON object per record, for newline-delimited JSON sinks.
+ *
+ * Every line starts with the stable fields `ts`, `level`, `context` and `msg`, followed by
+ * `err` (`name`, `message`, `stack`) when the record carries an error, then the data fields.
+ * Data fields that collide with a stable field are written as `data.<name>`.
+ *
+ * @example
+ * // {"ts":"2025-01-01T00:00:00.000Z","level":"info","context":"Api","msg":"Request served","requestId":"abc","status":200}
+ *
+ * @returns {LogFormatter} The formatter
+ */
+export const jsonFormatter =
+	(): LogFormatter =>
+	(record): string => {
+		const { error, ...fields } = record.data ?? {};
+		const entry: Record<string, unknown> = {
+			ts: record.timestamp.toISOString(),
+			level: record.level,
+			context: record.context,
+			msg: record.message,
+		};
+
+		if (error !== undefined && error !== null) {
+			entry.err =
+				typeof error === "object"
+					? serializeError(error)
+					: { message: String(error) };
+		}
+
+		for (const [key, value] of Object.entries(fields)) {
+			entry[JSON_FIELDS.has(key) ? `data.${key}` : key] = value;
+		}
+
+		return JSON.stringify(entry, (_key, value) => serializeError(value));
+	};
+
+/**
+ * Key paths redacted by default: common credential field names at any depth
+ */
+export const DEFAULT_REDACT_PATHS: readonly string[] = [
+	"**.password",
+	"**.passwd",
+	"**.secret",
+	"**.token",
+	"**.accessToken",
+	"**.refreshToken",
+	"**.apiKey",
+	"**.api_key",
+	"**.clientSecret",
+	"**.client_secret",
+	"**.privateKey",
+	"**.authorization",
+	"**.cookie",
+];
+
+/**
+ * Token shapes redacted by default wherever they appear inside strings
+ */
+export const DEFAULT_REDACT_PATTERNS: readonly RegExp[] = [
+	// GitHub personal access, OAuth, app and refresh tokens
+	/\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}\b/g,
+	/\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+	// JSON Web Tokens
+	/\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+	// AWS access key ids
+	/\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+	// Slack tokens
+	/\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+	// OpenAI/Anthropic-style secret keys
+	/\bsk-[A-Za-z0-9_-]{20,}/g,
+	// Bearer credentials in header strings
+	/(?<=\bBearer\s+)[A-Za-z0-9._~+/-]+=*/gi,
+];
+
+/**
+ * Whether a key path matches a redaction path pattern (`*` = one segment, `**` = any number)
+ *
+ * @param {string[]} pattern - Lowercased pattern segments
+ * @param {string[]} path - Key path of the value
+ * @returns {boolean} Whether the path matches
+ */
+const matchPath = (
+	pattern: string[],
+	path: string[],
+	i = 0,
+	j = 0,
+): boolean => {
+	if (i === pattern.length) return j === path.length;
+	if (pattern[i] === "**") {
+		return (
+			matchPath(pattern, path, i + 1, j) ||
+			(j < path.length && matchPath(pattern, path, i, j + 1))
+		);
+	}
+	return (
+		j < path.length &&
+		(pattern[i] === "*" || pattern[i] === path[j].toLowerCase()) &&
+		matchPath(pattern, path, i + 1, j + 1)
+	);
+};
+
+/**
+ * Create a function returning a redacted copy of a value. Strings are scrubbed with the
+ * patterns, values at matching key paths are censored, and objects are copied (Errors keep
+ * their prototype) so the caller's data is never mutated. Circular references become
+ * "[Circular]".
+ *
+ * @param {RedactOptions} [options={}] - Redaction rules
+ * @returns {<T>(value: T) => T} The redaction function
+ *
+ * @example
+ * const redact = createRedactor({ paths: ["headers.authorization"] });
+ * redact({ headers: { Authorization: "Bearer abc" }, url: "/me" });
+ * // { headers: { Authorization: "[REDACTED]" }, url: "/me" }
+ */
+export const createRedactor = (
+	options: RedactOptions = {},
+): (<T>(value: T) => T) => {
+	const {
+		paths = DEFAULT_REDACT_PATHS,
+		patterns = DEFAULT_REDACT_PATTERNS,
+		censor = "[REDACTED]",
+	} = options;
+	const pathPatterns = paths.map((path) => path.toLowerCase().split("."));
+	const globalPatterns = patterns.map((pattern) =>
+		pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+	);
+
+	const replace = (value: unknown, path: string[]) =>
+		typeof censor === "function" ? censor(value, path.join(".")) : censor;
+
+	const scrub = (text: string, path: string[]) =>
+		globalPatterns.reduce(
+			(result, pattern) =>
+				result.replace(pattern, (match) => String(replace(match, path))),
+			text,
+		);
+
+	const visit = (
+		value: unknown,
+		path: string[],
+		ancestors: Set<object>,
+	): unknown => {
+		if (
+			path.length > 0 &&
+			pathPatterns.some((pattern) => matchPath(pattern, path))
+		) {
+			return replace(value, path);
+		}
+		if (typeof value === "string") return scrub(value, path);
+		if (typeof value !== "object" || value === null) return value;
+		if (ancestors.has(value)) return "[Circular]";
+
+		// Dates, URLs, Buffers... are logged in their JSON form
+		if (
+			!(value instanceof Error) &&
+			typeof (value as { toJSON?: unknown }).toJSON === "function"
+		) {
+			return visit(
+				(value as { toJSON: () => unknown }).toJSON(),
+				path,
+				ancestors,
+			);
+		}
+
+		ancestors.add(value);
+		let copy: unknown;
+
+		if (Array.isArray(value)) {
+			copy = value.map((item, index) =>
+				visit(item, [...path, String(index)], ancestors),
+			);
+		} else {
+			const target: Record<string, unknown> =
+				value instanceof Error
+					? Object.create(Object.getPrototypeOf(value))
+					: {};
+			const keys =
+				value instanceof Error
+					? new Set([...Object.keys(value), "name", "message", "stack"])
+					: Object.keys(value);
+
+			for (const key of keys) {
+				const item = (value as Record<string, unknown>)[key];
+				if (item !== undefined) {
+					target[key] = visit(item, [...path, key], ancestors);
+				}
+			}
+			copy = target;
+		}
+
+		ancestors.delete(value);
+		return copy;
+	};
+
+	return <T>(value: T): T => visit(value, [], new Set()) as T;
+};
+
+/** Number of sampling keys tracked before the oldest are forgotten */
+const MAX_SAMPLING_KEYS = 1_000;
+
+/**
+ * Create a sampling decision function. It returns undefined for records to drop, otherwise
+ * the number of records of the same key dropped since the last kept one.
+ *
+ * @param {SamplingOptions} options - Sampling configuration
+ * @returns {Function} The sampler
+ */
+const createSampler = (options: SamplingOptions) => {
+	const {
+		every = 1,
+		perSecond,
+		key = (level: LogLevelName, message: string) => `${level}:${message}`,
+	} = options;
+	const states = new Map<
+		string,
+		{ seen: number; windowStart: number; inWindow: number; dropped: number }
+	>();
+
+	return (
+		level: LogLevelName,
+		message: string,
+		data?: LogData,
+	): number | undefined => {
+		const id = key(level, message, data);
+		let state = states.get(id);
+		if (!state) {
+			state = { seen: 0, windowStart: 0, inWindow: 0, dropped: 0 };
+			states.set(id, state);
+			if (states.size > MAX_SAMPLING_KEYS) {
+				states.delete(states.keys().next().value as string);
+			}
+		}
+
+		state.seen++;
+		if ((state.seen - 1) % every !== 0) {
+			state.dropped++;
+			return undefined;
+		}
+
+		if (perSecond !== undefined) {
+			const now = Date.now();
+			if (now - state.windowStart >= 1_000) {
+				state.windowStart = now;
+				state.inWindow = 0;
+			}
+			if (state.inWindow >= perSecond) {
+				state.dropped++;
+				return undefined;
+			}
+			state.inWindow++;
+		}
+
+		const dropped = state.dropped;
+		state.dropped = 0;
+		return dropped;
+	};
+};
+
+/**
+ * A level override for the loggers whose context matches a namespace pattern
+ * @interface
+ */
+export interface LevelRule {
+	/** Context name, where `*` matches any run of characters (e.g. "Google*") */
+	namespace: string;
+	/** Level applied to matching loggers */
+	level: LogLevel;
+}
+
+/**
+ * Parsed form of a `LOG_LEVEL` specification
+ * @interface
+ */
+export interface LevelSpec {
+	/** Level for loggers no rule matches */
+	defaultLevel?: LogLevel;
+	/** Namespace overrides; later rules win */
+	rules: LevelRule[];
+}
+
+/**
+ * Parse a level name ("warn", "TRACE") or number ("4")
+ *
+ * @param {string} value - The level to parse
+ * @returns {LogLevel | undefined} The level, or undefined if it is not one
+ */
+export const parseLogLevel = (value: string): LogLevel | undefined => {
+	const name = value.trim().toUpperCase();
+
+	if (/^\d+$/.test(name)) {
+		const level = Number(name);
+		return level >= LogLevel.NONE && level <= LogLevel.ALL ? level : undefined;
+	}
+
+	return name in LogLevel ? LogLevel[name as keyof typeof LogLevel] : undefined;
+};
+
+/**
+ * Parse a DEBUG-style level specification such as `info,GoogleDocsManager=trace,-ApiClient`.
+ *
+ * - `info` sets the level of every logger without a more specific rule
+ * - `Name=level` sets the level of the logger with that context (`*` wildcards allowed)
+ * - `-Name` silences it, and a bare `Name` enables all of its levels
+ *
+ * Unknown levels are reported with `console.warn` and skipped.
+ *
+ * @param {string} spec - The specification, usually `process.env.LOG_LEVEL`
+ * @returns {LevelSpec} The default level and namespace rules
+ */
+export const parseLevelSpec = (spec: string): LevelSpec => {
+	const result: LevelSpec = { rules: [] };
+
+	for (const entry of spec.split(",").map((part) => part.trim())) {
+		if (!entry) continue;
+
+		if (entry.startsWith("-")) {
+			result.rules.push({ namespace: entry.slice(1), level: LogLevel.NONE });
+			continue;
+		}
+
+		const [namespace, value] = entry.includes("=")
+			? entry.split("=", 2)
+			: [undefined, entry];
+		const level = parseLogLevel(value);
+
+		if (namespace === undefined && level !== undefined) {
+			result.defaultLevel = level;
+		} else if (namespace === undefined) {
+			result.rules.push({ namespace: entry, level: LogLevel.ALL });
+		} else if (level !== undefined) {
+			result.rules.push({ namespace: namespace.trim(), level });
+		} else {
+			console.warn(`[Logger] Ignoring unknown level in "${entry}"`);
+		}
+	}
+
+	return result;
+};
+
+/**
+ * Whether a logger context matches a namespace pattern
+ *
+ * @param {string} namespace - Pattern where `*` matches any run of characters
+ * @param {string} context - The logger context
+ * @returns {boolean} Whether the context matches
+ */
+const matchNamespace = (namespace: string, context: string): boolean =>
+	namespace.includes("*")
+		? new RegExp(
+				`^${namespace
+					.split("*")
+					.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+					.join(".*")}$`,
+			).test(context)
+		: namespace === context;
+
+/**
+ * Options for `ConsoleTransport`
+ * @interface
+ */
+export interface ConsoleTransportOptions extends TextFormatterOptions {
+	/**
+	 * The minimum level of records to print
+	 */
+	minLevel?: LogLevel;
+
+	/**
+	 * Formatter for printed lines (default: `textFormatter` with the color/timestamp options)
+	 */
+	formatter?: LogFormatter;
+}
+
+/**
+ * Transport printing records to the console, using `console.error`, `console.warn`
+ * and `console.debug` for the matching levels so browser devtools can filter them.
+ */
+export class ConsoleTransport implements LogTransport {
+	readonly minLevel?: LogLevel;
+	private readonly formatter: LogFormatter;
+
+	constructor(options: ConsoleTransportOptions = {}) {
+		this.minLevel = options.minLevel;
+		this.formatter = options.formatter ?? textFormatter(options);
+	}
+
+	write(record: LogRecord): void {
+		const line = this.formatter(record);
+
+		switch (record.level) {
+			case "error":
+				console.error(line);
+				break;
+			case "warn":
+				console.warn(line);
+				break;
+			case "debug":
+			case "trace":
+				console.debug(line);
+				break;
+			default:
+				console.log(line);
+		}
+	}
 }
 
 /**
@@ -122,8 +813,23 @@ export class Logger {
 	/** Whether this logger is running in a server environment */
 	private isServerContext: boolean;
 
-	/** The minimum log level that will be output */
-	private minLevel: LogLevel;
+	/** The minimum log level that will be output (children without one follow their parent) */
+	private minLevel?: LogLevel;
+
+	/** The logger this one was derived from with `child` */
+	private parent?: Logger;
+
+	/** Fields added to every record logged by this logger */
+	private bindings: LogData = {};
+
+	/** Scrubs secrets from messages and data before they reach the transports */
+	private redact?: <T>(value: T) => T;
+
+	/** Thins out repetitive records; shared with child loggers */
+	private sample?: ReturnType<typeof createSampler>;
+
+	/** Number of spans this logger was handed out by, used to indent its records */
+	private depth = 0;
 
 	/** Whether to include ISO timestamps in log messages */
 	private includeTimestamp: boolean;
@@ -131,33 +837,22 @@ export class Logger {
 	/** Whether to apply ANSI color codes to the output */
 	private shouldColorize: boolean;
 
+	/** Destinations every log record is written to */
+	private transports: LogTransport[];
+
 	/** Registry of logger instances to implement the singleton pattern */
 	private static instances: Map<string, Logger> = new Map();
 
-	/** ANSI color codes for terminal output */
-	private colors: Record<ColorKey, string> = {
-		reset: "\x1b[0m",
-		red: "\x1b[31m",
-		green: "\x1b[32m",
-		yellow: "\x1b[33m",
-		blue: "\x1b[34m",
-		magenta: "\x1b[35m",
-		cyan: "\x1b[36m",
-		white: "\x1b[37m",
-		gray: "\x1b[90m",
-		bold: "\x1b[1m",
-	};
+	/** Source of ambient context fields shared by all loggers */
+	private static contextProvider?: LogContextProvider;
 
-	/** Mapping of log levels to their display colors */
-	private levelColors: Record<string, ColorKey> = {
-		error: "red",
-		warn: "yellow",
-		info: "blue",
-		debug: "gray",
-		trace: "cyan",
-		action: "magenta",
-		success: "green",
-	};
+	/** Level overrides from LOG_LEVEL and runtime changes, which win over `minLevel` options */
+	private static levelSpec: LevelSpec = parseLevelSpec(
+		process.env.LOG_LEVEL ?? "",
+	);
+
+	/** The level this logger was configured with in code, restored when overrides are removed */
+	private baseLevel: LogLevel;
 
 	/**
 	 * Create a new Logger instance or return an existing one for the given context
@@ -167,11 +862,29 @@ export class Logger {
 	constructor(context: string, options: LoggerOptions = {}) {
 		this.context = context;
 		this.isServerContext = isServer;
-		this.minLevel =
+		this.baseLevel =
 			options.minLevel ??
 			(process.env.NODE_ENV === "production" ? LogLevel.ERROR : LogLevel.ALL);
+		this.minLevel = Logger.resolveLevel(context) ?? this.baseLevel;
 		this.includeTimestamp = options.includeTimestamp ?? true;
 		this.shouldColorize = options.colorize ?? this.isServerContext;
+		const format =
+			options.format ?? (process.env.LOG_FORMAT === "json" ? "json" : "text");
+		this.transports = options.transports ?? [
+			new ConsoleTransport({
+				colorize: this.shouldColorize,
+				includeTimestamp: this.includeTimestamp,
+				...(format === "json" && { formatter: jsonFormatter() }),
+			}),
+		];
+		if (options.redact) {
+			this.redact = createRedactor(
+				options.redact === true ? {} : options.redact,
+			);
+		}
+		if (options.sampling) {
+			this.sample = createSampler(options.sampling);
+		}
 	}
 
 	/**
@@ -189,6 +902,108 @@ export class Logger {
 		return Logger.instances.get(context)!;
 	}
 
+	/**
+	 * Create a child logger that adds the given fields to every record it logs.
+	 * The child shares this logger's context and transports, follows its level unless given
+	 * its own `minLevel`, and is not added to the `getLogger` registry.
+	 *
+	 * @param {LogData} bindings - Fields to bind, e.g. `{ requestId }`
+	 * @param {Pick<LoggerOptions, "minLevel" | "sampling">} [options={}] - Optional level and
+	 *   sampling overrides for the child (sampling is otherwise shared with this logger)
+	 * @returns {Logger} The child logger
+	 *
+	 * @example
+	 * const requestLogger = Logger.getLogger("Api").child({ requestId });
+	 * requestLogger.info("Request served", { status: 200 }); // includes requestId
+	 */
+	child(
+		bindings: LogData,
+		options: Pick<LoggerOptions, "minLevel" | "sampling"> = {},
+	): Logger {
+		const child = new Logger(this.context, {
+			includeTimestamp: this.includeTimestamp,
+			colorize: this.shouldColorize,
+			transports: this.transports,
+		});
+		child.minLevel = options.minLevel;
+		child.parent = this;
+		child.bindings = { ...this.bindings, ...bindings };
+		child.redact = this.redact;
+		child.sample = options.sampling
+			? createSampler(options.sampling)
+			: this.sample;
+		child.depth = this.depth;
+		return child;
+	}
+
+	/**
+	 * Create a child logger that samples its records, for logging inside hot loops.
+	 * Create it once outside the loop: sampling state lives in the returned logger.
+	 *
+	 * @param {SamplingOptions} sampling - Sampling configuration
+	 * @returns {Logger} The sampled child logger
+	 *
+	 * @example
+	 * const frameLogger = logger.sampled({ every: 100 });
+	 * for (const frame of frames) {
+	 *   frameLogger.debug("Captured frame", { index: frame.index }); // 1 in 100 is logged
+	 * }
+	 */
+	sampled(sampling: SamplingOptions): Logger {
+		return this.child({}, { sampling });
+	}
+
+	/**
+	 * The effective minimum level, inherited from the parent for children without their own
+	 *
+	 * @returns {LogLevel} The minimum level that will be output
+	 * @private
+	 */
+	private get level(): LogLevel {
+		return this.minLevel ?? this.parent?.level ?? LogLevel.ALL;
+	}
+
+	/**
+	 * Flush the buffered records of every registered logger's transports
+	 *
+	 * @returns {Promise<void>} Resolves once all transports have flushed
+	 */
+	public static async flushAll(): Promise<void> {
+		const transports = new Set(
+			[...Logger.instances.values()].flatMap((logger) => logger.transports),
+		);
+		await Promise.all([...transports].map((transport) => transport.flush?.()));
+	}
+
+	/**
+	 * Flush and close the transports of every registered logger, e.g. before the process exits
+	 *
+	 * @returns {Promise<void>} Resolves once all transports are closed
+	 */
+	public static async closeAll(): Promise<void> {
+		const transports = new Set(
+			[...Logger.instances.values()].flatMap((logger) => logger.transports),
+		);
+		await Promise.all(
+			[...transports].map((transport) =>
+				transport.close ? transport.close() : transport.flush?.(),
+			),
+		);
+	}
+
+	/**
+	 * Set the source of ambient context fields added to every record of every logger.
+	 * Fields passed to a log call take precedence over bound fields, which take precedence
+	 * over ambient ones.
+	 *
+	 * @param {LogContextProvider | undefined} provider - The provider, or undefined to remove it
+	 */
+	public static setContextProvider(
+		provider: LogContextProvider | undefined,
+	): void {
+		Logger.contextProvider = provider;
+	}
+
 	/**
 	 * Set global minimum log level for all logger instances
 	 *
@@ -200,6 +1015,86 @@ export class Logger {
 		});
 	}
 
+	/**
+	 * Replace the namespace level rules at runtime, e.g. from a signal handler or an admin
+	 * endpoint. Applies to every registered logger and to loggers created later; loggers no
+	 * rule matches go back to the level they were configured with.
+	 *
+	 * @param {string | LevelSpec} spec - A LOG_LEVEL-style specification, or a parsed one
+	 *
+	 * @example
+	 * process.on("SIGUSR2", () => {
+	 *   Logger.configureLevels(fs.readFileSync("log-levels.txt", "utf8"));
+	 * });
+	 */
+	public static configureLevels(spec: string | LevelSpec): void {
+		Logger.levelSpec = typeof spec === "string" ? parseLevelSpec(spec) : spec;
+		Logger.applyLevels();
+	}
+
+	/**
+	 * Change the level of one namespace at runtime without touching the other rules
+	 *
+	 * @param {string} namespace - Logger context, `*` wildcards allowed
+	 * @param {LogLevel | string} level - The new level, as a LogLevel or a name like "debug"
+	 */
+	public static setLevel(namespace: string, level: LogLevel | string): void {
+		const parsed = typeof level === "string" ? parseLogLevel(level) : level;
+		if (parsed === undefined) {
+			throw new Error(`Unknown log level: ${level}`);
+		}
+
+		Logger.levelSpec = {
+			...Logger.levelSpec,
+			rules: [
+				...Logger.levelSpec.rules.filter(
+					(rule) => rule.namespace !== namespace,
+				),
+				{ namespace, level: parsed },
+			],
+		};
+		Logger.applyLevels();
+	}
+
+	/**
+	 * Get the effective level of every registered logger, e.g. for an admin endpoint
+	 *
+	 * @returns {Record<string, string>} Level names keyed by logger context
+	 */
+	public static getLevels(): Record<string, string> {
+		return Object.fromEntries(
+			[...Logger.instances].map(([context, logger]) => [
+				context,
+				LogLevel[logger.level].toLowerCase(),
+			]),
+		);
+	}
+
+	/**
+	 * Find the level the current rules assign to a context
+	 *
+	 * @param {string} context - The logger context
+	 * @returns {LogLevel | undefined} The level, or undefined if no rule or default applies
+	 * @private
+	 */
+	private static resolveLevel(context: string): LogLevel | undefined {
+		const rule = Logger.levelSpec.rules.findLast((rule) =>
+			matchNamespace(rule.namespace, context),
+		);
+		return rule?.level ?? Logger.levelSpec.defaultLevel;
+	}
+
+	/**
+	 * Re-evaluate the level of every registered logger against the current rules
+	 *
+	 * @private
+	 */
+	private static applyLevels(): void {
+		Logger.instances.forEach((logger, context) => {
+			logger.minLevel = Logger.resolveLevel(context) ?? logger.baseLevel;
+		});
+	}
+
 	/**
 	 * Determine if the current environment should log messages at the specified level
 	 *
@@ -209,7 +1104,7 @@ export class Logger {
 	 */
 	private shouldLog(level: LogLevel): boolean {
 		// Check if level meets minimum threshold
-		if (level > this.minLevel) return false;
+		if (level > this.level) return false;
 
 		// Always log server-side actions
 		if (this.isServerContext) return true;
@@ -222,19 +1117,57 @@ export class Logger {
 	}
 
 	/**
-	 * Format a log message with metadata
+	 * Build a log record and hand it to every transport that accepts its level
 	 *
-	 * @param {string} level - The log level
+	 * @param {LogLevelName} level - The logger method producing the record
+	 * @param {LogLevel} severity - The numeric level of the record
 	 * @param {string} message - The message to log
 	 * @param {LogData} [data] - Optional data to include
-	 * @returns {Object} Formatted message with prefix and data
 	 * @private
 	 */
-	private formatMessage(level: string, message: string, data?: LogData) {
-		const timestamp = this.includeTimestamp ? new Date().toISOString() : "";
-		const environment = this.isServerContext ? "[SERVER]" : "[CLIENT]";
-		const prefix = `${timestamp} ${environment} ${this.context}:`;
-		return { prefix, message, ...(data && { data }) };
+	private emit(
+		level: LogLevelName,
+		severity: LogLevel,
+		message: string,
+		data?: LogData,
+	): void {
+		if (!this.shouldLog(severity)) return;
+
+		if (this.sample && level !== "error") {
+			const dropped = this.sample(level, message, data);
+			if (dropped === undefined) return;
+			// Tell readers how many identical records were left out
+			if (dropped > 0) data = { ...data, sampledOut: dropped };
+		}
+
+		const ambient = Logger.contextProvider?.();
+		const fields =
+			ambient || Object.keys(this.bindings).length > 0
+				? { ...ambient, ...this.bindings, ...data }
+				: data;
+		const record: LogRecord = {
+			timestamp: new Date(),
+			level,
+			severity,
+			context: this.context,
+			message: this.redact ? this.redact(message) : message,
+			...(fields && { data: this.redact ? this.redact(fields) : fields }),
+			isServer: this.isServerContext,
+			...(this.depth > 0 && { depth: this.depth }),
+		};
+
+		for (const transport of this.transports) {
+			if (transport.minLevel !== undefined && severity > transport.minLevel) {
+				continue;
+			}
+
+			try {
+				transport.write(record);
+			} catch (error) {
+				// A broken sink must not take the caller down with it
+				console.error(`[Logger] Transport failed to write a record:`, error);
+			}
+		}
 	}
 
 	/**
@@ -248,63 +1181,7 @@ export class Logger {
 	private colorize(color: ColorKey, text: string): string {
 		// Only apply colors if enabled
 		if (!this.shouldColorize) return text;
-		return `${this.colors[color]}${text}${this.colors.reset}`;
-	}
-
-	/**
-	 * Format a log level indicator with brackets
-	 *
-	 * @param {string} level - The log level string
-	 * @returns {string} Formatted log level indicator
-	 * @private
-	 */
-	private formatLogLevel(level: string): string {
-		return `[${level.toUpperCase()}]`;
-	}
-
-	/**
-	 * Format the final log output combining all components
-	 *
-	 * @param {Object} params - The formatted log data
-	 * @param {string} params.prefix - The log prefix with context information
-	 * @param {string} params.message - The main log message
-	 * @param {LogData} [params.data] - Optional structured data to include
-	 * @returns {string} The complete formatted log message
-	 * @private
-	 */
-	private formatOutput({
-		prefix,
-		message,
-		data,
-	}: {
-		prefix: string;
-		message: string;
-		data?: LogData;
-	}): string {
-		const logParts = [prefix, message];
-
-		if (data) {
-			// Handle special cases like Error objects better
-			if (data.error instanceof Error) {
-				logParts.push("\nError Details:");
-				logParts.push(`  Name: ${data.error.name}`);
-				logParts.push(`  Message: ${data.error.message}`);
-				if (data.error.stack) {
-					logParts.push(`  Stack: ${data.error.stack}`);
-				}
-
-				// Remove error from data to avoid duplication
-				const { error, ...restData } = data;
-				if (Object.keys(restData).length > 0) {
-					logParts.push("\nAdditional Data:");
-					logParts.push(JSON.stringify(restData, null, 2));
-				}
-			} else {
-				logParts.push("\n" + JSON.stringify(data, null, 2));
-			}
-		}
-
-		return logParts.join(" ");
+		return paint(color, text);
 	}
 
 	/**
@@ -314,13 +1191,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	info(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.INFO)) return;
-		const formattedData = this.formatMessage("info", message, data);
-		console.log(
-			this.colorize(this.levelColors.info, this.formatLogLevel("info")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("info", LogLevel.INFO, message, data);
 	}
 
 	/**
@@ -332,24 +1203,12 @@ export class Logger {
 	 */
 	error(message: string, error?: Error | unknown, data?: LogData): void {
 		if (!this.shouldLog(LogLevel.ERROR)) return;
-		const errorData =
-			error instanceof Error
-				? { name: error.name, message: error.message, stack: error.stack }
-				: error;
+		const errorData = serializeError(error);
 
-		const formattedData = this.formatMessage("error", message, {
+		this.emit("error", LogLevel.ERROR, message, {
 			...data,
 			error: errorData,
 		});
-
-		console.error(
-			this.colorize(
-				"bold",
-				this.colorize(this.levelColors.error, this.formatLogLevel("error")),
-			) +
-				" " +
-				this.formatOutput(formattedData),
-		);
 	}
 
 	/**
@@ -359,13 +1218,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	warn(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.WARN)) return;
-		const formattedData = this.formatMessage("warn", message, data);
-		console.warn(
-			this.colorize(this.levelColors.warn, this.formatLogLevel("warn")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("warn", LogLevel.WARN, message, data);
 	}
 
 	/**
@@ -375,13 +1228,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	debug(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.DEBUG)) return;
-		const formattedData = this.formatMessage("debug", message, data);
-		console.debug(
-			this.colorize(this.levelColors.debug, this.formatLogLevel("debug")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("debug", LogLevel.DEBUG, message, data);
 	}
 
 	/**
@@ -391,13 +1238,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	trace(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.TRACE)) return;
-		const formattedData = this.formatMessage("trace", message, data);
-		console.debug(
-			this.colorize(this.levelColors.trace, this.formatLogLevel("trace")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("trace", LogLevel.TRACE, message, data);
 	}
 
 	/**
@@ -407,13 +1248,7 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	action(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.INFO)) return;
-		const formattedData = this.formatMessage("action", message, data);
-		console.log(
-			this.colorize(this.levelColors.action, this.formatLogLevel("action")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("action", LogLevel.INFO, message, data);
 	}
 
 	/**
@@ -423,13 +1258,16 @@ export class Logger {
 	 * @param {LogData} [data] - Optional data to include
 	 */
 	success(message: string, data?: LogData): void {
-		if (!this.shouldLog(LogLevel.INFO)) return;
-		const formattedData = this.formatMessage("success", message, data);
-		console.log(
-			this.colorize(this.levelColors.success, this.formatLogLevel("success")) +
-				" " +
-				this.formatOutput(formattedData),
-		);
+		this.emit("success", LogLevel.INFO, message, data);
+	}
+
+	/**
+	 * Flush buffered records of this logger's transports
+	 *
+	 * @returns {Promise<void>} Resolves once all transports have flushed
+	 */
+	async flush(): Promise<void> {
+		await Promise.all(this.transports.map((transport) => transport.flush?.()));
 	}
 
 	/**
@@ -450,6 +1288,20 @@ export class Logger {
 		console.groupEnd();
 	}
 
+	/**
+	 * Start a timer for work that does not fit in a callback. `end()` logs the duration,
+	 * `fail(error)` logs the failure; both return the elapsed milliseconds.
+	 *
+	 * @param {string} label - Description of the operation being timed
+	 * @returns {LogTimer} The running timer
+	 *
+	 * @example
+	 * const timer = logger.time("Upload");
+	 * stream.on("finish", () => timer.end({ bytes }));
+	 * stream.on("error", (error) => timer.fail(error));
+	 */
+	time(label: string): LogTimer;
+
 	/**
 	 * Log execution time of a function
 	 *
@@ -458,23 +1310,109 @@ export class Logger {
 	 * @param {() => Promise<T> | T} fn - Function to execute and time
 	 * @returns {Promise<T>} The result of the function execution
 	 */
-	async time<T>(label: string, fn: () => Promise<T> | T): Promise<T> {
-		if (!this.shouldLog(LogLevel.DEBUG)) return fn();
+	time<T>(label: string, fn: () => Promise<T> | T): Promise<T>;
 
-		const startTime = performance.now();
+	time<T>(label: string, fn?: () => Promise<T> | T): LogTimer | Promise<T> {
+		if (!fn) return this.startTimer(label);
+
+		return (async () => {
+			if (!this.shouldLog(LogLevel.DEBUG)) return fn();
+
+			const timer = this.startTimer(label);
+			try {
+				const result = await fn();
+				timer.end();
+				return result;
+			} catch (error) {
+				timer.fail(error);
+				throw error;
+			}
+		})();
+	}
+
+	/**
+	 * Run sync or async work as a named span, then log its duration and outcome.
+	 * The work receives a logger whose records are indented under the span's label, so
+	 * nested spans read as a tree and concurrent spans keep their own indentation.
+	 * Sync functions stay sync; promises are awaited before the span ends.
+	 *
+	 * @template T - The return type of the function
+	 * @param {string} name - Name of the span
+	 * @param {(logger: Logger) => T} fn - The work to run, given the span's logger
+	 * @returns {T} The function's result
+	 *
+	 * @example
+	 * await logger.span("Sync repository", async (log) => {
+	 *   log.span("Read config", () => loadConfig());
+	 *   await log.span("Push", () => push());
+	 * });
+	 * // [INFO] ... Sync repository
+	 * //   [INFO] ... Read config
+	 * //   [INFO] ... Read config completed in 0.41ms
+	 * //   [INFO] ... Push
+	 * //   [INFO] ... Push completed in 812.07ms
+	 * // [INFO] ... Sync repository completed in 813.52ms
+	 */
+	span<T>(name: string, fn: (logger: Logger) => T): T {
+		const scoped = this.child({});
+		scoped.depth = this.depth + 1;
+		if (!this.shouldLog(LogLevel.DEBUG)) return fn(scoped);
+
+		const timer = this.startTimer(name);
+		this.info(name);
+
+		let result: T;
 		try {
-			const result = await fn();
-			const endTime = performance.now();
-			this.info(`${label} completed in ${(endTime - startTime).toFixed(2)}ms`);
-			return result;
+			result = fn(scoped);
 		} catch (error) {
-			const endTime = performance.now();
-			this.error(
-				`${label} failed after ${(endTime - startTime).toFixed(2)}ms`,
-				error,
-			);
+			timer.fail(error);
 			throw error;
 		}
+
+		if (result instanceof Promise) {
+			return result.then(
+				(value) => {
+					timer.end();
+					return value;
+				},
+				(error) => {
+					timer.fail(error);
+					throw error;
+				},
+			) as T;
+		}
+
+		timer.end();
+		return result;
+	}
+
+	/**
+	 * Create a timer logging `<label> completed in <ms>ms` or `<label> failed after <ms>ms`
+	 *
+	 * @param {string} label - Description of the operation being timed
+	 * @returns {LogTimer} The running timer
+	 * @private
+	 */
+	private startTimer(label: string): LogTimer {
+		const startTime = performance.now();
+		const elapsed = () => performance.now() - startTime;
+
+		return {
+			end: (data) => {
+				const duration = elapsed();
+				this.info(`${label} completed in ${duration.toFixed(2)}ms`, data);
+				return duration;
+			},
+			fail: (error, data) => {
+				const duration = elapsed();
+				this.error(
+					`${label} failed after ${duration.toFixed(2)}ms`,
+					error,
+					data,
+				);
+				return duration;
+			},
+		};
 	}
 }
 
@@ -495,9 +1433,40 @@ const detailedLogger = new Logger("AuthService", {
 const logger1 = Logger.getLogger("ApiClient");
 const logger2 = Logger.getLogger("ApiClient"); // Returns the same instance
 
+// Child loggers bind fields to every line
+const requestLogger = logger1.child({ requestId: "req-42" });
+requestLogger.info("Fetched user"); // ... ApiClient: Fetched user { "requestId": "req-42" }
+
+// Scrub tokens and credentials before they reach any transport
+const safeLogger = new Logger("GitHub", { redact: true });
+safeLogger.info(`Using token ${process.env.GITHUB_TOKEN}`, {
+  headers: { authorization: `Bearer ${process.env.GITHUB_TOKEN}` },
+}); // token and header value print as [REDACTED]
+
+// JSON lines for log aggregation (or set LOG_FORMAT=json)
+const jsonLogger = new Logger("Jobs", { format: "json" });
+jsonLogger.error("Job failed", new Error("timeout"), { jobId: 7 });
+// {"ts":"...","level":"error","context":"Jobs","msg":"Job failed","err":{"name":"Error","message":"timeout","stack":"..."},"jobId":7}
+
 // Set global log level
 Logger.setGlobalLogLevel(LogLevel.WARN); // Only show warnings and errors
 
+// Per-namespace levels from the environment, applied to every logger:
+//   LOG_LEVEL=info,GoogleDocsManager=trace,-ApiClient bun markdown-to-google-docs.ts
+// ...or changed at runtime
+Logger.setLevel("GoogleDocsManager", "debug");
+Logger.configureLevels("warn,Api*=info");
+
+// Fan out to several sinks (see logger-transports.ts)
+const serviceLogger = new Logger("Worker", {
+  transports: [
+    new ConsoleTransport({ minLevel: LogLevel.INFO, colorize: true }),
+    new RotatingFileTransport({ path: "logs/worker.log", maxSize: 5_000_000, interval: "daily" }),
+    new HttpTransport({ url: "https://logs.example.com/ingest", minLevel: LogLevel.WARN }),
+  ],
+});
+await Logger.closeAll(); // flush buffered transports before exiting
+
 // Time operations
 async function fetchData() {
   return await logger.time("API Request", async () => {
@@ -505,4 +1474,13 @@ async function fetchData() {
     return response.json();
   });
 }
+
+// Nested spans and manual timers
+await logger.span("Import", async () => {
+  const parseTimer = logger.time("Parse");
+  parseTimer.end({ rows: 120 });
+});
+
+// Keep hot loops from flooding the output
+const pollLogger = logger.sampled({ perSecond: 5 });
 */
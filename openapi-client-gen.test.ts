@@ -0,0 +1,157 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+	generateClient,
+	loadDocument,
+	type OpenApiDocument,
+} from "./openapi-client-gen.js";
+
+const petsDocument: OpenApiDocument = {
+	openapi: "3.0.3",
+	info: { title: "Pets", version: "1.0.0" },
+	servers: [{ url: "https://pets.example.com" }],
+	paths: {
+		"/pets/{petId}/owners/{ownerId}": {
+			get: {
+				// Only one of the two path templates is declared
+				parameters: [
+					{ name: "ownerId", in: "path", schema: { type: "integer" } },
+					{ name: "verbose", in: "query", schema: { type: "boolean" } },
+				],
+				responses: {
+					"200": {
+						description: "The owner",
+						content: {
+							"application/json": {
+								schema: { $ref: "#/components/schemas/Owner" },
+							},
+						},
+					},
+				},
+			},
+		},
+		"/pets/{petId}": {
+			delete: { responses: { "204": { description: "Deleted" } } },
+		},
+	},
+	components: {
+		schemas: {
+			Owner: {
+				type: "object",
+				required: ["name"],
+				properties: {
+					name: { type: "string" },
+					extra: { oneOf: [{ type: "string" }, { type: "number" }] },
+				},
+				additionalProperties: { type: "string" },
+			},
+			Tags: {
+				type: "object",
+				additionalProperties: { type: "string" },
+			},
+		},
+	},
+};
+
+describe("generateClient", () => {
+	let dir: string;
+
+	beforeAll(async () => {
+		// Inside the repository, so the generated modules resolve its node_modules
+		dir = await mkdtemp(join(import.meta.dir, ".openapi-client-gen-"));
+	});
+
+	afterAll(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	const write = async (file: string, document: OpenApiDocument) => {
+		const path = join(dir, file);
+		await writeFile(
+			path,
+			generateClient(document, { fetcherImport: "../effect-fetch.js" }),
+		);
+		return path;
+	};
+
+	test("checks declared properties against their own schemas", async () => {
+		const { Owner, Tags } = await import(await write("pets.ts", petsDocument));
+
+		expect(Owner({ name: "Ada", extra: 5 })).toEqual({ name: "Ada", extra: 5 });
+		expect(Owner({ name: "Ada", extra: "five" })).toEqual({
+			name: "Ada",
+			extra: "five",
+		});
+		expect(Tags({ color: "red" })).toEqual({ color: "red" });
+		expect(Tags({ color: 5 }).summary).toContain("color must be a string");
+	});
+
+	test("declares path templates the operation leaves out", () => {
+		const source = generateClient(petsDocument);
+
+		expect(source).toContain(
+			`type({ "ownerId": "number.integer", "verbose?": "boolean", "petId": "string" })`,
+		);
+		expect(source).toMatch(
+			/deletePetsByPetId: \(params: DeletePetsByPetIdParams, options/,
+		);
+	});
+
+	test("throws on documents that are not OpenAPI 3", () => {
+		expect(() => generateClient({ openapi: "2.0" } as OpenApiDocument)).toThrow(
+			"Unsupported document version 2.0",
+		);
+	});
+
+	test("generates clients that type-check", async () => {
+		const elysia = await loadDocument(
+			join(import.meta.dir, "fixtures/elysia-starter-advanced.openapi.json"),
+		);
+		const files = [
+			await write("pets-client.ts", petsDocument),
+			await write("elysia-client.ts", elysia),
+		];
+		const tsconfig = join(dir, "tsconfig.json");
+		await writeFile(
+			tsconfig,
+			JSON.stringify({ extends: "../tsconfig.json", files }),
+		);
+
+		const tsc = Bun.spawnSync([
+			process.execPath,
+			Bun.resolveSync("typescript/lib/tsc.js", import.meta.dir),
+			"--noEmit",
+			"-p",
+			tsconfig,
+		]);
+
+		expect(tsc.stdout.toString()).toBe("");
+		expect(tsc.exitCode).toBe(0);
+
+		const client = (await import(files[1])).createClient();
+		expect(Object.keys(client)).toContain("postApiV1AuthRegister");
+	}, 120_000);
+});
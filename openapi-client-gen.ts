@@ -0,0 +1,846 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+/**
+ * OpenAPI Client Generator
+ *
+ * Reads an OpenAPI 3.x document and emits a typed client module built on `fetcher()`
+ * from effect-fetch, with ArkType schemas for component schemas, operation parameters,
+ * request bodies and responses.
+ *
+ * @module openapi-client-gen
+ *
+ * @usage
+ *   bun openapi-client-gen.ts <spec> [options]
+ *
+ * @options
+ *   -o, --out <file>              Write the client to a file (default: stdout)
+ *   --fetcher-import <specifier>  Import path of effect-fetch (default: ./effect-fetch.js)
+ *   --base-url <url>              Default base URL (default: first entry of `servers`)
+ *
+ * @examples
+ *   bun openapi-client-gen.ts openapi.json -o api-client.ts
+ *   bun openapi-client-gen.ts openapi.yaml -o api-client.ts
+ *   # Typed client for elysia-starter-advanced.ts while it is running
+ *   bun openapi-client-gen.ts http://localhost:3000/swagger/json -o elysia-client.ts
+ */
+
+import { writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { Command } from "commander";
+
+// ============================================================================
+// OpenAPI document model (the subset the generator understands)
+// ============================================================================
+
+interface ReferenceObject {
+	$ref: string;
+}
+
+interface SchemaObject {
+	type?: string | string[];
+	format?: string;
+	enum?: unknown[];
+	const?: unknown;
+	nullable?: boolean;
+	items?: SchemaObject | ReferenceObject;
+	properties?: Record<string, SchemaObject | ReferenceObject>;
+	required?: string[];
+	additionalProperties?: boolean | SchemaObject | ReferenceObject;
+	oneOf?: Array<SchemaObject | ReferenceObject>;
+	anyOf?: Array<SchemaObject | ReferenceObject>;
+	allOf?: Array<SchemaObject | ReferenceObject>;
+	description?: string;
+}
+
+interface ParameterObject {
+	name: string;
+	in: "path" | "query" | "header" | "cookie";
+	required?: boolean;
+	schema?: SchemaObject | ReferenceObject;
+	description?: string;
+}
+
+interface MediaTypeObject {
+	schema?: SchemaObject | ReferenceObject;
+}
+
+interface RequestBodyObject {
+	required?: boolean;
+	content?: Record<string, MediaTypeObject>;
+}
+
+interface ResponseObject {
+	description?: string;
+	content?: Record<string, MediaTypeObject>;
+}
+
+interface OperationObject {
+	operationId?: string;
+	summary?: string;
+	description?: string;
+	deprecated?: boolean;
+	parameters?: Array<ParameterObject | ReferenceObject>;
+	requestBody?: RequestBodyObject | ReferenceObject;
+	responses?: Record<string, ResponseObject | ReferenceObject>;
+}
+
+type PathItemObject = {
+	parameters?: Array<ParameterObject | ReferenceObject>;
+} & Partial<Record<HttpVerb, OperationObject>>;
+
+export interface OpenApiDocument {
+	openapi: string;
+	info?: { title?: string; version?: string };
+	servers?: Array<{ url: string }>;
+	paths?: Record<string, PathItemObject>;
+	components?: {
+		schemas?: Record<string, SchemaObject | ReferenceObject>;
+		parameters?: Record<string, ParameterObject | ReferenceObject>;
+		requestBodies?: Record<string, RequestBodyObject | ReferenceObject>;
+		responses?: Record<string, ResponseObject | ReferenceObject>;
+	};
+}
+
+const HTTP_VERBS = [
+	"get",
+	"post",
+	"put",
+	"patch",
+	"delete",
+	"options",
+	"head",
+] as const;
+
+type HttpVerb = (typeof HTTP_VERBS)[number];
+
+/**
+ * Options for `generateClient`.
+ */
+export interface GenerateOptions {
+	/** Module specifier used to import effect-fetch (default: "./effect-fetch.js") */
+	fetcherImport?: string;
+	/** Default base URL baked into `createClient` (default: first `servers` entry) */
+	baseUrl?: string;
+}
+
+// ============================================================================
+// Naming helpers
+// ============================================================================
+
+const RESERVED = new Set([
+	"break",
+	"case",
+	"catch",
+	"class",
+	"const",
+	"continue",
+	"debugger",
+	"default",
+	"delete",
+	"do",
+	"else",
+	"export",
+	"extends",
+	"false",
+	"finally",
+	"for",
+	"function",
+	"if",
+	"import",
+	"in",
+	"instanceof",
+	"new",
+	"null",
+	"return",
+	"super",
+	"switch",
+	"this",
+	"throw",
+	"true",
+	"try",
+	"typeof",
+	"var",
+	"void",
+	"while",
+	"with",
+	"type",
+]);
+
+/**
+ * Top-level names the generated module imports or declares itself, so schemas never shadow them.
+ */
+const GENERATED_NAMES = [
+	"HttpClient",
+	"type",
+	"Effect",
+	"FetcherError",
+	"FetcherOptions",
+	"fetcher",
+	"QueryParams",
+	"ValidationError",
+	"ClientOptions",
+	"createClient",
+];
+
+const words = (value: string): string[] =>
+	value
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean);
+
+const pascalCase = (value: string): string => {
+	const name = words(value)
+		.map((word) => word[0].toUpperCase() + word.slice(1))
+		.join("");
+	return /^[0-9]/.test(name) ? `_${name}` : name || "Unnamed";
+};
+
+const camelCase = (value: string): string => {
+	const name = pascalCase(value);
+	const camel = name[0].toLowerCase() + name.slice(1);
+	return RESERVED.has(camel) ? `${camel}_` : camel;
+};
+
+const isIdentifier = (value: string): boolean =>
+	/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(value);
+
+const propertyKey = (value: string): string =>
+	isIdentifier(value) ? value : JSON.stringify(value);
+
+/**
+ * Falls back to `<verb><Path>` when an operation has no operationId,
+ * e.g. `POST /auth/register` becomes `postAuthRegister` and `GET /` becomes `getRoot`.
+ */
+const operationName = (
+	verb: HttpVerb,
+	path: string,
+	operation: OperationObject,
+): string => {
+	if (operation.operationId) return camelCase(operation.operationId);
+
+	const segments = path
+		.split("/")
+		.filter(Boolean)
+		.map((segment) =>
+			segment.startsWith("{") ? `By ${segment.slice(1, -1)}` : segment,
+		);
+
+	return camelCase(`${verb} ${segments.join(" ") || "root"}`);
+};
+
+const docComment = (lines: Array<string | undefined>, indent: string) => {
+	const content = lines
+		.filter((line): line is string => !!line)
+		.flatMap((line) => line.trim().split("\n"))
+		.map((line) => line.replace(/\*\//g, "*\\/").trimEnd());
+
+	if (content.length === 0) return "";
+	return `${indent}/**\n${content.map((line) => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+};
+
+// ============================================================================
+// Schema conversion
+// ============================================================================
+
+/**
+ * An ArkType definition in generated code: either the body of a string definition
+ * (`string.email`, `number | null`) or a TypeScript expression evaluating to a Type.
+ */
+type Definition =
+	| { kind: "string"; code: string }
+	| { kind: "expr"; code: string };
+
+const str = (code: string): Definition => ({ kind: "string", code });
+const expr = (code: string): Definition => ({ kind: "expr", code });
+
+const asExpression = (definition: Definition): string =>
+	definition.kind === "string"
+		? `type(${JSON.stringify(definition.code)})`
+		: definition.code;
+
+const asPropertyValue = (definition: Definition): string =>
+	definition.kind === "string"
+		? JSON.stringify(definition.code)
+		: definition.code;
+
+const union = (definitions: Definition[]): Definition => {
+	if (definitions.length === 1) return definitions[0];
+	if (definitions.every((definition) => definition.kind === "string")) {
+		return str(definitions.map((definition) => definition.code).join(" | "));
+	}
+	const [first, ...rest] = definitions.map(asExpression);
+	return expr(rest.reduce((acc, next) => `${acc}.or(${next})`, first));
+};
+
+const STRING_FORMATS: Record<string, string> = {
+	email: "string.email",
+	uuid: "string.uuid",
+	uri: "string.url",
+	url: "string.url",
+	"date-time": "string.date.iso",
+	ipv4: "string.ip.v4",
+	ipv6: "string.ip.v6",
+};
+
+const isReference = (value: unknown): value is ReferenceObject =>
+	typeof value === "object" && value !== null && "$ref" in value;
+
+class SchemaConverter {
+	private readonly emitted = new Map<string, string>();
+	private readonly visiting = new Set<string>();
+	readonly declarations: string[] = [];
+
+	constructor(private readonly document: OpenApiDocument) {}
+
+	/**
+	 * Resolves a local `#/...` reference to the object it points at.
+	 */
+	resolve<T>(value: T | ReferenceObject): T {
+		if (!isReference(value)) return value;
+		if (!value.$ref.startsWith("#/")) {
+			throw new Error(`Only local references are supported: ${value.$ref}`);
+		}
+
+		const target = value.$ref
+			.slice(2)
+			.split("/")
+			.map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+			.reduce<unknown>(
+				(node, part) => (node as Record<string, unknown> | undefined)?.[part],
+				this.document,
+			);
+
+		if (target === undefined) throw new Error(`Unresolved $ref ${value.$ref}`);
+		return this.resolve(target as T | ReferenceObject);
+	}
+
+	/**
+	 * Emits a component schema as an exported const (dependencies first) and returns its name.
+	 * References back into a schema that is still being emitted become `unknown`, since
+	 * plain `type()` calls cannot express recursion.
+	 */
+	component(name: string): string | undefined {
+		const emitted = this.emitted.get(name);
+		if (emitted) return emitted;
+		if (this.visiting.has(name)) return undefined;
+
+		const schema = this.document.components?.schemas?.[name];
+		if (!schema) throw new Error(`Unknown component schema ${name}`);
+
+		this.visiting.add(name);
+		const identifier = this.uniqueName(pascalCase(name));
+		const definition = this.convert(schema);
+		this.visiting.delete(name);
+
+		this.emitted.set(name, identifier);
+		this.declare(
+			identifier,
+			definition,
+			isReference(schema) ? undefined : schema.description,
+		);
+		return identifier;
+	}
+
+	/**
+	 * Adds an exported schema const plus its inferred type alias.
+	 */
+	declare(identifier: string, definition: Definition, description?: string) {
+		this.declarations.push(
+			`${docComment([description], "")}export const ${identifier} = ${asExpression(definition)};\nexport type ${identifier} = typeof ${identifier}.infer;`,
+		);
+	}
+
+	private readonly names = new Set<string>();
+
+	uniqueName(base: string): string {
+		let name = base;
+		for (let i = 2; this.names.has(name); i++) name = `${base}${i}`;
+		this.names.add(name);
+		return name;
+	}
+
+	convert(schema: SchemaObject | ReferenceObject): Definition {
+		if (isReference(schema)) {
+			const prefix = "#/components/schemas/";
+			if (schema.$ref.startsWith(prefix)) {
+				const name = this.component(
+					schema.$ref.slice(prefix.length).replace(/~1/g, "/"),
+				);
+				return name ? expr(name) : str("unknown");
+			}
+			return this.convert(this.resolve(schema));
+		}
+
+		const definition = this.convertBase(schema);
+		return schema.nullable ? union([definition, str("null")]) : definition;
+	}
+
+	private convertBase(schema: SchemaObject): Definition {
+		if (schema.const !== undefined) {
+			return expr(`type.unit(${JSON.stringify(schema.const)})`);
+		}
+		if (schema.enum) {
+			return expr(
+				`type.enumerated(${schema.enum.map((value) => JSON.stringify(value)).join(", ")})`,
+			);
+		}
+		if (schema.allOf) {
+			const [first, ...rest] = schema.allOf.map((part) =>
+				asExpression(this.convert(part)),
+			);
+			return expr(rest.reduce((acc, next) => `${acc}.and(${next})`, first));
+		}
+		if (schema.oneOf || schema.anyOf) {
+			return union(
+				(schema.oneOf ?? schema.anyOf ?? []).map((part) => this.convert(part)),
+			);
+		}
+
+		// OpenAPI 3.1 allows `type: ["string", "null"]`
+		if (Array.isArray(schema.type)) {
+			return union(
+				schema.type.map((type) => this.convertBase({ ...schema, type })),
+			);
+		}
+
+		switch (schema.type) {
+			case "string":
+				return str(
+					(schema.format && STRING_FORMATS[schema.format]) ?? "string",
+				);
+			case "integer":
+				return str("number.integer");
+			case "number":
+				return str("number");
+			case "boolean":
+				return str("boolean");
+			case "null":
+				return str("null");
+			case "array": {
+				const items = schema.items
+					? this.convert(schema.items)
+					: str("unknown");
+				return items.kind === "string"
+					? str(
+							/[|& ]/.test(items.code)
+								? `(${items.code})[]`
+								: `${items.code}[]`,
+						)
+					: expr(`${items.code}.array()`);
+			}
+			case "object":
+			case undefined:
+				if (
+					schema.type === undefined &&
+					!schema.properties &&
+					!schema.additionalProperties
+				) {
+					return str("unknown");
+				}
+				return this.convertObject(schema);
+			default:
+				return str("unknown");
+		}
+	}
+
+	private convertObject(schema: SchemaObject): Definition {
+		const required = new Set(schema.required ?? []);
+		const entries = Object.entries(schema.properties ?? {}).map(
+			([name, property]) => {
+				const key = required.has(name) ? name : `${name}?`;
+				return `${JSON.stringify(key)}: ${asPropertyValue(this.convert(property))}`;
+			},
+		);
+
+		// ArkType checks an index signature against the declared keys as well, which would
+		// reject valid property values, so it is only emitted for pure dictionaries
+		if (schema.additionalProperties && entries.length === 0) {
+			const value =
+				schema.additionalProperties === true
+					? str("unknown")
+					: this.convert(schema.additionalProperties);
+			entries.push(`"[string]": ${asPropertyValue(value)}`);
+		}
+
+		if (entries.length === 0) return str("Record<string, unknown>");
+		return expr(`type({ ${entries.join(", ")} })`);
+	}
+}
+
+// ============================================================================
+// Operation generation
+// ============================================================================
+
+const JSON_MEDIA_TYPE = /^application\/(.+\+)?json/i;
+
+interface GeneratedOperation {
+	name: string;
+	code: string;
+}
+
+const generateOperation = (
+	converter: SchemaConverter,
+	verb: HttpVerb,
+	path: string,
+	pathItem: PathItemObject,
+	operation: OperationObject,
+	name: string,
+): GeneratedOperation => {
+	const typeName = pascalCase(name);
+
+	// Operation-level parameters override path-level ones with the same name and location
+	const parameters = new Map<string, ParameterObject>();
+	for (const parameter of [
+		...(pathItem.parameters ?? []),
+		...(operation.parameters ?? []),
+	]) {
+		const resolved = converter.resolve(parameter);
+		if (resolved.in === "cookie") continue;
+		parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+	}
+
+	// Path templates are always required, so undeclared ones become string parameters
+	for (const [, name] of path.matchAll(/\{([^}]+)\}/g)) {
+		if (!parameters.has(`path:${name}`)) {
+			parameters.set(`path:${name}`, {
+				name,
+				in: "path",
+				required: true,
+				schema: { type: "string" },
+			});
+		}
+	}
+
+	const signature: string[] = [];
+	const statements: string[] = [];
+
+	let paramsSchema: string | undefined;
+	if (parameters.size > 0) {
+		paramsSchema = converter.uniqueName(`${typeName}Params`);
+		const entries = [...parameters.values()].map((parameter) => {
+			const required = parameter.in === "path" || parameter.required;
+			const key = required ? parameter.name : `${parameter.name}?`;
+			const value = parameter.schema
+				? converter.convert(parameter.schema)
+				: str("string");
+			return `${JSON.stringify(key)}: ${asPropertyValue(value)}`;
+		});
+		converter.declare(
+			paramsSchema,
+			expr(`type({ ${entries.join(", ")} })`),
+			`Parameters of ${verb.toUpperCase()} ${path}`,
+		);
+
+		const allOptional = [...parameters.values()].every(
+			(parameter) => parameter.in !== "path" && !parameter.required,
+		);
+		signature.push(`params: ${paramsSchema}${allOptional ? " = {}" : ""}`);
+		statements.push(
+			`const checkedParams = ${paramsSchema}(params);`,
+			`if (checkedParams instanceof type.errors) {`,
+			`\treturn Effect.fail(new ValidationError(\`Invalid parameters: \${checkedParams.summary}\`, url, checkedParams.summary, params));`,
+			`}`,
+		);
+	}
+
+	const url = path.replace(/\{([^}]+)\}/g, (_, parameter: string) => {
+		return `\${encodeURIComponent(String(params[${JSON.stringify(parameter)}]))}`;
+	});
+	statements.unshift(`const url = \`\${baseUrl}${url}\`;`);
+
+	const query = [...parameters.values()].filter(
+		(parameter) => parameter.in === "query",
+	);
+	const headers = [...parameters.values()].filter(
+		(parameter) => parameter.in === "header",
+	);
+
+	if (query.length > 0) {
+		statements.push(
+			`const query: QueryParams = { ${query.map((parameter) => `${propertyKey(parameter.name)}: params[${JSON.stringify(parameter.name)}] as QueryParams[string]`).join(", ")} };`,
+		);
+	}
+
+	// Request body
+	let bodyArgument = "undefined";
+	const requestBody = operation.requestBody
+		? converter.resolve(operation.requestBody)
+		: undefined;
+	if (requestBody?.content) {
+		const mediaTypes = Object.keys(requestBody.content);
+		const jsonType = mediaTypes.find((mediaType) =>
+			JSON_MEDIA_TYPE.test(mediaType),
+		);
+		const optional = requestBody.required ? "" : "?";
+
+		if (jsonType) {
+			const schema = requestBody.content[jsonType].schema;
+			const bodySchema = converter.uniqueName(`${typeName}Body`);
+			converter.declare(
+				bodySchema,
+				schema ? converter.convert(schema) : str("unknown"),
+				`Request body of ${verb.toUpperCase()} ${path}`,
+			);
+			signature.push(`body${optional}: ${bodySchema}`);
+			bodyArgument = "body";
+		} else if (mediaTypes.includes("multipart/form-data")) {
+			signature.push(`body${optional}: FormData`);
+			bodyArgument = "body";
+		} else if (mediaTypes.includes("application/x-www-form-urlencoded")) {
+			signature.push(`body${optional}: URLSearchParams`);
+			bodyArgument = "body";
+		} else if (mediaTypes.length > 0) {
+			signature.push(`body${optional}: Blob | Uint8Array | string`);
+			bodyArgument = "body";
+		}
+	}
+
+	// First successful response decides the result type
+	const [, successResponse] =
+		Object.entries(operation.responses ?? {})
+			.filter(([status]) => /^2\d\d$|^2XX$/i.test(status))
+			.sort(([a], [b]) => a.localeCompare(b))[0] ?? [];
+
+	let resultType = "unknown";
+	const fetcherOptions = ["...defaults", "...options"];
+	if (successResponse) {
+		const response = converter.resolve(successResponse);
+		const mediaTypes = Object.keys(response.content ?? {});
+		const jsonType = mediaTypes.find((mediaType) =>
+			JSON_MEDIA_TYPE.test(mediaType),
+		);
+
+		if (jsonType) {
+			const schema = response.content?.[jsonType].schema;
+			if (schema) {
+				const responseSchema = converter.uniqueName(`${typeName}Response`);
+				converter.declare(
+					responseSchema,
+					converter.convert(schema),
+					`Successful response of ${verb.toUpperCase()} ${path}`,
+				);
+				resultType = responseSchema;
+				fetcherOptions.push(`schema: ${responseSchema}`);
+			}
+		} else if (mediaTypes.some((mediaType) => mediaType.startsWith("text/"))) {
+			resultType = "string";
+			fetcherOptions.push(`responseType: "text"`);
+		} else if (mediaTypes.length > 0) {
+			resultType = "Blob";
+			fetcherOptions.push(`responseType: "blob"`);
+		}
+	}
+
+	if (headers.length > 0) {
+		fetcherOptions.push(
+			`headers: { ...defaults.headers, ...options.headers, ${headers
+				.map(
+					(parameter) =>
+						`...(params[${JSON.stringify(parameter.name)}] !== undefined && { ${JSON.stringify(parameter.name)}: String(params[${JSON.stringify(parameter.name)}]) })`,
+				)
+				.join(", ")} }`,
+		);
+	}
+
+	signature.push(`options: ClientOptions = {}`);
+
+	const method = verb.toUpperCase();
+	const args = [
+		"url",
+		JSON.stringify(method),
+		`{ ${fetcherOptions.join(", ")} }`,
+		query.length > 0 ? "query" : "undefined",
+	];
+	if (method === "POST" || method === "PUT" || method === "PATCH") {
+		args.push(bodyArgument);
+	}
+
+	const returnType = `Effect.Effect<${resultType}, FetcherError | ValidationError, HttpClient.HttpClient>`;
+	const code = `${docComment(
+		[
+			operation.summary,
+			operation.description,
+			`${method} ${path}`,
+			operation.deprecated ? "@deprecated" : undefined,
+		],
+		"\t",
+	)}\t${name}: (${signature.join(", ")}): ${returnType} => {
+${statements.map((statement) => `\t\t${statement}`).join("\n")}
+\t\treturn fetcher<${resultType}>(${args.join(", ")});
+\t},`;
+
+	return { name, code };
+};
+
+/**
+ * Generates the source of a typed client module for an OpenAPI 3.x document.
+ */
+export const generateClient = (
+	document: OpenApiDocument,
+	options: GenerateOptions = {},
+): string => {
+	if (!document.openapi?.startsWith("3.")) {
+		throw new Error(
+			`Unsupported document version ${document.openapi ?? "(missing openapi field)"}, expected OpenAPI 3.x`,
+		);
+	}
+
+	const {
+		fetcherImport = "./effect-fetch.js",
+		baseUrl = document.servers?.[0]?.url ?? "",
+	} = options;
+
+	const converter = new SchemaConverter(document);
+	for (const name of GENERATED_NAMES) converter.uniqueName(name);
+
+	for (const name of Object.keys(document.components?.schemas ?? {})) {
+		converter.component(name);
+	}
+
+	const operations: GeneratedOperation[] = [];
+	const operationNames = new Set<string>();
+	for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+		for (const verb of HTTP_VERBS) {
+			const operation = pathItem[verb];
+			if (!operation) continue;
+
+			let name = operationName(verb, path, operation);
+			for (let i = 2; operationNames.has(name); i++) {
+				name = `${operationName(verb, path, operation)}${i}`;
+			}
+			operationNames.add(name);
+
+			operations.push(
+				generateOperation(converter, verb, path, pathItem, operation, name),
+			);
+		}
+	}
+
+	const title = document.info?.title ?? "API";
+	const version = document.info?.version ? ` ${document.info.version}` : "";
+
+	return `/**
+ * Typed client for ${title.replace(/\*\//g, "")}${version}.
+ *
+ * Generated by openapi-client-gen.ts from an OpenAPI ${document.openapi} document. Do not edit by hand.
+ */
+
+import type { HttpClient } from "@effect/platform";
+import { type } from "arktype";
+import { Effect } from "effect";
+import {
+	type FetcherError,
+	type FetcherOptions,
+	fetcher,
+	type QueryParams,
+	ValidationError,
+} from ${JSON.stringify(fetcherImport)};
+
+${converter.declarations.join("\n\n")}
+
+/**
+ * Fetcher options accepted by every operation. The response schema is fixed per operation.
+ */
+export type ClientOptions = Omit<FetcherOptions, "schema">;
+
+/**
+ * Creates a client bound to a base URL, with default fetcher options for every operation.
+ */
+export const createClient = (
+	baseUrl = ${JSON.stringify(baseUrl)},
+	defaults: ClientOptions = {},
+) => ({
+${operations.map((operation) => operation.code).join("\n\n")}
+});
+`;
+};
+
+/**
+ * Loads a document from a URL (JSON) or a local JSON/YAML file.
+ */
+export const loadDocument = async (
+	source: string,
+): Promise<OpenApiDocument> => {
+	if (/^https?:\/\//.test(source)) {
+		const response = await fetch(source, {
+			headers: { Accept: "application/json" },
+		});
+		if (!response.ok) {
+			throw new Error(`Failed to fetch ${source}: HTTP ${response.status}`);
+		}
+		return (await response.json()) as OpenApiDocument;
+	}
+
+	// Bun parses .json, .yaml and .yml files natively on import
+	const module = (await import(resolve(source))) as {
+		default: OpenApiDocument;
+	};
+	return module.default;
+};
+
+const program = new Command();
+
+program
+	.name("openapi-client-gen")
+	.description(
+		"Generate a typed effect-fetch client with ArkType schemas from an OpenAPI 3.x document",
+	)
+	.version("1.0.0")
+	.argument("<spec>", "Path or URL of the OpenAPI document")
+	.option("-o, --out <file>", "Write the client to a file instead of stdout")
+	.option(
+		"--fetcher-import <specifier>",
+		"Import path of effect-fetch",
+		"./effect-fetch.js",
+	)
+	.option("--base-url <url>", "Default base URL of the client")
+	.action(
+		async (
+			spec: string,
+			options: { out?: string; fetcherImport: string; baseUrl?: string },
+		) => {
+			try {
+				const document = await loadDocument(spec);
+				const source = generateClient(document, {
+					fetcherImport: options.fetcherImport,
+					baseUrl: options.baseUrl,
+				});
+
+				if (options.out) {
+					await writeFile(options.out, source);
+					console.error(`Wrote client to ${options.out}`);
+				} else {
+					process.stdout.write(source);
+				}
+			} catch (error) {
+				console.error(
+					`Failed to generate client: ${error instanceof Error ? error.message : String(error)}`,
+				);
+				process.exit(1);
+			}
+		},
+	);
+
+if (require.main === module) {
+	program.parse(process.argv);
+}
@@ -0,0 +1,353 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { afterAll, describe, expect, spyOn, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type BenchmarkReport,
+	benchmark,
+	compareToBaseline,
+	estimateMemoryComplexity,
+	type MemoryProfile,
+	measurePerformance,
+	profileMemory,
+	type SampleStats,
+	summarize,
+} from "./performance.js";
+
+describe("summarize", () => {
+	test("computes descriptive statistics", () => {
+		const stats = summarize([5, 1, 4, 2, 3]);
+
+		expect(stats).toMatchObject({
+			samples: 5,
+			callsPerSample: 1,
+			mean: 3,
+			median: 3,
+			min: 1,
+			max: 5,
+		});
+		expect(stats.p95).toBeCloseTo(4.8, 10);
+		expect(stats.stddev).toBeCloseTo(Math.sqrt(2.5), 10);
+	});
+
+	// Two-sided critical values of Student's t distribution from standard tables
+	test.each([
+		[0.95, 1, 12.7062],
+		[0.95, 4, 2.7764],
+		[0.99, 4, 4.6041],
+		[0.9, 5, 2.015],
+		[0.95, 10, 2.2281],
+		[0.95, 30, 2.0423],
+		[0.99, 60, 2.6603],
+	])(
+		"uses t critical values (confidence %d, %d degrees of freedom)",
+		(confidence, df, critical) => {
+			// Samples of mean 0 and standard deviation 1, so the margin is t / sqrt(n)
+			const n = df + 1;
+			const samples = Array.from({ length: n }, (_, i): number =>
+				i % 2 ? 1 : -1,
+			);
+			if (n % 2) samples[n - 1] = 0;
+			const { stddev, marginOfError } = summarize(samples, confidence);
+
+			const t = marginOfError / (stddev / Math.sqrt(n));
+			expect(t).toBeCloseTo(critical, 3);
+		},
+	);
+
+	test("reports no margin for a single sample", () => {
+		expect(summarize([7])).toMatchObject({ marginOfError: 0, rme: 0 });
+	});
+});
+
+describe("compareToBaseline", () => {
+	const stats = (
+		mean: number,
+		stddev: number,
+		samples: number,
+	): SampleStats => ({
+		...summarize([mean]),
+		samples,
+		stddev,
+	});
+
+	const report = (
+		results: Record<string, Record<string, SampleStats>>,
+	): BenchmarkReport => ({
+		version: 1,
+		createdAt: "2025-01-01T00:00:00.000Z",
+		runtime: "test",
+		confidence: 0.95,
+		results,
+	});
+
+	// With 6 samples of equal variance on both sides, Welch's test has 10 degrees of
+	// freedom, and a stddev of sqrt(3) makes the standard error of the difference 1
+	const compare = (change: number) => {
+		const [comparison] = compareToBaseline(
+			report({ sort: { 100: stats(10 + change, Math.sqrt(3), 6) } }),
+			report({ sort: { 100: stats(10, Math.sqrt(3), 6) } }),
+		);
+		return comparison;
+	};
+
+	test.each([
+		[1.8125, 0.1],
+		[2.2281, 0.05],
+		[3.1693, 0.01],
+		[4.5869, 0.001],
+	])("a t statistic of %d has a p-value of %d", (t, pValue) => {
+		expect(compare(t).pValue).toBeCloseTo(pValue, 4);
+		expect(compare(-t).pValue).toBeCloseTo(pValue, 4);
+	});
+
+	test("flags significant changes larger than the threshold", () => {
+		expect(compare(3.1693)).toMatchObject({
+			status: "regressed",
+			baselineMean: 10,
+		});
+		expect(compare(3.1693).change).toBeCloseTo(0.31693, 10);
+		expect(compare(-3.1693).status).toBe("improved");
+		// Large but not significant
+		expect(compare(1.8125).status).toBe("unchanged");
+	});
+
+	test("ignores significant changes below the threshold", () => {
+		const [comparison] = compareToBaseline(
+			report({ sort: { 100: stats(1_020, 1, 1_000) } }),
+			report({ sort: { 100: stats(1_000, 1, 1_000) } }),
+		);
+
+		expect(comparison.pValue).toBeLessThan(1e-10);
+		expect(comparison.status).toBe("unchanged");
+	});
+
+	test("marks algorithms and sizes missing from the baseline as new", () => {
+		const comparisons = compareToBaseline(
+			report({
+				sort: { 100: stats(1, 0, 5), 1000: stats(2, 0, 5) },
+				search: { 100: stats(1, 0, 5) },
+			}),
+			report({ sort: { 100: stats(1, 0, 5) } }),
+		);
+
+		expect(
+			comparisons.map(({ name, size, status }) => [name, size, status]),
+		).toEqual([
+			["sort", 100, "unchanged"],
+			["sort", 1000, "new"],
+			["search", 100, "new"],
+		]);
+		expect(comparisons[0].pValue).toBe(1);
+	});
+});
+
+describe("benchmark", () => {
+	test("stops sampling at the configured confidence", async () => {
+		// A fake clock the algorithm advances by alternating 10 and 12 ms per call
+		let now = 0;
+		const duration = (call: number) => (call % 2 ? 12 : 10);
+		const clock = spyOn(performance, "now").mockImplementation(() => now);
+
+		const options = {
+			sizes: [1],
+			warmup: 0,
+			minSamples: 2,
+			maxTime: Number.POSITIVE_INFINITY,
+			targetRme: 0.05,
+		};
+		try {
+			const run = (confidence: number) =>
+				benchmark(
+					{
+						name: "fake",
+						fn: (_size: number, call: number) => {
+							now += duration(call);
+						},
+					},
+					{ ...options, confidence },
+				);
+
+			// Calibration takes call 0, so samples are calls 1, 2, ...
+			const expectedSamples = (confidence: number) => {
+				const samples: number[] = [];
+				for (let call = 1; ; call++) {
+					samples.push(duration(call));
+					if (
+						samples.length >= options.minSamples &&
+						summarize(samples, confidence).rme <= options.targetRme
+					) {
+						return samples.length;
+					}
+				}
+			};
+
+			const strict = (await run(0.99)).results.fake[1];
+			const loose = (await run(0.5)).results.fake[1];
+
+			expect(strict.samples).toBe(expectedSamples(0.99));
+			expect(loose.samples).toBe(expectedSamples(0.5));
+			expect(strict.samples).toBeGreaterThan(expectedSamples(0.95));
+			expect(strict.rme).toBeLessThanOrEqual(options.targetRme);
+		} finally {
+			clock.mockRestore();
+		}
+	});
+});
+
+describe("estimateMemoryComplexity", () => {
+	const sizes = [1_000, 10_000, 100_000];
+
+	test.each([
+		["O(1)", () => 64],
+		["O(n)", (n: number) => 40 * n],
+		["O(n^2.0)", (n: number) => n * n],
+	])("recognizes %s growth", (notation, bytes) => {
+		const [domain] = estimateMemoryComplexity(sizes, sizes.map(bytes));
+
+		expect(domain.scientificNotation).toBe(notation);
+	});
+
+	test("treats shrinking or negative readings as constant", () => {
+		expect(
+			estimateMemoryComplexity(sizes, [-100, 0, -5])[0].scientificNotation,
+		).toBe("O(1)");
+	});
+
+	test("needs at least two sizes", () => {
+		expect(estimateMemoryComplexity([1_000], [64])[0].rating).toBe("unknown");
+	});
+});
+
+describe("profileMemory", () => {
+	const sizes = [10_000, 40_000];
+	const leaked: unknown[] = [];
+	let profiled: Promise<Record<string, MemoryProfile>> | undefined;
+	// Profiled lazily by the first test, since bun hooks take no timeout
+	const profiles = () =>
+		(profiled ??= profileMemory(
+			[
+				{
+					name: "objects",
+					fn: (size) => Array.from({ length: size }, (_, i) => ({ i })),
+				},
+				{
+					name: "leaky",
+					fn: (size) => {
+						leaked.push(Array.from({ length: size }, (_, i) => ({ i })));
+					},
+				},
+				{ name: "constant", fn: (size) => size * 2 },
+			],
+			sizes,
+		));
+
+	afterAll(() => {
+		leaked.length = 0;
+	});
+
+	test("measures the heap held by the result", async () => {
+		const { bySize, estimatedDomains, gcForced } = (await profiles()).objects;
+
+		for (const size of sizes) {
+			expect(bySize[size].heapUsedDelta).toBeGreaterThan(size * 16);
+			expect(bySize[size].retained).toBeLessThan(
+				bySize[size].heapUsedDelta / 10,
+			);
+			expect(bySize[size].allocatedObjects).toBeGreaterThanOrEqual(size);
+			expect(bySize[size].peakRss).toBeGreaterThan(0);
+		}
+		expect(estimatedDomains[0].scientificNotation).toBe("O(n)");
+		expect(gcForced).toBe(true);
+	}, 30_000);
+
+	test("reports memory that outlives the call as retained", async () => {
+		for (const sample of Object.values((await profiles()).leaky.bySize)) {
+			expect(sample.retained).toBeGreaterThan(sample.heapUsedDelta * 0.9);
+		}
+	}, 30_000);
+
+	test("rates allocation-free algorithms as constant", async () => {
+		const { constant } = await profiles();
+
+		expect(constant.estimatedDomains[0].scientificNotation).toBe("O(1)");
+	}, 30_000);
+
+	test("writes a heap snapshot per algorithm and size", async () => {
+		const dir = await mkdtemp(join(tmpdir(), "heap-snapshots-"));
+
+		try {
+			const { fast } = await profileMemory(
+				{ name: "fast", fn: (size) => size },
+				[1, 2],
+				{ runs: 1, heapSnapshotDir: dir },
+			);
+
+			expect((await readdir(dir)).sort()).toEqual([
+				"fast-1.heapsnapshot",
+				"fast-2.heapsnapshot",
+			]);
+			expect(fast.bySize[1].heapSnapshot).toBe(
+				join(dir, "fast-1.heapsnapshot"),
+			);
+		} finally {
+			await rm(dir, { recursive: true, force: true });
+		}
+	}, 30_000);
+});
+
+describe("measurePerformance", () => {
+	test("only profiles memory when asked to", async () => {
+		const log = spyOn(console, "log").mockImplementation(() => {});
+		const algorithm = { name: "double", fn: (size: number) => size * 2 };
+
+		try {
+			const timed = await measurePerformance(
+				algorithm,
+				[10, 100],
+				false,
+				5,
+				200,
+			);
+			const profiled = await measurePerformance(
+				algorithm,
+				[10, 100],
+				false,
+				5,
+				200,
+				false,
+				{ runs: 1 },
+			);
+
+			expect(timed.double.memory).toBeUndefined();
+			expect(Object.keys(profiled.double.memory?.bySize ?? {})).toEqual([
+				"10",
+				"100",
+			]);
+		} finally {
+			log.mockRestore();
+		}
+	});
+});
@@ -20,8 +20,12 @@
  * SOFTWARE.
  */
 
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { PerformanceObserver } from "node:perf_hooks";
+import * as v8 from "node:v8";
 import type { ComplexityDomain } from "@jsheaven/perf";
-import { perf } from "@jsheaven/perf";
+import { defaultSizes, perf } from "@jsheaven/perf";
 
 export interface Algorithm {
 	name: string;
@@ -31,11 +35,14 @@ export interface Algorithm {
 type PerformanceResult = {
 	duration: number;
 	estimatedDomains: ComplexityDomain[];
+	/** Memory profile, when requested with `memory` */
+	memory?: MemoryProfile;
 };
 
 /**
  * Measures the performance characteristics of one or more algorithms
  * @param algorithms Single algorithm or array of algorithms to measure
+ * @param memory Also profile memory per size (default: false), or memory profiling options
  * @returns Object containing performance measurements for each algorithm
  */
 export const measurePerformance = async (
@@ -45,6 +52,7 @@ export const measurePerformance = async (
 	iterations?: number,
 	maxExecutionTime?: number,
 	chunkSize?: number | boolean,
+	memory: boolean | MemoryOptions = false,
 ): Promise<Record<string, PerformanceResult>> => {
 	const algorithmArray = Array.isArray(algorithms) ? algorithms : [algorithms];
 
@@ -57,12 +65,20 @@ export const measurePerformance = async (
 			maxExecutionTime,
 			chunkSize,
 		);
+		const memoryProfiles = memory
+			? await profileMemory(
+					algorithmArray,
+					sizes,
+					memory === true ? {} : memory,
+				)
+			: {};
 		return Object.entries(results).reduce(
 			(acc, [name, data]) => ({
 				...acc,
 				[name]: {
 					duration: data.duration,
 					estimatedDomains: data.estimatedDomains,
+					memory: memoryProfiles[name],
 				},
 			}),
 			{} as Record<string, PerformanceResult>,
@@ -73,6 +89,894 @@ export const measurePerformance = async (
 	}
 };
 
+// --- Memory profiling ---
+
+export interface MemoryOptions {
+	/** Runs per algorithm and size; the median of each metric is reported (default: 3) */
+	runs?: number;
+	/** Write a heap snapshot per algorithm and size into this directory */
+	heapSnapshotDir?: string;
+}
+
+export interface MemorySample {
+	/** Heap growth after one call while its return value is still reachable, in bytes */
+	heapUsedDelta: number;
+	/** Heap growth left once the return value is dropped as well, in bytes */
+	retained: number;
+	/** Highest resident set size observed while the call ran, in bytes */
+	peakRss: number;
+	/** Live objects added by the call, counted with the return value reachable (Bun only) */
+	allocatedObjects?: number;
+	/** Time spent in garbage collection pauses during the call, in ms (Node only) */
+	gcPauseMs?: number;
+	/** Path of the heap snapshot taken after the call */
+	heapSnapshot?: string;
+}
+
+export interface MemoryProfile {
+	/** Median sample per input size */
+	bySize: Record<string, MemorySample>;
+	/** Growth of `heapUsedDelta` with the input size */
+	estimatedDomains: ComplexityDomain[];
+	/** Whether collections could be forced; without it the numbers are noisier */
+	gcForced: boolean;
+}
+
+/**
+ * Triggers a full garbage collection if the runtime allows it
+ * (always under Bun, under Node only with `--expose-gc`)
+ */
+const forceGC = (): boolean => {
+	if (typeof Bun !== "undefined") {
+		Bun.gc(true);
+		return true;
+	}
+	const gc = (globalThis as { gc?: () => void }).gc;
+	gc?.();
+	return gc !== undefined;
+};
+
+/**
+ * Resolves on the next event loop turn. Collecting from there lets settled promises
+ * release their reactions and keeps stale stack slots from pinning objects in
+ * JSC's conservative scan, which otherwise skews heap readings between runs.
+ */
+const nextTurn = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * JSC keeps the state of the most recently finished async call reachable until the
+ * next one, so garbage from a previous run would be freed in the middle of the next
+ * measurement. A call with the smallest input takes its place before reading the heap.
+ */
+const displacePinnedState = async (algorithm: Algorithm, callIndex: number) => {
+	await algorithm.fn(1, callIndex);
+	await nextTurn();
+};
+
+/**
+ * Number of live objects on the heap, where the runtime exposes it
+ */
+const countHeapObjects = (): number | undefined =>
+	typeof Bun !== "undefined"
+		? require("bun:jsc").heapStats().objectCount
+		: undefined;
+
+/**
+ * Writes a V8-format heap snapshot, loadable in Chrome DevTools' Memory tab
+ * @param path File to write (default: a timestamped file in the working directory)
+ * @returns The path of the written snapshot
+ */
+export const writeHeapSnapshot = (path?: string): string =>
+	v8.writeHeapSnapshot(path);
+
+/** Return value of the call being measured, kept reachable from outside its frame */
+const held: { result?: unknown } = {};
+
+/**
+ * Measures one call of an algorithm, sampling RSS while async work is in flight
+ */
+const sampleMemory = async (
+	algorithm: Algorithm,
+	size: number,
+	callIndex: number,
+): Promise<MemorySample> => {
+	// Bun accepts the "gc" entry type but never emits entries for it
+	let gcPause = 0;
+	let observer: PerformanceObserver | undefined;
+	if (typeof Bun === "undefined") {
+		observer = new PerformanceObserver((list) => {
+			for (const entry of list.getEntries()) gcPause += entry.duration;
+		});
+		observer.observe({ entryTypes: ["gc"] });
+	}
+
+	await displacePinnedState(algorithm, callIndex);
+	forceGC();
+	const before = process.memoryUsage();
+	const objectsBefore = countHeapObjects();
+	let peakRss = before.rss;
+	const sampler = setInterval(() => {
+		peakRss = Math.max(peakRss, process.memoryUsage.rss());
+	}, 1);
+
+	try {
+		held.result = await algorithm.fn(size, callIndex);
+	} finally {
+		clearInterval(sampler);
+	}
+
+	peakRss = Math.max(peakRss, process.memoryUsage.rss());
+	// Also lets the observer deliver entries queued during the call
+	await nextTurn();
+	observer?.disconnect();
+
+	// JSC only updates its heap statistics on collection, so measure after one
+	// while the result is held, then again once it is released
+	forceGC();
+	const heldHeapUsed = process.memoryUsage().heapUsed;
+	const objectsAfter = countHeapObjects();
+	held.result = undefined;
+	await displacePinnedState(algorithm, callIndex);
+	forceGC();
+
+	return {
+		heapUsedDelta: heldHeapUsed - before.heapUsed,
+		retained: process.memoryUsage().heapUsed - before.heapUsed,
+		peakRss,
+		allocatedObjects:
+			objectsBefore === undefined || objectsAfter === undefined
+				? undefined
+				: objectsAfter - objectsBefore,
+		gcPauseMs: observer ? gcPause : undefined,
+	};
+};
+
+/**
+ * Estimates how memory grows with the input size from the slope of a log-log fit
+ * @param sizes Input sizes
+ * @param bytes Memory used at each size
+ * @returns Matching complexity domains, in the format of the time estimates
+ */
+export const estimateMemoryComplexity = (
+	sizes: number[],
+	bytes: number[],
+): ComplexityDomain[] => {
+	const points = sizes
+		.map((size, index) => [Math.log(size), Math.log(Math.max(bytes[index], 1))])
+		.filter(([x]) => Number.isFinite(x));
+	if (points.length < 2) {
+		return [
+			{
+				scientificNotation: "?",
+				description: "Unknown (needs at least 2 sizes)",
+				rating: "unknown",
+			},
+		];
+	}
+
+	const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length;
+	const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length;
+	const covariance = points.reduce(
+		(sum, [x, y]) => sum + (x - meanX) * (y - meanY),
+		0,
+	);
+	const variance = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0);
+	const slope = variance > 0 ? covariance / variance : 0;
+
+	if (slope < 0.2) {
+		return [
+			{
+				scientificNotation: "O(1)",
+				description: "Constant Memory",
+				rating: "excellent",
+			},
+		];
+	}
+	if (slope < 0.6) {
+		return [
+			{
+				scientificNotation: "O(log n)",
+				description: "Logarithmic Memory",
+				rating: "good",
+			},
+		];
+	}
+	if (slope < 1.15) {
+		return [
+			{
+				scientificNotation: "O(n)",
+				description: "Linear Memory",
+				rating: "fair",
+			},
+		];
+	}
+	if (slope < 1.6) {
+		return [
+			{
+				scientificNotation: "O(n log n)",
+				description: "Loglinear Memory",
+				rating: "bad",
+			},
+		];
+	}
+	return [
+		{
+			scientificNotation: `O(n^${slope.toFixed(1)})`,
+			description: "Polynomial Memory",
+			rating: "disastrous",
+		},
+	];
+};
+
+/**
+ * Profiles heap growth, retained memory, peak RSS, allocations and GC pauses of
+ * algorithms per input size
+ * @param algorithms Single algorithm or array of algorithms to profile
+ * @param sizes Input sizes
+ * @param options Runs per size and heap snapshot output
+ * @returns Memory profile per algorithm name
+ */
+export const profileMemory = async (
+	algorithms: Algorithm | Algorithm[],
+	sizes: number[] = defaultSizes,
+	options: MemoryOptions = {},
+): Promise<Record<string, MemoryProfile>> => {
+	const { runs = 3, heapSnapshotDir } = options;
+	if (heapSnapshotDir) await mkdir(heapSnapshotDir, { recursive: true });
+
+	const median = (values: number[]) =>
+		[...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+	const optionalMedian = (values: (number | undefined)[]) =>
+		values.every((value) => value !== undefined)
+			? median(values as number[])
+			: undefined;
+
+	const profiles: Record<string, MemoryProfile> = {};
+	for (const algorithm of Array.isArray(algorithms)
+		? algorithms
+		: [algorithms]) {
+		const bySize: Record<string, MemorySample> = {};
+		// One untimed call so lazily compiled code does not count as allocation
+		await algorithm.fn(sizes[0] ?? 1, 0);
+
+		for (const size of sizes) {
+			const samples: MemorySample[] = [];
+			for (let run = 0; run < runs; run++) {
+				samples.push(await sampleMemory(algorithm, size, run));
+			}
+
+			bySize[size] = {
+				heapUsedDelta: median(samples.map((sample) => sample.heapUsedDelta)),
+				retained: median(samples.map((sample) => sample.retained)),
+				peakRss: Math.max(...samples.map((sample) => sample.peakRss)),
+				allocatedObjects: optionalMedian(
+					samples.map((sample) => sample.allocatedObjects),
+				),
+				gcPauseMs: optionalMedian(samples.map((sample) => sample.gcPauseMs)),
+			};
+
+			if (heapSnapshotDir) {
+				await algorithm.fn(size, runs);
+				bySize[size].heapSnapshot = writeHeapSnapshot(
+					join(heapSnapshotDir, `${algorithm.name}-${size}.heapsnapshot`),
+				);
+			}
+		}
+
+		profiles[algorithm.name] = {
+			bySize,
+			estimatedDomains: estimateMemoryComplexity(
+				sizes,
+				sizes.map((size) => bySize[size].heapUsedDelta),
+			),
+			gcForced: forceGC(),
+		};
+	}
+	return profiles;
+};
+
+/**
+ * Formats a byte count with a binary unit
+ */
+const formatBytes = (bytes: number): string => {
+	const units = ["B", "KiB", "MiB", "GiB"];
+	let value = Math.abs(bytes);
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${bytes < 0 ? "-" : ""}${value.toFixed(unit === 0 ? 0 : 1)}${units[unit]}`;
+};
+
+/**
+ * Renders memory profiles as a plain-text table
+ */
+export const formatMemoryTable = (
+	profiles: Record<string, MemoryProfile>,
+): string => {
+	const header = [
+		"Algorithm",
+		"Size",
+		"Heap Δ",
+		"Retained",
+		"Peak RSS",
+		"Objects",
+		"GC Pause",
+		"Memory",
+	];
+	const rows = Object.entries(profiles).flatMap(([name, profile]) =>
+		Object.entries(profile.bySize).map(([size, sample]) => [
+			name,
+			Number(size).toLocaleString("en-US"),
+			formatBytes(sample.heapUsedDelta),
+			formatBytes(sample.retained),
+			formatBytes(sample.peakRss),
+			sample.allocatedObjects?.toLocaleString("en-US") ?? "n/a",
+			sample.gcPauseMs === undefined
+				? "n/a"
+				: `${sample.gcPauseMs.toFixed(2)}ms`,
+			profile.estimatedDomains[0].scientificNotation,
+		]),
+	);
+
+	const widths = header.map((title, column) =>
+		Math.max(title.length, ...rows.map((row) => row[column].length)),
+	);
+	const line = (cells: string[]) =>
+		cells
+			.map((cell, column) =>
+				column < 2
+					? cell.padEnd(widths[column])
+					: cell.padStart(widths[column]),
+			)
+			.join("  ");
+
+	return [
+		line(header),
+		widths.map((width) => "─".repeat(width)).join("  "),
+		...rows.map(line),
+	].join("\n");
+};
+
+// --- Benchmark harness ---
+
+export interface BenchmarkOptions {
+	/** Input sizes passed to every algorithm (default: [1000]) */
+	sizes?: number[];
+	/** Samples taken before the stopping rules apply (default: 10) */
+	minSamples?: number;
+	/** Upper bound of samples per algorithm and size (default: 1000) */
+	maxSamples?: number;
+	/** Time budget in ms per algorithm and size, warm-up excluded (default: 2000) */
+	maxTime?: number;
+	/** Stop sampling once the relative margin of error falls below this (default: 0.01) */
+	targetRme?: number;
+	/** Each sample repeats the call until it lasts at least this many ms (default: 1) */
+	minSampleTime?: number;
+	/** Calls made before sampling to let the JIT settle (default: 5) */
+	warmup?: number;
+	/** Confidence level of the reported intervals (default: 0.95) */
+	confidence?: number;
+}
+
+export interface SampleStats {
+	samples: number;
+	/** Calls per sample, chosen so each sample lasts at least `minSampleTime` */
+	callsPerSample: number;
+	/** Statistics of the per-call duration in ms */
+	mean: number;
+	median: number;
+	p95: number;
+	min: number;
+	max: number;
+	stddev: number;
+	/** Half-width of the confidence interval of the mean */
+	marginOfError: number;
+	/** `marginOfError / mean` */
+	rme: number;
+	ci: [number, number];
+}
+
+export interface BenchmarkReport {
+	version: 1;
+	createdAt: string;
+	runtime: string;
+	confidence: number;
+	/** Stats per algorithm name, then per input size */
+	results: Record<string, Record<string, SampleStats>>;
+}
+
+export interface BaselineComparison {
+	name: string;
+	size: number;
+	baselineMean?: number;
+	mean: number;
+	/** Relative change of the mean, e.g. 0.12 for 12% slower */
+	change?: number;
+	/** Two-sided p-value of Welch's t-test */
+	pValue?: number;
+	status: "regressed" | "improved" | "unchanged" | "new";
+}
+
+export interface CompareOptions {
+	/** Significance level of the t-test (default: 0.05) */
+	alpha?: number;
+	/** Smallest relative slowdown counted as a regression (default: 0.05) */
+	threshold?: number;
+}
+
+/**
+ * Natural logarithm of the gamma function (Lanczos approximation)
+ */
+const logGamma = (x: number): number => {
+	const coefficients = [
+		76.180091729471, -86.505320329417, 24.014098240831, -1.231739572450155,
+		0.1208650973866179e-2, -0.5395239384953e-5,
+	];
+	let y = x;
+	const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+	let series = 1.00000000019;
+	for (const coefficient of coefficients) series += coefficient / ++y;
+	return -tmp + Math.log((2.506628274631 * series) / x);
+};
+
+/**
+ * Regularized incomplete beta function I_x(a, b), by Lentz's continued fraction
+ */
+const incompleteBeta = (x: number, a: number, b: number): number => {
+	if (x <= 0) return 0;
+	if (x >= 1) return 1;
+	if (x > (a + 1) / (a + b + 2)) return 1 - incompleteBeta(1 - x, b, a);
+
+	const front = Math.exp(
+		logGamma(a + b) -
+			logGamma(a) -
+			logGamma(b) +
+			a * Math.log(x) +
+			b * Math.log(1 - x),
+	);
+	const tiny = 1e-30;
+	let c = 1;
+	let d = 1 - ((a + b) * x) / (a + 1);
+	d = 1 / (Math.abs(d) < tiny ? tiny : d);
+	let result = d;
+
+	for (let m = 1; m <= 200; m++) {
+		for (const numerator of [
+			(m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m)),
+			-((a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1)),
+		]) {
+			d = 1 + numerator * d;
+			d = 1 / (Math.abs(d) < tiny ? tiny : d);
+			c = 1 + numerator / c;
+			c = Math.abs(c) < tiny ? tiny : c;
+			result *= c * d;
+		}
+		if (Math.abs(c * d - 1) < 1e-12) break;
+	}
+	return (front * result) / a;
+};
+
+/**
+ * Two-sided tail probability P(|T| >= |t|) of Student's t distribution
+ */
+const studentTTail = (t: number, df: number): number =>
+	incompleteBeta(df / (df + t * t), df / 2, 0.5);
+
+/**
+ * Critical value t such that P(|T| >= t) = 1 - confidence
+ */
+const studentTCritical = (confidence: number, df: number): number => {
+	let low = 0;
+	let high = 1_000;
+	for (let i = 0; i < 100; i++) {
+		const mid = (low + high) / 2;
+		if (studentTTail(mid, df) > 1 - confidence) low = mid;
+		else high = mid;
+	}
+	return (low + high) / 2;
+};
+
+/**
+ * Computes descriptive statistics and a t-based confidence interval of the mean
+ * @param samples Per-call durations in ms
+ * @param confidence Confidence level of the interval
+ * @param callsPerSample Calls averaged into each sample
+ */
+export const summarize = (
+	samples: number[],
+	confidence = 0.95,
+	callsPerSample = 1,
+): SampleStats => {
+	const sorted = [...samples].sort((a, b) => a - b);
+	const n = sorted.length;
+	const quantile = (q: number) => {
+		const position = (n - 1) * q;
+		const base = Math.floor(position);
+		const next = sorted[Math.min(base + 1, n - 1)];
+		return sorted[base] + (next - sorted[base]) * (position - base);
+	};
+
+	const mean = sorted.reduce((sum, value) => sum + value, 0) / n;
+	const variance =
+		n > 1
+			? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)
+			: 0;
+	const stddev = Math.sqrt(variance);
+	const marginOfError =
+		n > 1 ? studentTCritical(confidence, n - 1) * (stddev / Math.sqrt(n)) : 0;
+
+	return {
+		samples: n,
+		callsPerSample,
+		mean,
+		median: quantile(0.5),
+		p95: quantile(0.95),
+		min: sorted[0],
+		max: sorted[n - 1],
+		stddev,
+		marginOfError,
+		rme: mean > 0 ? marginOfError / mean : 0,
+		ci: [mean - marginOfError, mean + marginOfError],
+	};
+};
+
+/**
+ * Samples one algorithm at one size until the estimate is precise enough or the budget runs out
+ */
+const sampleAlgorithm = async (
+	algorithm: Algorithm,
+	size: number,
+	options: Required<Omit<BenchmarkOptions, "sizes">>,
+): Promise<SampleStats> => {
+	let callIndex = 0;
+	const timeCalls = async (calls: number) => {
+		const start = performance.now();
+		for (let i = 0; i < calls; i++) await algorithm.fn(size, callIndex++);
+		return performance.now() - start;
+	};
+
+	await timeCalls(options.warmup);
+
+	// Batch fast calls so timer resolution does not dominate a sample
+	let callsPerSample = 1;
+	while (
+		(await timeCalls(callsPerSample)) < options.minSampleTime &&
+		callsPerSample < 1_000_000
+	) {
+		callsPerSample *= 2;
+	}
+
+	const samples: number[] = [];
+	const deadline = performance.now() + options.maxTime;
+	while (samples.length < options.maxSamples) {
+		samples.push((await timeCalls(callsPerSample)) / callsPerSample);
+		if (samples.length < options.minSamples) continue;
+		if (performance.now() >= deadline) break;
+		if (summarize(samples, options.confidence).rme <= options.targetRme) break;
+	}
+
+	return summarize(samples, options.confidence, callsPerSample);
+};
+
+/**
+ * Benchmarks algorithms with adaptive sample counts. Each algorithm and size is sampled
+ * until the relative margin of error reaches `targetRme`, `maxSamples` is hit, or the
+ * `maxTime` budget is spent, whichever comes first.
+ * @param algorithms Single algorithm or array of algorithms to benchmark
+ * @param options Sampling options
+ * @returns Report with per-call timing statistics for each algorithm and size
+ */
+export const benchmark = async (
+	algorithms: Algorithm | Algorithm[],
+	options: BenchmarkOptions = {},
+): Promise<BenchmarkReport> => {
+	const { sizes = [1_000], ...rest } = options;
+	const sampling = {
+		minSamples: 10,
+		maxSamples: 1_000,
+		maxTime: 2_000,
+		targetRme: 0.01,
+		minSampleTime: 1,
+		warmup: 5,
+		confidence: 0.95,
+		...rest,
+	};
+
+	const results: BenchmarkReport["results"] = {};
+	for (const algorithm of Array.isArray(algorithms)
+		? algorithms
+		: [algorithms]) {
+		results[algorithm.name] = {};
+		for (const size of sizes) {
+			results[algorithm.name][size] = await sampleAlgorithm(
+				algorithm,
+				size,
+				sampling,
+			);
+		}
+	}
+
+	return {
+		version: 1,
+		createdAt: new Date().toISOString(),
+		runtime:
+			typeof Bun !== "undefined"
+				? `bun ${Bun.version}`
+				: `node ${process.versions.node}`,
+		confidence: sampling.confidence,
+		results,
+	};
+};
+
+/**
+ * Compares a report against a baseline with Welch's t-test on the per-call means.
+ * A change only counts when it is both significant and larger than `threshold`.
+ * @param current The new report
+ * @param baseline The stored baseline report
+ * @param options Significance level and minimum relevant change
+ * @returns One comparison per algorithm and size of the current report
+ */
+export const compareToBaseline = (
+	current: BenchmarkReport,
+	baseline: BenchmarkReport,
+	options: CompareOptions = {},
+): BaselineComparison[] => {
+	const { alpha = 0.05, threshold = 0.05 } = options;
+
+	return Object.entries(current.results).flatMap(([name, bySize]) =>
+		Object.entries(bySize).map(([size, stats]): BaselineComparison => {
+			const base = baseline.results[name]?.[size];
+			if (!base) {
+				return { name, size: Number(size), mean: stats.mean, status: "new" };
+			}
+
+			const varianceA = stats.stddev ** 2 / stats.samples;
+			const varianceB = base.stddev ** 2 / base.samples;
+			const standardError = Math.sqrt(varianceA + varianceB);
+			const change = (stats.mean - base.mean) / base.mean;
+			let pValue = stats.mean === base.mean ? 1 : 0;
+			if (standardError > 0) {
+				const t = (stats.mean - base.mean) / standardError;
+				// Welch–Satterthwaite degrees of freedom
+				const df =
+					(varianceA + varianceB) ** 2 /
+					(varianceA ** 2 / Math.max(stats.samples - 1, 1) +
+						varianceB ** 2 / Math.max(base.samples - 1, 1));
+				pValue = studentTTail(t, df);
+			}
+
+			const significant = pValue < alpha && Math.abs(change) > threshold;
+			return {
+				name,
+				size: Number(size),
+				baselineMean: base.mean,
+				mean: stats.mean,
+				change,
+				pValue,
+				status: !significant
+					? "unchanged"
+					: change > 0
+						? "regressed"
+						: "improved",
+			};
+		}),
+	);
+};
+
+/**
+ * Reads a baseline written by `saveBaseline`, or undefined if the file does not exist
+ */
+export const loadBaseline = async (
+	path: string,
+): Promise<BenchmarkReport | undefined> => {
+	try {
+		return JSON.parse(await readFile(path, "utf8")) as BenchmarkReport;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+		throw error;
+	}
+};
+
+/**
+ * Writes a report as the new baseline
+ */
+export const saveBaseline = async (
+	path: string,
+	report: BenchmarkReport,
+): Promise<void> => {
+	await writeFile(path, `${JSON.stringify(report, null, 2)}\n`);
+};
+
+/**
+ * Formats a duration in ms with a unit that keeps it readable
+ */
+const formatDuration = (ms: number): string => {
+	if (ms < 1e-3) return `${(ms * 1e6).toFixed(1)}ns`;
+	if (ms < 1) return `${(ms * 1e3).toFixed(2)}µs`;
+	if (ms < 1_000) return `${ms.toFixed(2)}ms`;
+	return `${(ms / 1_000).toFixed(2)}s`;
+};
+
+/**
+ * Renders a report, and optionally its baseline comparison, as a plain-text table
+ */
+export const formatBenchmarkTable = (
+	report: BenchmarkReport,
+	comparisons: BaselineComparison[] = [],
+): string => {
+	const header = [
+		"Algorithm",
+		"Size",
+		"Mean",
+		"Median",
+		"p95",
+		"Stddev",
+		`±${Math.round(report.confidence * 100)}% CI`,
+		"Samples",
+	];
+	if (comparisons.length > 0) header.push("vs Baseline");
+
+	const rows = Object.entries(report.results).flatMap(([name, bySize]) =>
+		Object.entries(bySize).map(([size, stats]) => {
+			const row = [
+				name,
+				Number(size).toLocaleString("en-US"),
+				formatDuration(stats.mean),
+				formatDuration(stats.median),
+				formatDuration(stats.p95),
+				formatDuration(stats.stddev),
+				`±${(stats.rme * 100).toFixed(2)}%`,
+				`${stats.samples}×${stats.callsPerSample}`,
+			];
+			if (comparisons.length > 0) {
+				const comparison = comparisons.find(
+					(entry) => entry.name === name && entry.size === Number(size),
+				);
+				row.push(
+					comparison?.change === undefined
+						? "new"
+						: `${comparison.change >= 0 ? "+" : ""}${(comparison.change * 100).toFixed(1)}% ${comparison.status} (p=${comparison.pValue?.toFixed(3)})`,
+				);
+			}
+			return row;
+		}),
+	);
+
+	const widths = header.map((title, column) =>
+		Math.max(title.length, ...rows.map((row) => row[column].length)),
+	);
+	const line = (cells: string[]) =>
+		cells
+			.map((cell, column) =>
+				column < 2
+					? cell.padEnd(widths[column])
+					: cell.padStart(widths[column]),
+			)
+			.join("  ");
+
+	return [
+		line(header),
+		widths.map((width) => "─".repeat(width)).join("  "),
+		...rows.map(line),
+	].join("\n");
+};
+
+export interface RunBenchmarksOptions extends BenchmarkOptions, CompareOptions {
+	/** Baseline file to compare against */
+	baseline?: string;
+	/** Overwrite the baseline with this run instead of comparing */
+	updateBaseline?: boolean;
+	/** Write the report and comparisons as JSON to this file, or to stdout with "-" */
+	json?: string;
+	/** Also profile memory per size after timing (default: false) */
+	memory?: boolean | MemoryOptions;
+}
+
+/**
+ * Reads `--baseline <file>`, `--update-baseline`, `--json <file|->`, memory flags
+ * (`--memory`, `--heap-snapshot <dir>`) and sampling flags
+ * (`--max-time`, `--min-samples`, `--max-samples`, `--target-rme`) from CLI arguments
+ */
+export const parseBenchmarkArgs = (
+	args: string[] = process.argv.slice(2),
+): RunBenchmarksOptions => {
+	const value = (flag: string) => {
+		const index = args.indexOf(flag);
+		return index === -1 ? undefined : args[index + 1];
+	};
+	const number = (flag: string) => {
+		const raw = value(flag);
+		return raw === undefined ? undefined : Number(raw);
+	};
+
+	const heapSnapshotDir = value("--heap-snapshot");
+
+	return {
+		baseline: value("--baseline"),
+		updateBaseline: args.includes("--update-baseline"),
+		json: value("--json"),
+		maxTime: number("--max-time"),
+		minSamples: number("--min-samples"),
+		maxSamples: number("--max-samples"),
+		targetRme: number("--target-rme"),
+		memory: heapSnapshotDir ? { heapSnapshotDir } : args.includes("--memory"),
+	};
+};
+
+/**
+ * Runs benchmarks end to end: prints a table, compares against (or updates) the
+ * baseline, writes machine-readable JSON, and sets a non-zero exit code on regressions.
+ * @returns The report, the baseline comparisons (empty without a baseline) and
+ * memory profiles (empty unless requested)
+ */
+export const runBenchmarks = async (
+	algorithms: Algorithm | Algorithm[],
+	options: RunBenchmarksOptions = {},
+): Promise<{
+	report: BenchmarkReport;
+	comparisons: BaselineComparison[];
+	memory: Record<string, MemoryProfile>;
+}> => {
+	const {
+		baseline,
+		updateBaseline,
+		json,
+		alpha,
+		threshold,
+		memory: memoryOptions,
+		...sampling
+	} = options;
+	// Flags that were not passed must not override the defaults
+	const definedSampling = Object.fromEntries(
+		Object.entries(sampling).filter(([, value]) => value !== undefined),
+	) as BenchmarkOptions;
+
+	const report = await benchmark(algorithms, definedSampling);
+	const previous =
+		baseline && !updateBaseline ? await loadBaseline(baseline) : undefined;
+	const comparisons = previous
+		? compareToBaseline(report, previous, { alpha, threshold })
+		: [];
+
+	const log = json === "-" ? console.error : console.log;
+	log(formatBenchmarkTable(report, comparisons));
+
+	const memory = memoryOptions
+		? await profileMemory(
+				algorithms,
+				definedSampling.sizes ?? [1_000],
+				memoryOptions === true ? {} : memoryOptions,
+			)
+		: {};
+	if (memoryOptions) log(`\n${formatMemoryTable(memory)}`);
+
+	if (baseline && (updateBaseline || !previous)) {
+		await saveBaseline(baseline, report);
+		log(`\nBaseline written to ${baseline}`);
+	}
+	if (json) {
+		const output = JSON.stringify({ report, comparisons, memory }, null, 2);
+		if (json === "-") console.log(output);
+		else await writeFile(json, `${output}\n`);
+	}
+
+	const regressions = comparisons.filter(
+		(comparison) => comparison.status === "regressed",
+	);
+	if (regressions.length > 0) {
+		log(
+			`\n${regressions.length} regression(s): ${regressions
+				.map(({ name, size }) => `${name}@${size}`)
+				.join(", ")}`,
+		);
+		process.exitCode = 1;
+	}
+
+	return { report, comparisons, memory };
+};
+
 /**
  * Example usage:
  *
@@ -87,4 +991,15 @@ export const measurePerformance = async (
  * const results = await measurePerformance(bubbleSort)
  * console.log(results.BubbleSort.duration)
  * console.log(results.BubbleSort.estimatedDomains)
+ *
+ * // Memory profiling is opt-in
+ * const withMemory = await measurePerformance(bubbleSort, [1_000, 10_000], true, 3, 2_000, false, true)
+ * console.log(withMemory.BubbleSort.memory?.estimatedDomains) // e.g. O(n)
+ *
+ * // Heap growth, peak RSS and GC pauses only, with a heap snapshot per size
+ * const profiles = await profileMemory(bubbleSort, [1_000, 10_000], { heapSnapshotDir: 'snapshots' })
+ * console.log(formatMemoryTable(profiles))
+ *
+ * // Statistically sound comparison against a stored baseline; exits non-zero on regression
+ * await runBenchmarks(bubbleSort, { sizes: [100, 1_000], baseline: 'bench-baseline.json' })
  */
@@ -0,0 +1,540 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	mock,
+	spyOn,
+	test,
+} from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type } from "arktype";
+import { type ConfigChange, ConfigReloader } from "./process-signal.js";
+
+interface HookSpec {
+	name: string;
+	/** Milliseconds the hook takes; omitted hooks never finish */
+	duration?: number;
+	priority?: number;
+	timeout?: number;
+}
+
+interface ChildSpec {
+	hooks: HookSpec[];
+	timeout?: number;
+	hookTimeout?: number;
+}
+
+/**
+ * Installs a ShutdownManager in a fresh process. Hooks print `start:<name>` and `end:<name>`,
+ * and `ready` is printed once the signal listeners are in place.
+ */
+const CHILD = `
+import { ShutdownManager } from ${JSON.stringify(join(import.meta.dir, "process-signal.ts"))};
+
+const spec = JSON.parse(process.env.SHUTDOWN_SPEC);
+const shutdown = new ShutdownManager({ timeout: spec.timeout, hookTimeout: spec.hookTimeout }).install();
+for (const hook of spec.hooks) {
+	shutdown.register(
+		hook.name,
+		() => new Promise((resolve) => {
+			console.log("start:" + hook.name);
+			if (hook.duration !== undefined) {
+				setTimeout(() => { console.log("end:" + hook.name); resolve(); }, hook.duration);
+			}
+		}),
+		{ priority: hook.priority, timeout: hook.timeout },
+	);
+}
+setInterval(() => {}, 1_000);
+console.log("ready");
+`;
+
+const children: Bun.Subprocess[] = [];
+
+// Children of failed tests must not outlive the run
+afterEach(() => {
+	for (const child of children.splice(0)) {
+		if (child.exitCode === null) child.kill("SIGKILL");
+	}
+});
+
+/**
+ * Starts the child and resolves once it printed `ready`.
+ */
+const startChild = async (spec: ChildSpec) => {
+	const child = Bun.spawn([process.execPath, "--eval", CHILD], {
+		env: { ...process.env, SHUTDOWN_SPEC: JSON.stringify(spec) },
+		stdout: "pipe",
+		stderr: "pipe",
+	});
+	children.push(child);
+	const reader = child.stdout.getReader();
+	const decoder = new TextDecoder();
+	let stdout = "";
+
+	const waitFor = async (line: string) => {
+		while (!stdout.split("\n").includes(line)) {
+			const { done, value } = await reader.read();
+			if (done) throw new Error(`Child exited before printing "${line}"`);
+			stdout += decoder.decode(value, { stream: true });
+		}
+	};
+
+	const finish = async () => {
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			stdout += decoder.decode(value, { stream: true });
+		}
+		const exitCode = await child.exited;
+		const lines = stdout
+			.split("\n")
+			.filter((line) => /^(start|end):/.test(line));
+		return { exitCode, lines, stderr: await new Response(child.stderr).text() };
+	};
+
+	await waitFor("ready");
+	return { child, waitFor, finish };
+};
+
+describe("ShutdownManager signal handling", () => {
+	test("runs hooks by priority, then exits with 128 + SIGTERM", async () => {
+		const { child, finish } = await startChild({
+			hooks: [
+				{ name: "cache", duration: 10 },
+				{ name: "server", duration: 10, priority: 100 },
+				{ name: "database", duration: 10 },
+				{ name: "queue", duration: 10, priority: 50 },
+			],
+		});
+
+		child.kill("SIGTERM");
+		const { exitCode, lines } = await finish();
+
+		expect(exitCode).toBe(143);
+		expect(lines).toEqual([
+			"start:server",
+			"end:server",
+			"start:queue",
+			"end:queue",
+			"start:cache",
+			"end:cache",
+			"start:database",
+			"end:database",
+		]);
+	}, 10_000);
+
+	test("exits with 128 + SIGINT", async () => {
+		const { child, finish } = await startChild({
+			hooks: [{ name: "server", duration: 10 }],
+		});
+
+		child.kill("SIGINT");
+		const { exitCode, lines } = await finish();
+
+		expect(exitCode).toBe(130);
+		expect(lines).toEqual(["start:server", "end:server"]);
+	}, 10_000);
+
+	test("abandons a hook after its timeout and runs the rest", async () => {
+		const { child, finish } = await startChild({
+			hooks: [
+				{ name: "hanging", priority: 1, timeout: 200 },
+				{ name: "database", duration: 10 },
+			],
+			hookTimeout: 60_000,
+		});
+
+		const startedAt = performance.now();
+		child.kill("SIGTERM");
+		const { exitCode, lines, stderr } = await finish();
+
+		expect(exitCode).toBe(143);
+		expect(lines).toEqual(["start:hanging", "start:database", "end:database"]);
+		expect(stderr).toContain('Shutdown hook "hanging" timed out after 200ms');
+		expect(performance.now() - startedAt).toBeLessThan(5_000);
+	}, 10_000);
+
+	test("a second SIGINT exits immediately, skipping the remaining hooks", async () => {
+		const { child, waitFor, finish } = await startChild({
+			hooks: [
+				{ name: "slow", duration: 30_000, priority: 1 },
+				{ name: "database", duration: 10 },
+			],
+		});
+
+		const startedAt = performance.now();
+		child.kill("SIGINT");
+		await waitFor("start:slow");
+		child.kill("SIGINT");
+		const { exitCode, lines, stderr } = await finish();
+
+		expect(exitCode).toBe(130);
+		expect(lines).toEqual(["start:slow"]);
+		expect(stderr).toContain("Second interrupt received");
+		expect(performance.now() - startedAt).toBeLessThan(5_000);
+	}, 10_000);
+
+	test("force-exits with 1 when shutdown misses the global deadline", async () => {
+		const { child, finish } = await startChild({
+			hooks: [{ name: "hanging" }, { name: "database", duration: 10 }],
+			timeout: 300,
+			hookTimeout: 60_000,
+		});
+
+		child.kill("SIGTERM");
+		const { exitCode, lines, stderr } = await finish();
+
+		expect(exitCode).toBe(1);
+		expect(lines).toEqual(["start:hanging"]);
+		expect(stderr).toContain("Shutdown did not finish within 300ms");
+	}, 10_000);
+});
+
+describe("ConfigReloader", () => {
+	const Config = type({
+		server: { host: "string", port: "number" },
+		features: "string[]",
+		"debug?": "boolean",
+	});
+	const initial = {
+		server: { host: "localhost", port: 3000 },
+		features: ["alerts"],
+	};
+
+	let dir: string;
+	let file: string;
+	let files = 0;
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "config-reloader-"));
+		// The reloader reports every outcome on the console
+		spyOn(console, "log").mockImplementation(() => {});
+		spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterAll(async () => {
+		mock.restore();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	const setup = async (config: unknown = initial) => {
+		file = join(dir, `config-${files++}.json`);
+		await writeFile(file, JSON.stringify(config));
+		return new ConfigReloader({ path: file, schema: Config });
+	};
+
+	test("reports the dotted paths that changed", async () => {
+		const reloader = await setup();
+		await reloader.load();
+		const changes: ConfigChange<typeof Config.infer>[] = [];
+		reloader.subscribe((change) => {
+			changes.push(change);
+		});
+
+		await writeFile(
+			file,
+			JSON.stringify({
+				server: { host: "localhost", port: 8080 },
+				features: ["alerts", "clips"],
+				debug: true,
+			}),
+		);
+		const result = await reloader.reload();
+
+		expect(result).toEqual({
+			status: "applied",
+			changed: ["server.port", "features", "debug"],
+		});
+		expect(changes).toHaveLength(1);
+		expect(changes[0].previous).toEqual(initial);
+		expect(reloader.current.server.port).toBe(8080);
+
+		expect(await reloader.reload()).toEqual({ status: "unchanged" });
+		expect(changes).toHaveLength(1);
+	});
+
+	test("keeps the current configuration when validation fails", async () => {
+		const reloader = await setup();
+		await reloader.load();
+		let notified = false;
+		reloader.subscribe(() => {
+			notified = true;
+		});
+
+		await writeFile(file, JSON.stringify({ ...initial, features: "alerts" }));
+		const result = await reloader.reload();
+
+		expect(result.status).toBe("rejected");
+		expect(result.status === "rejected" && result.error.message).toContain(
+			"features must be an array",
+		);
+		expect(reloader.current).toEqual(initial);
+		expect(notified).toBe(false);
+	});
+
+	test("rolls back and tells notified listeners when one throws", async () => {
+		const reloader = await setup();
+		await reloader.load();
+		const seen: number[] = [];
+		reloader.subscribe(({ current }) => {
+			seen.push(current.server.port);
+		});
+		reloader.subscribe(({ current }) => {
+			if (current.server.port === 9000) throw new Error("port in use");
+		});
+
+		await writeFile(
+			file,
+			JSON.stringify({ ...initial, server: { host: "localhost", port: 9000 } }),
+		);
+		const result = await reloader.reload();
+
+		expect(result.status).toBe("rolled-back");
+		expect(result.status === "rolled-back" && result.error.message).toBe(
+			"port in use",
+		);
+		expect(reloader.current).toEqual(initial);
+		expect(seen).toEqual([9000, 3000]);
+	});
+
+	test("keeps reloading after a reload before load()", async () => {
+		const reloader = await setup();
+
+		const early = await reloader.reload();
+		expect(early.status).toBe("rejected");
+		expect(early.status === "rejected" && early.error.message).toContain(
+			"has not been loaded yet",
+		);
+
+		await reloader.load();
+		await writeFile(file, JSON.stringify({ ...initial, debug: true }));
+		expect(await reloader.reload()).toEqual({
+			status: "applied",
+			changed: ["debug"],
+		});
+	});
+
+	test("queues concurrent reloads", async () => {
+		const reloader = await setup();
+		await reloader.load();
+		await writeFile(file, JSON.stringify({ ...initial, debug: false }));
+
+		const results = await Promise.all([reloader.reload(), reloader.reload()]);
+
+		expect(results).toEqual([
+			{ status: "applied", changed: ["debug"] },
+			{ status: "unchanged" },
+		]);
+	});
+
+	test("falls back to the defaults for explicitly undefined options", async () => {
+		file = join(dir, "config.yaml");
+		await writeFile(
+			file,
+			"server:\n  host: localhost\n  port: 3000\nfeatures: [alerts]\n",
+		);
+		const reloader = new ConfigReloader({
+			path: file,
+			schema: Config,
+			format: undefined,
+			signal: undefined,
+		});
+
+		expect(await reloader.load()).toEqual(initial);
+
+		await writeFile(
+			file,
+			"server:\n  host: localhost\n  port: 4000\nfeatures: [alerts]\n",
+		);
+		const reloaded = new Promise<ConfigChange<typeof Config.infer>>(
+			(resolve) => {
+				reloader.subscribe(resolve);
+			},
+		);
+		reloader.install();
+		try {
+			process.emit("SIGHUP", "SIGHUP");
+			expect((await reloaded).changed).toEqual(["server.port"]);
+		} finally {
+			reloader.uninstall();
+		}
+	});
+});
+
+/**
+ * Supervises `options.script` in a fresh process. Options named in `unset` are passed as
+ * explicitly undefined, which JSON cannot carry.
+ */
+const SUPERVISOR = `
+import { SignalHandler, Supervisor } from ${JSON.stringify(join(import.meta.dir, "process-signal.ts"))};
+
+const spec = JSON.parse(process.env.SUPERVISOR_SPEC);
+for (const key of spec.unset ?? []) spec.options[key] = undefined;
+new Supervisor(spec.options, new SignalHandler(spec.signalLog)).start();
+`;
+
+describe("Supervisor", () => {
+	let dir: string;
+
+	beforeAll(async () => {
+		dir = await mkdtemp(join(tmpdir(), "supervisor-"));
+		await writeFile(
+			join(dir, "crash.ts"),
+			'console.log("attempt"); console.error("boom"); process.exit(3);',
+		);
+		await writeFile(join(dir, "done.ts"), 'console.log("done");');
+	});
+
+	afterAll(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	const startSupervisor = (
+		options: Record<string, unknown>,
+		unset: string[] = [],
+	) => {
+		const child = Bun.spawn([process.execPath, "--eval", SUPERVISOR], {
+			env: {
+				...process.env,
+				SUPERVISOR_SPEC: JSON.stringify({
+					options: { logDir: dir, echo: false, ...options },
+					unset,
+					signalLog: join(dir, "signals.log"),
+				}),
+			},
+			stdout: "pipe",
+			stderr: "pipe",
+		});
+		children.push(child);
+		const reader = child.stdout.getReader();
+		const decoder = new TextDecoder();
+		let stdout = "";
+
+		const waitFor = async (text: string) => {
+			while (!stdout.includes(text)) {
+				const { done, value } = await reader.read();
+				if (done)
+					throw new Error(`Supervisor exited before printing "${text}"`);
+				stdout += decoder.decode(value, { stream: true });
+			}
+		};
+
+		const finish = async () => {
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				stdout += decoder.decode(value, { stream: true });
+			}
+			const exitCode = await child.exited;
+			const delays = [...stdout.matchAll(/Restarting .+ in (\d+)ms/g)].map(
+				([, delay]) => Number(delay),
+			);
+			return {
+				exitCode,
+				stdout,
+				delays,
+				stderr: await new Response(child.stderr).text(),
+			};
+		};
+
+		return { child, waitFor, finish };
+	};
+
+	test("restarts a crashing child with exponential backoff, then gives up", async () => {
+		const script = join(dir, "crash.ts");
+		const { finish } = startSupervisor({
+			script,
+			initialDelay: 50,
+			maxRestarts: 3,
+		});
+		const { exitCode, delays, stderr } = await finish();
+
+		expect(delays).toEqual([50, 100, 200]);
+		expect(stderr).toContain(`${script} restarted 3 times`);
+		expect(exitCode).toBe(1);
+
+		const logged = async (stream: string) =>
+			(await readFile(join(dir, `crash.${stream}.log`), "utf8"))
+				.trim()
+				.split("\n")
+				.map((line) => line.split(" ").slice(1).join(" "));
+		expect(await logged("out")).toEqual(Array(4).fill("attempt"));
+		expect(await logged("err")).toEqual(Array(4).fill("boom"));
+	}, 20_000);
+
+	test("caps the backoff at maxDelay", async () => {
+		const { finish } = startSupervisor({
+			script: join(dir, "crash.ts"),
+			initialDelay: 50,
+			maxDelay: 120,
+			maxRestarts: 4,
+		});
+		const { exitCode, delays } = await finish();
+
+		expect(delays).toEqual([50, 100, 120, 120]);
+		expect(exitCode).toBe(1);
+	}, 20_000);
+
+	test("leaves a cleanly exited child stopped unless restart is always", async () => {
+		const script = join(dir, "done.ts");
+		// With nothing left to supervise, the supervisor exits on its own
+		const stopped = await startSupervisor({
+			script,
+			initialDelay: 50,
+		}).finish();
+
+		expect(stopped.stdout).toContain(`${script} exited with code 0`);
+		expect(stopped.delays).toEqual([]);
+		expect(stopped.exitCode).toBe(0);
+
+		const restarted = await startSupervisor({
+			script,
+			restart: "always",
+			initialDelay: 50,
+			maxRestarts: 1,
+		}).finish();
+
+		expect(restarted.delays).toEqual([50]);
+		expect(restarted.exitCode).toBe(1);
+	}, 20_000);
+
+	test("falls back to the defaults for explicitly undefined options", async () => {
+		const { finish } = startSupervisor(
+			{ script: join(dir, "crash.ts"), initialDelay: 50, maxRestarts: 1 },
+			["args", "runtime", "restart", "maxDelay", "forwardSignals", "echo"],
+		);
+		const { exitCode, stdout, delays } = await finish();
+
+		expect(delays).toEqual([50]);
+		// echo defaults to true
+		expect(stdout).toContain("[crash.ts] attempt");
+		expect(exitCode).toBe(1);
+	}, 20_000);
+});
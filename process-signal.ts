@@ -21,9 +21,15 @@
  * SOFTWARE.
  */
 
-import { ChildProcess, spawn } from "node:child_process";
+import { type ChildProcess, spawn } from "node:child_process";
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { createInterface } from "node:readline";
+import { isDeepStrictEqual } from "node:util";
+import { ArkErrors } from "arktype";
+import { parse as parseEnv } from "dotenv";
+import { LogLevel } from "./logger.js";
+import { RotatingFileTransport } from "./logger-transports.js";
 
 interface SignalInfo {
 	name: string;
@@ -290,12 +296,47 @@ class SignalHandler {
 	private logFile: string;
 	private handlers: Map<NodeJS.Signals, (signal: NodeJS.Signals) => void> =
 		new Map();
+	private shutdownManager: ShutdownManager;
+	private configReloaders: Set<ConfigReloader<unknown>> = new Set();
+	private statusReporters: Set<() => string[]> = new Set();
 
-	constructor(logFile?: string) {
+	constructor(logFile?: string, shutdownManager = new ShutdownManager()) {
 		this.logFile = logFile || path.join(process.cwd(), "signal_handler.log");
+		this.shutdownManager = shutdownManager;
+		this.shutdownManager.register(
+			"signal-handlers",
+			() => this.removeHandlers(),
+			{ priority: Number.MIN_SAFE_INTEGER },
+		);
 		this.setupHandlers();
 	}
 
+	/**
+	 * Reload the given configuration on SIGHUP and SIGUSR2
+	 */
+	public watchConfig(reloader: ConfigReloader<unknown>): this {
+		this.configReloaders.add(reloader);
+		return this;
+	}
+
+	/**
+	 * Add lines to the status report printed on SIGUSR1
+	 * @returns A function that removes the reporter
+	 */
+	public addStatusReporter(reporter: () => string[]): () => void {
+		this.statusReporters.add(reporter);
+		return () => {
+			this.statusReporters.delete(reporter);
+		};
+	}
+
+	/**
+	 * The shutdown manager run on terminating signals; register cleanup hooks on it
+	 */
+	public get shutdown(): ShutdownManager {
+		return this.shutdownManager;
+	}
+
 	private setupHandlers(): void {
 		const catchableSignals: NodeJS.Signals[] = [
 			"SIGHUP",
@@ -419,13 +460,8 @@ class SignalHandler {
 
 		switch (signal) {
 			case "SIGINT":
-				console.log("🛑 Graceful shutdown initiated...");
-				this.gracefulShutdown();
-				break;
-
 			case "SIGTERM":
-				console.log("🔚 Termination requested...");
-				this.gracefulShutdown();
+				this.shutdownManager.handleSignal(signal);
 				break;
 
 			case "SIGUSR1":
@@ -433,6 +469,7 @@ class SignalHandler {
 				this.printStatus();
 				break;
 
+			case "SIGHUP":
 			case "SIGUSR2":
 				console.log("🔄 Configuration reload requested");
 				this.reloadConfiguration();
@@ -449,15 +486,16 @@ class SignalHandler {
 			default:
 				if (info.terminates) {
 					console.log(`⚠️  Fatal signal received. Preparing for shutdown...`);
-					this.gracefulShutdown(1);
+					this.gracefulShutdown(signal, 1);
 				}
 		}
 	}
 
-	private gracefulShutdown(exitCode: number = 0): void {
-		console.log("🧹 Performing cleanup...");
+	private gracefulShutdown(reason: string, exitCode: number = 0): void {
+		void this.shutdownManager.shutdown(reason, exitCode);
+	}
 
-		// Cleanup handlers
+	private removeHandlers(): void {
 		this.handlers.forEach((handler, signal) => {
 			try {
 				process.removeListener(signal, handler);
@@ -465,9 +503,7 @@ class SignalHandler {
 				console.warn(`Warning: Could not remove handler for ${signal}`);
 			}
 		});
-
-		console.log("✅ Cleanup completed. Exiting...");
-		process.exit(exitCode);
+		this.handlers.clear();
 	}
 
 	private printStatus(): void {
@@ -477,10 +513,22 @@ class SignalHandler {
 		console.log(`   Uptime: ${Math.floor(process.uptime())}s`);
 		console.log(`   Memory: ${Math.round(usage.rss / 1024 / 1024)}MB RSS`);
 		console.log(`   Heap Used: ${Math.round(usage.heapUsed / 1024 / 1024)}MB`);
+		this.statusReporters.forEach((reporter) => {
+			for (const line of reporter()) {
+				console.log(`   ${line}`);
+			}
+		});
 	}
 
 	private reloadConfiguration(): void {
-		console.log("🔄 Configuration reload not implemented in this example");
+		if (this.configReloaders.size === 0) {
+			console.log("🔄 No configuration registered for reloading");
+			return;
+		}
+
+		this.configReloaders.forEach((reloader) => {
+			void reloader.reload();
+		});
 	}
 
 	public static getSignalInfo(
@@ -509,6 +557,792 @@ class SignalHandler {
 	}
 }
 
+/**
+ * A cleanup function run during shutdown
+ */
+type ShutdownHook = () => void | Promise<void>;
+
+interface ShutdownHookOptions {
+	/** Hooks with a higher priority run first; equal priorities run in registration order (default: 0) */
+	priority?: number;
+	/** Milliseconds the hook may take before it is abandoned (default: the manager's `hookTimeout`) */
+	timeout?: number;
+}
+
+interface ShutdownManagerOptions {
+	/** Signals that start a graceful shutdown when `install()` is called (default: SIGINT, SIGTERM) */
+	signals?: NodeJS.Signals[];
+	/** Global deadline in milliseconds after which the process is force-exited (default: 30s) */
+	timeout?: number;
+	/** Default per-hook timeout in milliseconds (default: 5s) */
+	hookTimeout?: number;
+	/** Shut down with exit code 1 on uncaught exceptions (default: true) */
+	handleUncaughtException?: boolean;
+	/** Ends the process once shutdown completes (default: `process.exit`) */
+	exit?: (code: number) => void;
+}
+
+interface RegisteredHook {
+	name: string;
+	hook: ShutdownHook;
+	priority: number;
+	timeout: number;
+	order: number;
+}
+
+/**
+ * Runs named async cleanup hooks in priority order when the process is asked to stop.
+ *
+ * Each hook gets its own timeout, and failing or hanging hooks are logged and skipped so
+ * the rest still run. If the whole shutdown exceeds the global deadline the process is
+ * force-exited with code 1, and a second Ctrl-C during shutdown exits immediately.
+ * Signal exits use the conventional `128 + signal number` code (130 for SIGINT).
+ *
+ * @example
+ * const shutdown = new ShutdownManager({ timeout: 10_000 }).install();
+ * shutdown.register("http-server", () => server.stop(), { priority: 100 });
+ * shutdown.register("database", () => db.close(), { timeout: 2_000 });
+ */
+class ShutdownManager {
+	private readonly hooks: RegisteredHook[] = [];
+	private readonly options: Required<ShutdownManagerOptions>;
+	private readonly listeners = new Map<
+		NodeJS.Signals | "uncaughtException",
+		NodeJS.SignalsListener | NodeJS.UncaughtExceptionListener
+	>();
+	private running?: Promise<void>;
+	private registrations = 0;
+
+	constructor(options: ShutdownManagerOptions = {}) {
+		// Explicitly undefined options fall back to the defaults too
+		this.options = {
+			signals: options.signals ?? ["SIGINT", "SIGTERM"],
+			timeout: options.timeout ?? 30_000,
+			hookTimeout: options.hookTimeout ?? 5_000,
+			handleUncaughtException: options.handleUncaughtException ?? true,
+			exit: options.exit ?? ((code) => process.exit(code)),
+		};
+	}
+
+	/**
+	 * Whether a shutdown is in progress
+	 */
+	public get isShuttingDown(): boolean {
+		return this.running !== undefined;
+	}
+
+	/**
+	 * Register a cleanup hook
+	 * @returns A function that unregisters the hook
+	 */
+	public register(
+		name: string,
+		hook: ShutdownHook,
+		options: ShutdownHookOptions = {},
+	): () => void {
+		const entry: RegisteredHook = {
+			name,
+			hook,
+			priority: options.priority ?? 0,
+			timeout: options.timeout ?? this.options.hookTimeout,
+			order: this.registrations++,
+		};
+		this.hooks.push(entry);
+
+		return () => {
+			const index = this.hooks.indexOf(entry);
+			if (index !== -1) this.hooks.splice(index, 1);
+		};
+	}
+
+	/**
+	 * Listen for the configured signals and, optionally, uncaught exceptions
+	 */
+	public install(): this {
+		for (const signal of this.options.signals) {
+			const listener = () => this.handleSignal(signal);
+			this.listeners.set(signal, listener);
+			process.on(signal, listener);
+		}
+
+		if (this.options.handleUncaughtException) {
+			const listener = (error: Error) => {
+				console.error("💥 Uncaught exception:", error);
+				void this.shutdown("uncaughtException", 1);
+			};
+			this.listeners.set("uncaughtException", listener);
+			process.on("uncaughtException", listener);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Stop listening for signals and uncaught exceptions
+	 */
+	public uninstall(): void {
+		this.listeners.forEach((listener, event) => {
+			process.removeListener(event, listener);
+		});
+		this.listeners.clear();
+	}
+
+	/**
+	 * React to a terminating signal: start the shutdown, or abort it on a second SIGINT
+	 */
+	public handleSignal(signal: NodeJS.Signals): void {
+		if (this.isShuttingDown) {
+			if (signal === "SIGINT") {
+				this.abort("Second interrupt received", 130);
+			} else {
+				console.log(`⏳ ${signal} ignored, shutdown already in progress`);
+			}
+			return;
+		}
+
+		const info = SignalHandler.getSignalInfo(signal);
+		console.log(`🛑 ${signal} received, shutting down gracefully...`);
+		void this.shutdown(signal, info ? 128 + info.number : 1);
+	}
+
+	/**
+	 * Run every registered hook in priority order, then exit with the given code.
+	 * Calling it again while a shutdown is running returns the running shutdown.
+	 */
+	public shutdown(reason: string, exitCode: number = 0): Promise<void> {
+		this.running ??= this.run(reason, exitCode);
+		return this.running;
+	}
+
+	/**
+	 * Exit immediately, skipping any hooks that have not run yet
+	 */
+	public abort(reason: string, exitCode: number = 1): void {
+		console.error(`🚨 ${reason}, exiting immediately`);
+		this.options.exit(exitCode);
+	}
+
+	private async run(reason: string, exitCode: number): Promise<void> {
+		console.log(`🧹 Performing cleanup (${reason})...`);
+
+		const deadline = setTimeout(() => {
+			this.abort(`Shutdown did not finish within ${this.options.timeout}ms`, 1);
+		}, this.options.timeout);
+
+		const ordered = [...this.hooks].sort(
+			(a, b) => b.priority - a.priority || a.order - b.order,
+		);
+
+		let failed = false;
+		for (const entry of ordered) {
+			try {
+				await this.runHook(entry);
+			} catch (error) {
+				failed = true;
+				console.error(`❌ Shutdown hook "${entry.name}" failed:`, error);
+			}
+		}
+
+		clearTimeout(deadline);
+		this.uninstall();
+
+		console.log(
+			failed
+				? "⚠️  Cleanup finished with errors. Exiting..."
+				: "✅ Cleanup completed. Exiting...",
+		);
+		this.options.exit(exitCode);
+	}
+
+	private async runHook(entry: RegisteredHook): Promise<void> {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(
+				() =>
+					reject(
+						new Error(
+							`Shutdown hook "${entry.name}" timed out after ${entry.timeout}ms`,
+						),
+					),
+				entry.timeout,
+			);
+		});
+
+		try {
+			await Promise.race([Promise.resolve().then(entry.hook), timeout]);
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+}
+
+/**
+ * Validates parsed configuration. Plain functions throw on invalid input; ArkType types
+ * (which return their errors) can be passed as-is.
+ */
+type ConfigSchema<T> = (data: unknown) => T | ArkErrors;
+
+type ConfigFormat = "json" | "yaml" | "env";
+
+interface ConfigReloaderOptions<T> {
+	/** Path of the configuration file */
+	path: string;
+	/** Validates the parsed file */
+	schema: ConfigSchema<T>;
+	/** File format (default: inferred from the file name) */
+	format?: ConfigFormat;
+	/** Signal that triggers a reload when `install()` is called (default: SIGHUP) */
+	signal?: NodeJS.Signals;
+}
+
+interface ConfigChange<T> {
+	/** Dotted paths of the keys whose values changed, e.g. `twitch.channelName` */
+	changed: string[];
+	/** The configuration now in effect */
+	current: T;
+	/** The configuration before the change */
+	previous: T;
+}
+
+type ConfigListener<T> = (change: ConfigChange<T>) => void | Promise<void>;
+
+type ReloadResult =
+	| { status: "applied"; changed: string[] }
+	| { status: "unchanged" }
+	| { status: "rejected"; error: Error }
+	| { status: "rolled-back"; error: Error };
+
+/**
+ * Lists the dotted paths at which two configurations differ. Objects are compared key by
+ * key; arrays and other values are compared as a whole.
+ */
+const diffConfig = (
+	previous: unknown,
+	next: unknown,
+	prefix = "",
+): string[] => {
+	const isObject = (value: unknown): value is Record<string, unknown> =>
+		typeof value === "object" && value !== null && !Array.isArray(value);
+
+	if (!isObject(previous) || !isObject(next)) {
+		return isDeepStrictEqual(previous, next) ? [] : [prefix];
+	}
+
+	const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+	return [...keys].flatMap((key) =>
+		diffConfig(previous[key], next[key], prefix ? `${prefix}.${key}` : key),
+	);
+};
+
+/**
+ * Keeps a validated configuration in memory and reloads it from disk on demand or on SIGHUP.
+ *
+ * A reload re-reads the JSON, YAML or .env file and validates it against the schema. If
+ * reading or validation fails, the current configuration stays in effect and the reason is
+ * logged. Otherwise subscribers are told which keys changed; if one of them throws, the
+ * change is rolled back and the subscribers already notified are told about the reversal.
+ *
+ * @example
+ * const config = new ConfigReloader({
+ *   path: "./config.yaml",
+ *   schema: type({ port: "number", "debug?": "boolean" }),
+ * });
+ * await config.load();
+ * config.subscribe(({ changed, current }) => {
+ *   if (changed.includes("port")) server.reload({ port: current.port });
+ * });
+ * config.install(); // kill -HUP <pid> to reload
+ */
+class ConfigReloader<T> {
+	private readonly options: Required<ConfigReloaderOptions<T>>;
+	private readonly listeners = new Set<ConfigListener<T>>();
+	private config?: T;
+	private pending: Promise<ReloadResult> = Promise.resolve({
+		status: "unchanged",
+	});
+	private signalListener?: () => void;
+	private revision = 0;
+
+	constructor(options: ConfigReloaderOptions<T>) {
+		this.options = {
+			...options,
+			format: options.format ?? ConfigReloader.inferFormat(options.path),
+			signal: options.signal ?? "SIGHUP",
+		};
+	}
+
+	/**
+	 * The configuration currently in effect
+	 * @throws {Error} If `load()` has not completed yet
+	 */
+	public get current(): T {
+		if (this.config === undefined) {
+			throw new Error(
+				`Configuration ${this.options.path} has not been loaded yet`,
+			);
+		}
+		return this.config;
+	}
+
+	/**
+	 * Read and validate the configuration for the first time
+	 * @throws {Error} If the file cannot be read or is invalid
+	 */
+	public async load(): Promise<T> {
+		this.config = await this.read();
+		return this.config;
+	}
+
+	/**
+	 * Be notified after each reload that changed at least one key
+	 * @returns A function that unsubscribes the listener
+	 */
+	public subscribe(listener: ConfigListener<T>): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Reload the configuration from disk. Concurrent calls are queued so reloads never overlap.
+	 */
+	public reload(): Promise<ReloadResult> {
+		this.pending = this.pending.then(() => this.apply());
+		return this.pending;
+	}
+
+	/**
+	 * Reload whenever the configured signal is received
+	 */
+	public install(): this {
+		if (!this.signalListener) {
+			this.signalListener = () => {
+				console.log(
+					`🔄 ${this.options.signal} received, reloading ${this.options.path}`,
+				);
+				void this.reload();
+			};
+			process.on(this.options.signal, this.signalListener);
+		}
+		return this;
+	}
+
+	/**
+	 * Stop reloading on the configured signal
+	 */
+	public uninstall(): void {
+		if (this.signalListener) {
+			process.removeListener(this.options.signal, this.signalListener);
+			this.signalListener = undefined;
+		}
+	}
+
+	private async apply(): Promise<ReloadResult> {
+		// Resolving instead of throwing keeps the queue in `reload()` going
+		if (this.config === undefined) {
+			const error = new Error(
+				`Configuration ${this.options.path} has not been loaded yet`,
+			);
+			console.error(`❌ Configuration reload rejected: ${error.message}`);
+			return { status: "rejected", error };
+		}
+		const previous = this.config;
+
+		let next: T;
+		try {
+			next = await this.read();
+		} catch (error) {
+			const reason = error instanceof Error ? error : new Error(String(error));
+			console.error(
+				`❌ Configuration reload rejected, keeping the current configuration: ${reason.message}`,
+			);
+			return { status: "rejected", error: reason };
+		}
+
+		const changed = diffConfig(previous, next);
+		if (changed.length === 0) {
+			console.log("🔄 Configuration reloaded, nothing changed");
+			return { status: "unchanged" };
+		}
+
+		this.config = next;
+		const notified: ConfigListener<T>[] = [];
+		try {
+			for (const listener of this.listeners) {
+				notified.push(listener);
+				await listener({ changed, current: next, previous });
+			}
+		} catch (error) {
+			const reason = error instanceof Error ? error : new Error(String(error));
+			console.error(
+				`❌ Applying the new configuration failed, rolling back: ${reason.message}`,
+			);
+
+			this.config = previous;
+			// The listener that threw is told as well, it may have applied part of the change
+			for (const listener of notified) {
+				try {
+					await listener({ changed, current: previous, previous: next });
+				} catch (rollbackError) {
+					console.error("❌ Configuration rollback failed:", rollbackError);
+				}
+			}
+			return { status: "rolled-back", error: reason };
+		}
+
+		console.log(`✅ Configuration reloaded, changed: ${changed.join(", ")}`);
+		return { status: "applied", changed };
+	}
+
+	private async read(): Promise<T> {
+		const { path: file, format, schema } = this.options;
+		let data: unknown;
+
+		switch (format) {
+			case "json":
+				data = JSON.parse(await fs.promises.readFile(file, "utf8"));
+				break;
+			case "env":
+				data = parseEnv(await fs.promises.readFile(file, "utf8"));
+				break;
+			case "yaml": {
+				// Bun parses YAML natively on import; the query string bypasses the module cache
+				const specifier = `${path.resolve(file)}?reload=${this.revision++}`;
+				data = ((await import(specifier)) as { default: unknown }).default;
+				break;
+			}
+		}
+
+		const result = schema(data);
+		if (result instanceof ArkErrors) {
+			throw new Error(`Invalid configuration: ${result.summary}`);
+		}
+		return result;
+	}
+
+	private static inferFormat(file: string): ConfigFormat {
+		const name = path.basename(file).toLowerCase();
+		if (name.endsWith(".yaml") || name.endsWith(".yml")) return "yaml";
+		if (name.startsWith(".env") || name.endsWith(".env")) return "env";
+		return "json";
+	}
+}
+
+interface SupervisorOptions {
+	/** Script to run, e.g. `twitch-alert.ts` */
+	script: string;
+	/** Arguments passed to the script */
+	args?: string[];
+	/** Working directory of the child (default: the current directory) */
+	cwd?: string;
+	/** Environment of the child (default: the supervisor's environment) */
+	env?: NodeJS.ProcessEnv;
+	/** Executable running the script (default: the current Bun/Node executable) */
+	runtime?: string;
+	/** Restart after any exit, or only after crashes (default: "on-failure") */
+	restart?: "always" | "on-failure";
+	/** Delay before the first restart in milliseconds, doubled per consecutive crash (default: 1s) */
+	initialDelay?: number;
+	/** Upper bound of the restart delay in milliseconds (default: 60s) */
+	maxDelay?: number;
+	/** Give up after this many restarts within `restartWindow` (default: 5) */
+	maxRestarts?: number;
+	/** Sliding window for `maxRestarts` in milliseconds (default: 60s) */
+	restartWindow?: number;
+	/** A child running this long is considered healthy and resets the backoff (default: 30s) */
+	stableAfter?: number;
+	/** Milliseconds to wait for the child to exit on shutdown before it is killed (default: 10s) */
+	stopTimeout?: number;
+	/** Signals relayed to the child besides the shutdown signals (default: SIGHUP, SIGUSR2) */
+	forwardSignals?: NodeJS.Signals[];
+	/** Directory of the rotating stdout/stderr logs (default: ./logs) */
+	logDir?: string;
+	/** Size in bytes after which a log is rotated (default: 10 MB) */
+	logMaxSize?: number;
+	/** Number of rotated logs to keep per stream (default: 7) */
+	logMaxFiles?: number;
+	/** Also print the child's output on the supervisor's console (default: true) */
+	echo?: boolean;
+}
+
+interface SupervisorStatus {
+	state: "idle" | "running" | "backoff" | "stopping" | "stopped" | "failed";
+	pid?: number;
+	startedAt?: Date;
+	restarts: number;
+	lastExit?: { code: number | null; signal: NodeJS.Signals | null; at: Date };
+	nextRestartAt?: Date;
+}
+
+/**
+ * Keeps a long-running script alive: spawns it as a child process, restarts it with
+ * exponential backoff when it crashes, and gives up once it restarts more than
+ * `maxRestarts` times within `restartWindow`.
+ *
+ * The child's stdout and stderr go to rotating files in `logDir`. Shutdown signals run
+ * through the SignalHandler's shutdown manager, which stops the child before exiting;
+ * other configured signals are relayed as-is. SIGUSR1 prints the child's status.
+ *
+ * @example
+ * new Supervisor({ script: "twitch-alert.ts", args: ["./config.json"] }).start();
+ */
+class Supervisor {
+	private readonly options: Required<Omit<SupervisorOptions, "cwd" | "env">> &
+		Pick<SupervisorOptions, "cwd" | "env">;
+	private readonly signalHandler: SignalHandler;
+	private readonly logs: {
+		stdout: RotatingFileTransport;
+		stderr: RotatingFileTransport;
+	};
+	private readonly forwarders = new Map<NodeJS.Signals, () => void>();
+	private child?: ChildProcess;
+	private restartTimer?: ReturnType<typeof setTimeout>;
+	private restartTimes: number[] = [];
+	private consecutiveCrashes = 0;
+	private state: SupervisorStatus = { state: "idle", restarts: 0 };
+
+	constructor(options: SupervisorOptions, signalHandler = new SignalHandler()) {
+		// Explicitly undefined options fall back to the defaults too
+		this.options = {
+			...options,
+			args: options.args ?? [],
+			runtime: options.runtime ?? process.execPath,
+			restart: options.restart ?? "on-failure",
+			initialDelay: options.initialDelay ?? 1_000,
+			maxDelay: options.maxDelay ?? 60_000,
+			maxRestarts: options.maxRestarts ?? 5,
+			restartWindow: options.restartWindow ?? 60_000,
+			stableAfter: options.stableAfter ?? 30_000,
+			stopTimeout: options.stopTimeout ?? 10_000,
+			forwardSignals: options.forwardSignals ?? ["SIGHUP", "SIGUSR2"],
+			logDir: options.logDir ?? path.join(process.cwd(), "logs"),
+			logMaxSize: options.logMaxSize ?? 10 * 1024 * 1024,
+			logMaxFiles: options.logMaxFiles ?? 7,
+			echo: options.echo ?? true,
+		};
+		this.signalHandler = signalHandler;
+
+		const name = path.basename(options.script).replace(/\.[cm]?[jt]s$/, "");
+		const logFile = (stream: string) =>
+			new RotatingFileTransport({
+				path: path.join(this.options.logDir, `${name}.${stream}.log`),
+				maxSize: this.options.logMaxSize,
+				maxFiles: this.options.logMaxFiles,
+				formatter: (record) =>
+					`${record.timestamp.toISOString()} ${record.message}`,
+			});
+		this.logs = { stdout: logFile("out"), stderr: logFile("err") };
+
+		this.signalHandler.shutdown.register(
+			"supervised-child",
+			() => this.stop(),
+			{ priority: 100, timeout: this.options.stopTimeout + 1_000 },
+		);
+		this.signalHandler.addStatusReporter(() => this.describeStatus());
+	}
+
+	/**
+	 * Current state of the supervised child
+	 */
+	public get status(): SupervisorStatus {
+		return { ...this.state, pid: this.child?.pid };
+	}
+
+	/**
+	 * Spawn the child and start relaying signals to it
+	 */
+	public start(): this {
+		for (const signal of this.options.forwardSignals) {
+			const forward = () => {
+				this.child?.kill(signal);
+			};
+			this.forwarders.set(signal, forward);
+			process.on(signal, forward);
+		}
+
+		this.spawnChild();
+		return this;
+	}
+
+	/**
+	 * Stop the child with SIGTERM, killing it if it does not exit within `stopTimeout`,
+	 * and cancel any pending restart
+	 */
+	public async stop(): Promise<void> {
+		clearTimeout(this.restartTimer);
+		this.forwarders.forEach((forward, signal) => {
+			process.removeListener(signal, forward);
+		});
+		this.forwarders.clear();
+
+		const child = this.child;
+		if (!child || child.exitCode !== null || child.signalCode !== null) {
+			this.state = { ...this.state, state: "stopped" };
+			await this.closeLogs();
+			return;
+		}
+
+		this.state = { ...this.state, state: "stopping" };
+		const exited = new Promise<void>((resolve) => child.once("exit", resolve));
+		child.kill("SIGTERM");
+
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timedOut = new Promise<boolean>((resolve) => {
+			timer = setTimeout(() => resolve(true), this.options.stopTimeout);
+		});
+		if (await Promise.race([exited.then(() => false), timedOut])) {
+			console.warn(
+				`⚠️  ${this.options.script} did not exit within ${this.options.stopTimeout}ms, killing it`,
+			);
+			child.kill("SIGKILL");
+			await exited;
+		}
+		clearTimeout(timer);
+		await this.closeLogs();
+	}
+
+	private spawnChild(): void {
+		const { runtime, script, args, cwd, env } = this.options;
+		const child = spawn(runtime, [script, ...args], {
+			cwd,
+			env,
+			stdio: ["ignore", "pipe", "pipe"],
+		});
+		this.child = child;
+		this.state = {
+			state: "running",
+			startedAt: new Date(),
+			restarts: this.state.restarts,
+			lastExit: this.state.lastExit,
+		};
+		console.log(`🚀 Started ${script} (PID: ${child.pid})`);
+
+		this.capture(child, "stdout");
+		this.capture(child, "stderr");
+
+		child.once("error", (error) => {
+			console.error(`❌ Failed to start ${script}:`, error);
+		});
+		child.once("close", (code, signal) => this.handleExit(code, signal));
+	}
+
+	private capture(child: ChildProcess, stream: "stdout" | "stderr"): void {
+		const input = child[stream];
+		if (!input) return;
+
+		const isError = stream === "stderr";
+		createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY }).on(
+			"line",
+			(line) => {
+				this.logs[stream].write({
+					timestamp: new Date(),
+					level: isError ? "error" : "info",
+					severity: isError ? LogLevel.ERROR : LogLevel.INFO,
+					context: this.options.script,
+					message: line,
+					isServer: true,
+				});
+				if (this.options.echo) {
+					(isError ? process.stderr : process.stdout).write(
+						`[${path.basename(this.options.script)}] ${line}\n`,
+					);
+				}
+			},
+		);
+	}
+
+	private handleExit(code: number | null, signal: NodeJS.Signals | null): void {
+		const now = Date.now();
+		const startedAt = this.state.startedAt?.getTime() ?? now;
+		this.state = {
+			...this.state,
+			lastExit: { code, signal, at: new Date(now) },
+		};
+
+		if (this.state.state === "stopping" || this.state.state === "stopped") {
+			this.state = { ...this.state, state: "stopped" };
+			console.log(`🔚 ${this.options.script} stopped`);
+			return;
+		}
+
+		const crashed = code !== 0;
+		console.log(
+			`${crashed ? "💥" : "🔚"} ${this.options.script} exited with ${signal ?? `code ${code}`}`,
+		);
+		if (!crashed && this.options.restart === "on-failure") {
+			this.state = { ...this.state, state: "stopped" };
+			return;
+		}
+
+		if (now - startedAt >= this.options.stableAfter) {
+			this.consecutiveCrashes = 0;
+		}
+		this.consecutiveCrashes++;
+
+		this.restartTimes = this.restartTimes.filter(
+			(time) => now - time < this.options.restartWindow,
+		);
+		if (this.restartTimes.length >= this.options.maxRestarts) {
+			this.state = { ...this.state, state: "failed" };
+			console.error(
+				`❌ ${this.options.script} restarted ${this.restartTimes.length} times within ${this.options.restartWindow}ms, giving up`,
+			);
+			void this.signalHandler.shutdown.shutdown("supervised child failed", 1);
+			return;
+		}
+
+		const delay = Math.min(
+			this.options.maxDelay,
+			this.options.initialDelay * 2 ** (this.consecutiveCrashes - 1),
+		);
+		this.state = {
+			...this.state,
+			state: "backoff",
+			nextRestartAt: new Date(now + delay),
+		};
+		console.log(`🔄 Restarting ${this.options.script} in ${delay}ms...`);
+
+		this.restartTimer = setTimeout(() => {
+			this.restartTimes.push(Date.now());
+			this.state = {
+				...this.state,
+				restarts: this.state.restarts + 1,
+				nextRestartAt: undefined,
+			};
+			this.spawnChild();
+		}, delay);
+	}
+
+	private describeStatus(): string[] {
+		const { state, pid, startedAt, restarts, lastExit, nextRestartAt } =
+			this.status;
+		const lines = [
+			`Supervised: ${this.options.script} (${state})`,
+			`   Child PID: ${pid ?? "-"}`,
+			`   Restarts: ${restarts}`,
+		];
+		if (state === "running" && startedAt) {
+			lines.push(
+				`   Child Uptime: ${Math.floor((Date.now() - startedAt.getTime()) / 1000)}s`,
+			);
+		}
+		if (lastExit) {
+			lines.push(
+				`   Last Exit: ${lastExit.signal ?? `code ${lastExit.code}`} at ${lastExit.at.toISOString()}`,
+			);
+		}
+		if (nextRestartAt) {
+			lines.push(`   Next Restart: ${nextRestartAt.toISOString()}`);
+		}
+		return lines;
+	}
+
+	private async closeLogs(): Promise<void> {
+		await Promise.all([this.logs.stdout.close(), this.logs.stderr.close()]);
+	}
+}
+
 // CLI Interface
 function main(): void {
 	const args = process.argv.slice(2);
@@ -525,12 +1359,17 @@ Options:
   --list, -l          List all available signals
   --info <signal>     Get information about a specific signal
   --log <file>        Specify log file (default: ./signal_handler.log)
+  --config <file>     JSON/YAML/.env file to reload on SIGHUP or SIGUSR2
+  --supervise <script> [-- args]
+                      Run a script as a child process, restarting it when it crashes
   --test              Send test signals to demonstrate handling
 
 Examples:
   ${process.argv[1]} --list
   ${process.argv[1]} --info SIGTERM
   ${process.argv[1]} --log /tmp/signals.log
+  ${process.argv[1]} --config ./config.yaml
+  ${process.argv[1]} --supervise twitch-alert.ts -- ./config.json
   ${process.argv[1]} --test
     `);
 		process.exit(0);
@@ -542,6 +1381,23 @@ Examples:
 
 	const handler = new SignalHandler(logFile);
 
+	const configFile = args.includes("--config")
+		? args[args.indexOf("--config") + 1]
+		: undefined;
+	if (configFile) {
+		const reloader = new ConfigReloader({
+			path: configFile,
+			schema: (data) => data,
+		});
+		reloader.load().then(
+			() => handler.watchConfig(reloader),
+			(error) => {
+				console.error(`❌ Failed to load ${configFile}: ${error}`);
+				process.exit(1);
+			},
+		);
+	}
+
 	if (args.includes("--list") || args.includes("-l")) {
 		handler.listAllSignals();
 		process.exit(0);
@@ -569,6 +1425,23 @@ Examples:
 		process.exit(0);
 	}
 
+	if (args.includes("--supervise")) {
+		const script = args[args.indexOf("--supervise") + 1];
+		if (!script) {
+			console.error("❌ Please specify a script to supervise");
+			process.exit(1);
+		}
+
+		const separator = args.indexOf("--");
+		new Supervisor(
+			{
+				script,
+				args: separator === -1 ? [] : args.slice(separator + 1),
+			},
+			handler,
+		).start();
+	}
+
 	if (args.includes("--test")) {
 		console.log("🧪 Testing signal handling...");
 		console.log("Send signals to this process (PID: " + process.pid + ")");
@@ -580,8 +1453,12 @@ Examples:
 
 	console.log(`🚀 Signal handler started (PID: ${process.pid})`);
 	console.log(`📝 Logging to: ${handler["logFile"]}`);
-	console.log("💡 Send SIGUSR1 for status, SIGUSR2 for config reload");
-	console.log("🛑 Use Ctrl+C or SIGTERM for graceful shutdown");
+	console.log(
+		"💡 Send SIGUSR1 for status, SIGHUP or SIGUSR2 for config reload",
+	);
+	console.log(
+		"🛑 Use Ctrl+C or SIGTERM for graceful shutdown (Ctrl+C twice to force)",
+	);
 
 	// Keep the process alive
 	setInterval(() => {
@@ -593,4 +1470,21 @@ if (require.main === module) {
 	main();
 }
 
-export { SignalHandler, type SignalInfo };
+export {
+	type ConfigChange,
+	type ConfigFormat,
+	type ConfigListener,
+	ConfigReloader,
+	type ConfigReloaderOptions,
+	type ConfigSchema,
+	type ReloadResult,
+	type ShutdownHook,
+	type ShutdownHookOptions,
+	ShutdownManager,
+	type ShutdownManagerOptions,
+	SignalHandler,
+	type SignalInfo,
+	Supervisor,
+	type SupervisorOptions,
+	type SupervisorStatus,
+};
@@ -0,0 +1,216 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	mkdir,
+	mkdtemp,
+	readdir,
+	readFile,
+	rm,
+	writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parse } from "csv-parse/sync";
+import { Algorithms, type Comparator, externalSort } from "./sort-1.js";
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32), so failures reproduce
+ */
+const seededRandom = (seed: number) => () => {
+	seed = (seed + 0x6d2b79f5) | 0;
+	let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+	t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+	return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+};
+
+const countComparisons = (values: number[]) => {
+	let comparisons = 0;
+	const sorted = Algorithms.timSort([...values], (a, b) => {
+		comparisons++;
+		return a - b;
+	});
+	return { comparisons, sorted };
+};
+
+describe("Algorithms.timSort", () => {
+	test("grows as n log n on random input", () => {
+		const random = seededRandom(1);
+		const sizes = [4_096, 16_384, 65_536];
+		const ratios = sizes.map((n) => {
+			const values = Array.from({ length: n }, random);
+			const { comparisons, sorted } = countComparisons(values);
+
+			expect(sorted).toEqual([...values].sort((a, b) => a - b));
+			return comparisons / (n * Math.log2(n));
+		});
+
+		// A quadratic merge pattern makes this ratio grow with n (about 6, 18, 63)
+		for (const ratio of ratios) expect(ratio).toBeLessThan(1.5);
+		expect(ratios[2] / ratios[0]).toBeLessThan(1.1);
+	});
+
+	test("sorts presorted and reversed input in linear time", () => {
+		const n = 65_536;
+		const ascending = Array.from({ length: n }, (_, i) => i);
+
+		expect(countComparisons(ascending).comparisons).toBeLessThan(2 * n);
+		expect(countComparisons([...ascending].reverse()).comparisons).toBeLessThan(
+			2 * n,
+		);
+	});
+
+	test("keeps equal elements in their original order", () => {
+		const random = seededRandom(2);
+		const records = Array.from({ length: 20_000 }, (_, index) => ({
+			key: Math.floor(random() * 50),
+			index,
+		}));
+		const byKey: Comparator<(typeof records)[number]> = (a, b) => a.key - b.key;
+
+		const sorted = Algorithms.timSort([...records], byKey);
+
+		const inOrder = sorted.every(
+			(current, i) =>
+				i === 0 ||
+				sorted[i - 1].key < current.key ||
+				(sorted[i - 1].key === current.key &&
+					sorted[i - 1].index < current.index),
+		);
+		expect(inOrder).toBe(true);
+	});
+});
+
+describe("externalSort", () => {
+	let dir: string;
+	let spillParent: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(join(tmpdir(), "external-sort-test-"));
+		spillParent = join(dir, "spill");
+		await mkdir(spillParent);
+	});
+
+	afterEach(async () => {
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	test("merges hundreds of runs in several passes", async () => {
+		const random = seededRandom(3);
+		const records = Array.from({ length: 3_000 }, (_, index) => ({
+			key: Math.floor(random() * 100),
+			index,
+		}));
+		const input = join(dir, "input.ndjson");
+		const output = join(dir, "output.ndjson");
+		await writeFile(
+			input,
+			`${records.map((record) => JSON.stringify(record)).join("\n")}\n`,
+		);
+
+		const result = await externalSort<(typeof records)[number]>({
+			input,
+			output,
+			key: (record) => record.key,
+			memoryBudget: 1_024,
+			tempDir: spillParent,
+			maxOpenFiles: 3,
+		});
+
+		expect(result.records).toBe(records.length);
+		expect(result.runs).toBeGreaterThan(200);
+		expect(result.mergePasses).toBeGreaterThan(2);
+
+		const sorted = (await readFile(output, "utf8"))
+			.trimEnd()
+			.split("\n")
+			.map((line) => JSON.parse(line) as (typeof records)[number]);
+		// A stable sort by key alone reproduces the (key, index) order
+		expect(sorted).toEqual(
+			[...records].sort((a, b) => a.key - b.key || a.index - b.index),
+		);
+		expect(await readdir(spillParent)).toEqual([]);
+	});
+
+	test("keeps quoted and multiline CSV fields intact", async () => {
+		const rows = [
+			["id", "name", "note"],
+			["3", "Smith, Jane", 'said "hi"'],
+			["1", "Doe", "first line\nsecond line"],
+			["2", "Roe", ""],
+			["1", "Poe", "tie, after Doe"],
+			["0", "Zoe", '"quoted"\r\nand wrapped'],
+		];
+		const csv = rows
+			.map((row) =>
+				row
+					.map((field) =>
+						/[",\r\n]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field,
+					)
+					.join(","),
+			)
+			.join("\n");
+		const input = join(dir, "input.csv");
+		const output = join(dir, "output.csv");
+		await writeFile(input, `${csv}\n`);
+
+		const result = await externalSort({
+			input,
+			output,
+			key: (record) => Number(record.id),
+			memoryBudget: 1,
+			tempDir: spillParent,
+			maxOpenFiles: 2,
+		});
+
+		expect(result).toEqual({ records: 5, runs: 5, mergePasses: 3 });
+		expect(parse(await readFile(output, "utf8"))).toEqual([
+			rows[0],
+			rows[5],
+			rows[2],
+			rows[4],
+			rows[3],
+			rows[1],
+		]);
+		expect(await readdir(spillParent)).toEqual([]);
+	});
+
+	test("sorts input that fits in one chunk without spilling", async () => {
+		const input = join(dir, "input.csv");
+		const output = join(dir, "output.csv");
+		await writeFile(input, 'name,age\nb,2\na,1\nc,"1,5"\n');
+
+		const result = await externalSort({
+			input,
+			output,
+			key: (record) => record.name,
+			tempDir: spillParent,
+		});
+
+		expect(result).toEqual({ records: 3, runs: 0, mergePasses: 0 });
+		expect(await readFile(output, "utf8")).toBe(
+			'name,age\na,1\nb,2\nc,"1,5"\n',
+		);
+		expect(await readdir(spillParent)).toEqual([]);
+	});
+});
@@ -28,6 +28,7 @@
 
 import fs from "node:fs/promises";
 import path from "node:path";
+import { ShutdownManager } from "./process-signal.js";
 
 export const main = async () => {
 	console.log("Starting the script...");
@@ -35,15 +36,12 @@ export const main = async () => {
 };
 export default main;
 
-const shutdown = async () => {
+const shutdown = new ShutdownManager().install();
+shutdown.register("script", async () => {
 	console.log("Shutting down the script...");
-	process.exit(0);
-};
-
-process.on("SIGINT", shutdown);
-process.on("SIGTERM", shutdown);
+});
 
 main().catch((err) => {
 	console.error("Script failed with an error:", err);
-	shutdown();
+	shutdown.shutdown("failure", 1);
 });
@@ -0,0 +1,302 @@
+/**
+ * Copyright (c) 2025 Mike Odnis
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	CronExpression,
+	FakeClock,
+	type JobContext,
+	Scheduler,
+} from "./time-manager.js";
+
+const NEW_YORK = "America/New_York";
+
+/**
+ * A promise with its resolve function, for tasks the test finishes by hand
+ */
+const deferred = () => {
+	let resolve = () => {};
+	const promise = new Promise<void>((done) => {
+		resolve = done;
+	});
+	return { promise, resolve };
+};
+
+const runTimes = (expression: string, from: string, count: number) => {
+	const cron = CronExpression.parse(expression);
+	const times: string[] = [];
+	let after = new Date(from);
+	for (let i = 0; i < count; i++) {
+		const next = cron.next(after, NEW_YORK);
+		if (!next) break;
+		times.push(next.toISOString());
+		after = next;
+	}
+	return times;
+};
+
+describe("CronExpression", () => {
+	test.each([
+		"1,,2 * * * *",
+		",5 * * * *",
+		"5, * * * *",
+		"1- * * * *",
+		"-5 * * * *",
+	])("rejects empty values in %p", (expression) => {
+		expect(() => CronExpression.parse(expression)).toThrow(/empty value/);
+	});
+
+	test("treats day fields starting with * as unrestricted", () => {
+		// Odd days that are also Mondays, not odd days or Mondays
+		const cron = CronExpression.parse("0 0 */2 * MON");
+
+		expect(cron.next(new Date("2025-01-01T12:00:00Z"), "UTC")).toEqual(
+			new Date("2025-01-13T00:00:00Z"),
+		);
+	});
+
+	test("keeps firing through the repeated hour when clocks fall back", () => {
+		expect(runTimes("*/15 * * * *", "2025-11-02T05:40:00Z", 7)).toEqual([
+			"2025-11-02T05:45:00.000Z",
+			"2025-11-02T06:00:00.000Z",
+			"2025-11-02T06:15:00.000Z",
+			"2025-11-02T06:30:00.000Z",
+			"2025-11-02T06:45:00.000Z",
+			"2025-11-02T07:00:00.000Z",
+			"2025-11-02T07:15:00.000Z",
+		]);
+		expect(runTimes("0 * * * *", "2025-11-02T04:30:00Z", 3)).toEqual([
+			"2025-11-02T05:00:00.000Z",
+			"2025-11-02T06:00:00.000Z",
+			"2025-11-02T07:00:00.000Z",
+		]);
+	});
+
+	test("runs fixed times once when clocks fall back", () => {
+		expect(runTimes("30 1 * * *", "2025-11-01T12:00:00Z", 2)).toEqual([
+			"2025-11-02T05:30:00.000Z",
+			"2025-11-03T06:30:00.000Z",
+		]);
+	});
+
+	test("shifts times skipped when clocks spring forward", () => {
+		expect(runTimes("30 2 * * *", "2025-03-08T12:00:00Z", 2)).toEqual([
+			"2025-03-09T07:30:00.000Z",
+			"2025-03-10T06:30:00.000Z",
+		]);
+		expect(runTimes("*/30 * * * *", "2025-03-09T06:00:00Z", 3)).toEqual([
+			"2025-03-09T06:30:00.000Z",
+			"2025-03-09T07:00:00.000Z",
+			"2025-03-09T07:30:00.000Z",
+		]);
+	});
+});
+
+describe("Scheduler", () => {
+	const setup = (start: Date | number = 0) => {
+		const clock = new FakeClock(start);
+		const scheduler = new Scheduler({ clock, random: () => 0.5 });
+		return { clock, scheduler };
+	};
+
+	test("skips runs that come due while the previous one is running", async () => {
+		const { clock, scheduler } = setup();
+		const task = deferred();
+		scheduler.add("report", {
+			schedule: { every: 1_000 },
+			overlap: "skip",
+			task: () => task.promise,
+		});
+
+		await clock.advance(3_000);
+		expect(scheduler.status("report")).toMatchObject({
+			runs: 1,
+			running: 1,
+			skipped: 2,
+		});
+
+		task.resolve();
+		await clock.advance(0);
+		expect(scheduler.status("report")).toMatchObject({ running: 0 });
+		await scheduler.stop();
+	});
+
+	test("queues overlapping runs and starts them one after another", async () => {
+		const { clock, scheduler } = setup();
+		const tasks = [deferred(), deferred(), deferred()];
+		const started: number[] = [];
+		scheduler.add("sync", {
+			schedule: { every: 1_000 },
+			overlap: "queue",
+			task: ({ scheduledAt }: JobContext) => {
+				started.push(scheduledAt.getTime());
+				return tasks[started.length - 1].promise;
+			},
+		});
+
+		await clock.advance(3_000);
+		expect(started).toEqual([1_000]);
+		expect(scheduler.status("sync")).toMatchObject({ running: 1, queued: 2 });
+
+		tasks[0].resolve();
+		await clock.advance(0);
+		expect(started).toEqual([1_000, 2_000]);
+
+		tasks[1].resolve();
+		await clock.advance(0);
+		expect(started).toEqual([1_000, 2_000, 3_000]);
+		expect(scheduler.status("sync")).toMatchObject({ queued: 0 });
+
+		tasks[2].resolve();
+		await scheduler.stop();
+	});
+
+	test("drops queued runs of a removed job", async () => {
+		const { clock, scheduler } = setup();
+		const task = deferred();
+		let started = 0;
+		scheduler.add("sync", {
+			schedule: { every: 1_000 },
+			overlap: "queue",
+			task: () => {
+				started++;
+				return task.promise;
+			},
+		});
+
+		await clock.advance(3_000);
+		expect(scheduler.remove("sync")).toBe(true);
+
+		task.resolve();
+		await clock.advance(5_000);
+		expect(started).toBe(1);
+		await scheduler.stop();
+	});
+
+	test("allows overlapping runs when asked to", async () => {
+		const { clock, scheduler } = setup();
+		const task = deferred();
+		scheduler.add("poll", {
+			schedule: { every: 1_000 },
+			overlap: "allow",
+			task: () => task.promise,
+		});
+
+		await clock.advance(3_000);
+		expect(scheduler.status("poll")).toMatchObject({
+			runs: 3,
+			running: 3,
+			skipped: 0,
+		});
+
+		task.resolve();
+		await clock.advance(0);
+		expect(scheduler.status("poll")).toMatchObject({ running: 0 });
+		await scheduler.stop();
+	});
+
+	test("delays runs by jitter but reports the scheduled time", async () => {
+		const { clock, scheduler } = setup();
+		const runs: Array<{ at: number; scheduledAt: number }> = [];
+		scheduler.add("refresh", {
+			schedule: { every: 10_000 },
+			jitter: 1_000,
+			task: ({ scheduledAt }) => {
+				runs.push({ at: clock.now(), scheduledAt: scheduledAt.getTime() });
+			},
+		});
+
+		await clock.advance(10_499);
+		expect(runs).toEqual([]);
+
+		await clock.advance(1);
+		expect(runs).toEqual([{ at: 10_500, scheduledAt: 10_000 }]);
+
+		await clock.advance(10_000);
+		expect(runs[1]).toEqual({ at: 20_500, scheduledAt: 20_000 });
+		await scheduler.stop();
+	});
+
+	test("does not replay runs missed while paused", async () => {
+		const { clock, scheduler } = setup();
+		const runs: number[] = [];
+		scheduler.add("cleanup", {
+			schedule: { every: 1_000 },
+			task: ({ scheduledAt }) => {
+				runs.push(scheduledAt.getTime());
+			},
+		});
+
+		await clock.advance(1_000);
+		scheduler.pause("cleanup");
+		expect(scheduler.status("cleanup")).toMatchObject({
+			state: "paused",
+			nextRunAt: undefined,
+		});
+
+		await clock.advance(5_000);
+		expect(runs).toEqual([1_000]);
+		expect(clock.pendingCount).toBe(0);
+
+		scheduler.resume("cleanup");
+		expect(scheduler.status("cleanup")?.nextRunAt).toEqual(new Date(7_000));
+
+		await clock.advance(2_000);
+		expect(runs).toEqual([1_000, 7_000, 8_000]);
+		await scheduler.stop();
+	});
+
+	test("follows cron schedules across a fall-back transition", async () => {
+		const { clock, scheduler } = setup(new Date("2025-11-02T04:50:00Z"));
+		const runs: string[] = [];
+		const nightlyRuns: string[] = [];
+		scheduler.add("quarterly", {
+			schedule: "*/30 * * * *",
+			timezone: NEW_YORK,
+			task: ({ scheduledAt }) => {
+				runs.push(scheduledAt.toISOString());
+			},
+		});
+		scheduler.add("nightly", {
+			schedule: "30 1 * * *",
+			timezone: NEW_YORK,
+			task: ({ scheduledAt }) => {
+				nightlyRuns.push(scheduledAt.toISOString());
+			},
+		});
+
+		await clock.advanceTo(new Date("2025-11-02T07:10:00Z"));
+
+		expect(runs).toEqual([
+			"2025-11-02T05:00:00.000Z",
+			"2025-11-02T05:30:00.000Z",
+			"2025-11-02T06:00:00.000Z",
+			"2025-11-02T06:30:00.000Z",
+			"2025-11-02T07:00:00.000Z",
+		]);
+		expect(nightlyRuns).toEqual(["2025-11-02T05:30:00.000Z"]);
+		expect(scheduler.status("nightly")?.nextRunAt).toEqual(
+			new Date("2025-11-03T06:30:00Z"),
+		);
+		await scheduler.stop();
+	});
+});
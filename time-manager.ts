@@ -184,6 +184,781 @@ export class TimerManager {
 	}
 }
 
+/**
+ * Source of time for the Scheduler. Swap in a `FakeClock` to drive schedules deterministically.
+ */
+export interface Clock {
+	/** Current time in epoch milliseconds */
+	now(): number;
+	/** Calls `callback` after `delay` milliseconds; returns a function that cancels it */
+	setTimer(delay: number, callback: () => void): () => void;
+}
+
+/**
+ * Clock backed by real timers, tracked by a TimerManager
+ */
+export class SystemClock implements Clock {
+	constructor(private readonly timers = new TimerManager()) {}
+
+	now(): number {
+		return Date.now();
+	}
+
+	setTimer(delay: number, callback: () => void): () => void {
+		const id = this.timers.timeout(delay, callback);
+		return () => this.timers.clear(id);
+	}
+
+	/**
+	 * Cancels every pending timer
+	 */
+	dispose(): void {
+		this.timers.dispose();
+	}
+}
+
+interface FakeTimer {
+	at: number;
+	order: number;
+	callback: () => void;
+}
+
+/**
+ * Manually advanced clock for tests. Timers fire in time order during `advance`, and
+ * pending promise callbacks are flushed after each one so async jobs settle in between.
+ */
+export class FakeClock implements Clock {
+	private time: number;
+	private timers: FakeTimer[] = [];
+	private created = 0;
+
+	constructor(start: Date | number = 0) {
+		this.time = typeof start === "number" ? start : start.getTime();
+	}
+
+	now(): number {
+		return this.time;
+	}
+
+	setTimer(delay: number, callback: () => void): () => void {
+		const timer = {
+			at: this.time + Math.max(0, delay),
+			order: this.created++,
+			callback,
+		};
+		this.timers.push(timer);
+		return () => {
+			this.timers = this.timers.filter((entry) => entry !== timer);
+		};
+	}
+
+	/**
+	 * Moves time forward, firing every timer that comes due
+	 */
+	async advance(ms: number): Promise<void> {
+		await this.advanceTo(this.time + ms);
+	}
+
+	/**
+	 * Moves time forward to the given instant, firing every timer that comes due
+	 */
+	async advanceTo(target: Date | number): Promise<void> {
+		const end = typeof target === "number" ? target : target.getTime();
+		for (;;) {
+			await FakeClock.flush();
+			const next = this.timers
+				.filter((timer) => timer.at <= end)
+				.sort((a, b) => a.at - b.at || a.order - b.order)[0];
+			if (!next) break;
+
+			this.timers = this.timers.filter((timer) => timer !== next);
+			this.time = Math.max(this.time, next.at);
+			next.callback();
+		}
+		this.time = Math.max(this.time, end);
+		await FakeClock.flush();
+	}
+
+	/**
+	 * Returns the number of timers that have not fired yet
+	 */
+	get pendingCount(): number {
+		return this.timers.length;
+	}
+
+	private static flush(): Promise<void> {
+		return new Promise((resolve) => setImmediate(resolve));
+	}
+}
+
+// --- Cron expressions ---
+
+const CRON_MACROS: Record<string, string> = {
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+	"@monthly": "0 0 1 * *",
+	"@weekly": "0 0 * * 0",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+	"JAN",
+	"FEB",
+	"MAR",
+	"APR",
+	"MAY",
+	"JUN",
+	"JUL",
+	"AUG",
+	"SEP",
+	"OCT",
+	"NOV",
+	"DEC",
+];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/** Years searched for a matching date before an expression is considered unsatisfiable */
+const CRON_SEARCH_YEARS = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses one cron field (`*`, lists, ranges, steps and names) into its sorted values
+ */
+const parseCronField = (
+	field: string,
+	min: number,
+	max: number,
+	names: string[] = [],
+	nameOffset = 0,
+): number[] => {
+	const toNumber = (token: string): number => {
+		// Number("") is 0, which would let "1,,2" or "1-" through
+		if (token === "") {
+			throw new Error(`Invalid cron field "${field}": empty value`);
+		}
+		const index = names.indexOf(token.toUpperCase());
+		const value = index === -1 ? Number(token) : index + nameOffset;
+		if (!Number.isInteger(value) || value < min || value > max) {
+			throw new Error(`Invalid cron value "${token}" (expected ${min}-${max})`);
+		}
+		return value;
+	};
+
+	const values = new Set<number>();
+	for (const part of field.split(",")) {
+		const [range, stepText] = part.split("/");
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid cron step "${part}"`);
+		}
+
+		let start: number;
+		let end: number;
+		if (range === "*") {
+			[start, end] = [min, max];
+		} else if (range.includes("-")) {
+			const [from, to] = range.split("-");
+			[start, end] = [toNumber(from), toNumber(to)];
+			if (start > end) throw new Error(`Invalid cron range "${range}"`);
+		} else {
+			start = toNumber(range);
+			end = stepText === undefined ? start : max;
+		}
+
+		for (let value = start; value <= end; value += step) values.add(value);
+	}
+	return [...values].sort((a, b) => a - b);
+};
+
+/**
+ * Wall-clock formatters per time zone, used to convert instants to local fields
+ */
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns the wall-clock time of an instant in a time zone, encoded as if it were UTC
+ */
+const toWallClock = (instant: number, timeZone: string): number => {
+	let formatter = wallClockFormatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat("en-US", {
+			timeZone,
+			hourCycle: "h23",
+			year: "numeric",
+			month: "numeric",
+			day: "numeric",
+			hour: "numeric",
+			minute: "numeric",
+			second: "numeric",
+		});
+		wallClockFormatters.set(timeZone, formatter);
+	}
+
+	const parts: Record<string, number> = {};
+	for (const { type, value } of formatter.formatToParts(instant)) {
+		parts[type] = Number(value);
+	}
+	return Date.UTC(
+		parts.year,
+		parts.month - 1,
+		parts.day,
+		parts.hour,
+		parts.minute,
+		parts.second,
+	);
+};
+
+/**
+ * Returns the difference between wall-clock time and UTC at an instant
+ */
+const offsetAt = (instant: number, timeZone: string): number =>
+	toWallClock(instant, timeZone) - instant;
+
+/**
+ * Converts a wall-clock time back to instants, in ascending order. Ambiguous times (when
+ * clocks fall back) have two; skipped times (when clocks spring forward) are shifted
+ * forward by the length of the gap.
+ */
+const fromWallClock = (wall: number, timeZone: string): number[] => {
+	const candidates = [
+		wall - offsetAt(wall - DAY_MS, timeZone),
+		wall - offsetAt(wall + DAY_MS, timeZone),
+	];
+
+	const valid = candidates.filter(
+		(instant) => toWallClock(instant, timeZone) === wall,
+	);
+	return valid.length > 0
+		? [...new Set(valid)].sort((a, b) => a - b)
+		: [Math.max(...candidates)];
+};
+
+/**
+ * A parsed 5-field (`minute hour day month weekday`) or 6-field (with leading seconds)
+ * cron expression. Also accepts `@hourly`, `@daily`, `@weekly`, `@monthly` and `@yearly`.
+ *
+ * When both day-of-month and day-of-week are restricted, a day matching either one
+ * matches, as in Vixie cron. A field starting with `*` (e.g. `*\/2`) is not restricted.
+ *
+ * When clocks fall back, expressions with a fixed minute and hour fire once, at the first
+ * occurrence of the repeated time. Expressions whose minute or hour is `*` or a step
+ * keep firing through the repeated hour.
+ *
+ * @example
+ * const weekdayMornings = CronExpression.parse("30 9 * * MON-FRI");
+ * weekdayMornings.next(new Date(), "America/New_York");
+ */
+export class CronExpression {
+	private constructor(
+		readonly source: string,
+		private readonly seconds: number[],
+		private readonly minutes: number[],
+		private readonly hours: number[],
+		private readonly daysOfMonth: Set<number>,
+		private readonly months: Set<number>,
+		private readonly daysOfWeek: Set<number>,
+		private readonly anyDayOfMonth: boolean,
+		private readonly anyDayOfWeek: boolean,
+		private readonly repeatsOnFallBack: boolean,
+	) {}
+
+	/**
+	 * Parses a cron expression, throwing on invalid syntax or out-of-range values
+	 */
+	static parse(expression: string): CronExpression {
+		const source = expression.trim();
+		const fields = (CRON_MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+		if (fields.length === 5) fields.unshift("0");
+		if (fields.length !== 6) {
+			throw new Error(
+				`Invalid cron expression "${expression}": expected 5 or 6 fields`,
+			);
+		}
+
+		const [second, minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+		const isPeriodic = (field: string) =>
+			field.startsWith("*") || field.includes("/");
+		try {
+			return new CronExpression(
+				source,
+				parseCronField(second, 0, 59),
+				parseCronField(minute, 0, 59),
+				parseCronField(hour, 0, 23),
+				new Set(parseCronField(dayOfMonth, 1, 31)),
+				new Set(parseCronField(month, 1, 12, MONTH_NAMES, 1)),
+				// 7 is an alias for Sunday
+				new Set(
+					parseCronField(dayOfWeek, 0, 7, DAY_NAMES).map((day) => day % 7),
+				),
+				dayOfMonth.startsWith("*"),
+				dayOfWeek.startsWith("*"),
+				isPeriodic(minute) || isPeriodic(hour),
+			);
+		} catch (error) {
+			throw new Error(
+				`Invalid cron expression "${expression}": ${(error as Error).message}`,
+			);
+		}
+	}
+
+	/**
+	 * Returns the first matching instant strictly after `after`, or undefined if the
+	 * expression never matches (e.g. February 30th)
+	 *
+	 * @param after - Instant to search from
+	 * @param timeZone - IANA time zone the fields are interpreted in (default: the local zone)
+	 */
+	next(
+		after: Date | number,
+		timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone,
+	): Date | undefined {
+		const afterMs = typeof after === "number" ? after : after.getTime();
+		const first = this.nextInstant(
+			toWallClock(afterMs, timeZone),
+			afterMs,
+			timeZone,
+		);
+		if (first === undefined) return undefined;
+
+		// Clocks fell back before the first match, so the repeated wall-clock times
+		// (earlier than the current one) also lie ahead
+		const laterOffset = offsetAt(first, timeZone);
+		if (this.repeatsOnFallBack && laterOffset < offsetAt(afterMs, timeZone)) {
+			const repeated = this.nextInstant(
+				afterMs + laterOffset,
+				afterMs,
+				timeZone,
+			);
+			if (repeated !== undefined && repeated < first) {
+				return new Date(repeated);
+			}
+		}
+		return new Date(first);
+	}
+
+	/**
+	 * Finds the first instant after `afterMs` whose wall-clock time matches, searching
+	 * wall-clock times from `wall`
+	 */
+	private nextInstant(
+		wall: number,
+		afterMs: number,
+		timeZone: string,
+	): number | undefined {
+		for (;;) {
+			const match = this.nextWallClock(wall);
+			if (match === undefined) return undefined;
+
+			// Fixed times only fire at the first occurrence of a repeated wall-clock time
+			const instants = fromWallClock(match, timeZone);
+			const instant = (
+				this.repeatsOnFallBack ? instants : instants.slice(0, 1)
+			).find((candidate) => candidate > afterMs);
+			if (instant !== undefined) return instant;
+			wall = match;
+		}
+	}
+
+	/**
+	 * Finds the first matching wall-clock time after `wall`, jumping whole fields at a time
+	 */
+	private nextWallClock(wall: number): number | undefined {
+		const date = new Date(Math.floor(wall / 1000) * 1000 + 1000);
+		const lastYear = date.getUTCFullYear() + CRON_SEARCH_YEARS;
+		const nextValue = (values: number[], current: number) =>
+			values.find((value) => value >= current);
+
+		while (date.getUTCFullYear() <= lastYear) {
+			if (!this.months.has(date.getUTCMonth() + 1)) {
+				date.setUTCMonth(date.getUTCMonth() + 1, 1);
+				date.setUTCHours(0, 0, 0, 0);
+				continue;
+			}
+			if (!this.matchesDay(date)) {
+				date.setUTCDate(date.getUTCDate() + 1);
+				date.setUTCHours(0, 0, 0, 0);
+				continue;
+			}
+
+			const hour = nextValue(this.hours, date.getUTCHours());
+			if (hour === undefined) {
+				date.setUTCDate(date.getUTCDate() + 1);
+				date.setUTCHours(0, 0, 0, 0);
+				continue;
+			}
+			if (hour !== date.getUTCHours()) {
+				date.setUTCHours(hour, 0, 0, 0);
+			}
+
+			const minute = nextValue(this.minutes, date.getUTCMinutes());
+			if (minute === undefined) {
+				date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+				continue;
+			}
+			if (minute !== date.getUTCMinutes()) {
+				date.setUTCMinutes(minute, 0, 0);
+			}
+
+			const second = nextValue(this.seconds, date.getUTCSeconds());
+			if (second === undefined) {
+				date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+				continue;
+			}
+			date.setUTCSeconds(second, 0);
+			return date.getTime();
+		}
+
+		return undefined;
+	}
+
+	private matchesDay(date: Date): boolean {
+		const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+		const dayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+		if (this.anyDayOfMonth || this.anyDayOfWeek) {
+			return dayOfMonth && dayOfWeek;
+		}
+		return dayOfMonth || dayOfWeek;
+	}
+}
+
+// --- Scheduler ---
+
+/**
+ * When a job runs: a cron expression, a one-shot date, or a fixed interval in milliseconds
+ */
+export type JobSchedule = string | Date | { every: number };
+
+/**
+ * What to do when a job comes due while its previous run is still in progress
+ */
+export type OverlapPolicy = "skip" | "queue" | "allow";
+
+export interface JobContext {
+	/** Name of the job */
+	name: string;
+	/** Time the run was scheduled for, before jitter */
+	scheduledAt: Date;
+}
+
+export interface JobOptions {
+	schedule: JobSchedule;
+	task: (context: JobContext) => unknown;
+	/** IANA time zone of cron schedules (default: the local zone) */
+	timezone?: string;
+	/** Default: "skip" */
+	overlap?: OverlapPolicy;
+	/** Delays each run by a random amount up to this many milliseconds */
+	jitter?: number;
+	/** Add the job without starting it */
+	paused?: boolean;
+}
+
+export interface JobStatus {
+	name: string;
+	state: "scheduled" | "paused" | "completed";
+	nextRunAt?: Date;
+	lastRunAt?: Date;
+	running: number;
+	queued: number;
+	runs: number;
+	skipped: number;
+	failures: number;
+	lastError?: unknown;
+}
+
+export interface SchedulerOptions {
+	/** Default: a SystemClock */
+	clock?: Clock;
+	/** Source of randomness for jitter (default: Math.random) */
+	random?: () => number;
+	/** Called when a job throws (default: logs to the console) */
+	onError?: (error: unknown, name: string) => void;
+}
+
+interface Job {
+	name: string;
+	options: JobOptions;
+	cron?: CronExpression;
+	state: JobStatus["state"];
+	cancelTimer?: () => void;
+	nextRunAt?: number;
+	lastRunAt?: number;
+	running: number;
+	queue: number[];
+	runs: number;
+	skipped: number;
+	failures: number;
+	lastError?: unknown;
+}
+
+/** Longest delay a timer accepts; longer waits are split into several timers */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Runs named jobs on cron expressions, one-shot dates or fixed intervals.
+ *
+ * Runs missed while the process was busy (or the clock jumped) are skipped rather than
+ * replayed. A one-shot date that is already past when the job is added runs immediately.
+ *
+ * @example
+ * const scheduler = new Scheduler();
+ * scheduler.add("refresh", {
+ *   schedule: "0 6,18 * * *",
+ *   timezone: "Europe/Berlin",
+ *   jitter: 30_000,
+ *   task: () => refreshSources(),
+ * });
+ *
+ * // Deterministic tests
+ * const clock = new FakeClock(new Date("2025-01-01T00:00:00Z"));
+ * const testScheduler = new Scheduler({ clock });
+ * await clock.advance(60 * 60 * 1000);
+ */
+export class Scheduler {
+	private readonly jobs = new Map<string, Job>();
+	private readonly active = new Set<Promise<void>>();
+	private readonly clock: Clock;
+	private readonly random: () => number;
+	private readonly onError: (error: unknown, name: string) => void;
+
+	constructor(options: SchedulerOptions = {}) {
+		this.clock = options.clock ?? new SystemClock();
+		this.random = options.random ?? Math.random;
+		this.onError =
+			options.onError ??
+			((error, name) =>
+				console.error(`[Scheduler] Job "${name}" failed:`, error));
+	}
+
+	/**
+	 * Adds a job and schedules its first run
+	 */
+	add(name: string, options: JobOptions): JobStatus {
+		if (this.jobs.has(name)) {
+			throw new Error(`Job "${name}" already exists`);
+		}
+		const { schedule } = options;
+		if (typeof schedule === "object" && !(schedule instanceof Date)) {
+			if (!(schedule.every > 0)) {
+				throw new Error(`Job "${name}" needs a positive interval`);
+			}
+		}
+
+		const job: Job = {
+			name,
+			options,
+			cron:
+				typeof schedule === "string"
+					? CronExpression.parse(schedule)
+					: undefined,
+			state: options.paused ? "paused" : "scheduled",
+			running: 0,
+			queue: [],
+			runs: 0,
+			skipped: 0,
+			failures: 0,
+		};
+		// Surfaces invalid time zones now rather than on the first run
+		if (job.cron && options.timezone) toWallClock(0, options.timezone);
+
+		this.jobs.set(name, job);
+		if (job.state === "scheduled") this.arm(job, this.clock.now(), true);
+		return this.describe(job);
+	}
+
+	/**
+	 * Removes a job; runs in progress are not interrupted, queued runs are dropped
+	 */
+	remove(name: string): boolean {
+		const job = this.jobs.get(name);
+		if (job) {
+			job.cancelTimer?.();
+			job.queue = [];
+		}
+		return this.jobs.delete(name);
+	}
+
+	/**
+	 * Stops scheduling a job until it is resumed
+	 */
+	pause(name: string): void {
+		const job = this.getJob(name);
+		if (job.state !== "scheduled") return;
+
+		job.cancelTimer?.();
+		job.cancelTimer = undefined;
+		job.nextRunAt = undefined;
+		job.state = "paused";
+	}
+
+	/**
+	 * Resumes a paused job from the current time; runs missed while paused are skipped
+	 */
+	resume(name: string): void {
+		const job = this.getJob(name);
+		if (job.state !== "paused") return;
+
+		job.state = "scheduled";
+		this.arm(job, this.clock.now(), job.runs === 0);
+	}
+
+	/**
+	 * Runs a job now, outside its schedule, honouring its overlap policy
+	 */
+	trigger(name: string): Promise<void> {
+		const job = this.getJob(name);
+		return this.execute(job, this.clock.now());
+	}
+
+	/**
+	 * Returns the status of a job, or undefined if there is no such job
+	 */
+	status(name: string): JobStatus | undefined {
+		const job = this.jobs.get(name);
+		return job && this.describe(job);
+	}
+
+	/**
+	 * Returns the status of every job
+	 */
+	list(): JobStatus[] {
+		return Array.from(this.jobs.values(), (job) => this.describe(job));
+	}
+
+	/**
+	 * Cancels every pending run and waits for the runs in progress to finish
+	 */
+	async stop(): Promise<void> {
+		for (const job of this.jobs.values()) {
+			job.cancelTimer?.();
+			job.cancelTimer = undefined;
+			job.queue = [];
+		}
+		this.jobs.clear();
+		await Promise.allSettled(Array.from(this.active));
+	}
+
+	/**
+	 * Schedules the next run of a job after `after`
+	 */
+	private arm(job: Job, after: number, first = false): void {
+		const now = this.clock.now();
+		let next = this.nextRun(job, after, first);
+		if (next !== undefined && next < now && !first) {
+			next = this.nextRun(job, now, false);
+		}
+		if (next === undefined) {
+			job.state = "completed";
+			job.nextRunAt = undefined;
+			return;
+		}
+
+		job.nextRunAt = next;
+		const jitter = job.options.jitter
+			? Math.floor(this.random() * job.options.jitter)
+			: 0;
+		this.wait(job, next + jitter, () => {
+			job.cancelTimer = undefined;
+			this.arm(job, next);
+			void this.execute(job, next);
+		});
+	}
+
+	/**
+	 * Sets a timer for `at`, chaining timers for delays beyond what a single timer allows
+	 */
+	private wait(job: Job, at: number, callback: () => void): void {
+		const delay = Math.max(0, at - this.clock.now());
+		if (delay > MAX_TIMER_DELAY) {
+			job.cancelTimer = this.clock.setTimer(MAX_TIMER_DELAY, () =>
+				this.wait(job, at, callback),
+			);
+		} else {
+			job.cancelTimer = this.clock.setTimer(delay, callback);
+		}
+	}
+
+	private nextRun(job: Job, after: number, first: boolean): number | undefined {
+		const { schedule, timezone } = job.options;
+		if (job.cron) {
+			return job.cron.next(after, timezone)?.getTime();
+		}
+		if (schedule instanceof Date) {
+			return first ? Math.max(schedule.getTime(), after) : undefined;
+		}
+		return after + (schedule as { every: number }).every;
+	}
+
+	private execute(job: Job, scheduledAt: number): Promise<void> {
+		if (job.running > 0) {
+			switch (job.options.overlap ?? "skip") {
+				case "skip":
+					job.skipped++;
+					return Promise.resolve();
+				case "queue":
+					job.queue.push(scheduledAt);
+					return Promise.resolve();
+				case "allow":
+					break;
+			}
+		}
+
+		job.running++;
+		job.runs++;
+		job.lastRunAt = this.clock.now();
+
+		const run = (async () => {
+			try {
+				await job.options.task({
+					name: job.name,
+					scheduledAt: new Date(scheduledAt),
+				});
+			} catch (error) {
+				job.failures++;
+				job.lastError = error;
+				this.onError(error, job.name);
+			} finally {
+				job.running--;
+			}
+		})();
+
+		this.active.add(run);
+		return run.finally(() => {
+			this.active.delete(run);
+			const queued = job.queue.shift();
+			if (queued !== undefined && job.running === 0) {
+				void this.execute(job, queued);
+			}
+		});
+	}
+
+	private getJob(name: string): Job {
+		const job = this.jobs.get(name);
+		if (!job) throw new Error(`Job "${name}" does not exist`);
+		return job;
+	}
+
+	private describe(job: Job): JobStatus {
+		return {
+			name: job.name,
+			state: job.state,
+			nextRunAt:
+				job.nextRunAt === undefined ? undefined : new Date(job.nextRunAt),
+			lastRunAt:
+				job.lastRunAt === undefined ? undefined : new Date(job.lastRunAt),
+			running: job.running,
+			queued: job.queue.length,
+			runs: job.runs,
+			skipped: job.skipped,
+			failures: job.failures,
+			lastError: job.lastError,
+		};
+	}
+}
+
 export const exitWithCode = (code: number): never => process.exit(code % 2);
 
 /**
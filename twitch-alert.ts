@@ -23,8 +23,11 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { BskyAgent } from "@atproto/api";
+import { type } from "arktype";
 import axios from "axios";
 import { TwitterApi } from "twitter-api-v2";
+import { ConfigReloader } from "./process-signal.js";
+import { Scheduler } from "./time-manager.js";
 
 /**
  * Configuration interface for the Twitch Stream Bot
@@ -64,6 +67,29 @@ interface Config {
 	messageTemplate: string;
 }
 
+/**
+ * Runtime schema of the configuration file, checked on startup and on every reload
+ */
+const configSchema = type({
+	twitch: {
+		clientId: "string > 0",
+		clientSecret: "string > 0",
+		channelName: "string > 0",
+	},
+	twitter: {
+		appKey: "string > 0",
+		appSecret: "string > 0",
+		accessToken: "string > 0",
+		accessSecret: "string > 0",
+	},
+	bluesky: {
+		identifier: "string > 0",
+		password: "string > 0",
+	},
+	checkInterval: "number.integer >= 1000",
+	messageTemplate: "string > 0",
+});
+
 /**
  * Interface representing the current status of a Twitch stream
  * @interface StreamStatus
@@ -98,8 +124,10 @@ interface BotState {
  * @class TwitchStreamBot
  */
 class TwitchStreamBot {
-	/** Bot configuration loaded from config file */
-	private config: Config;
+	/** Bot configuration, reloaded from the config file on SIGHUP */
+	private configReloader: ConfigReloader<Config>;
+	/** Runs the periodic stream checks */
+	private scheduler = new Scheduler();
 	/** Current Twitch API access token */
 	private twitchAccessToken: string = "";
 	/** Twitter API client instance */
@@ -113,43 +141,95 @@ class TwitchStreamBot {
 
 	/**
 	 * Creates an instance of TwitchStreamBot
-	 * @param {string} configPath - Path to the JSON configuration file
-	 * @throws {Error} Throws an error if the configuration file cannot be loaded
+	 * @param {ConfigReloader<Config>} configReloader - The loaded configuration
+	 * @throws {Error} Throws an error if the configuration has not been loaded
 	 */
-	constructor(configPath: string) {
-		this.config = this.loadConfig(configPath);
+	constructor(configReloader: ConfigReloader<Config>) {
+		this.configReloader = configReloader;
 		this.stateFile = path.join(__dirname, "bot-state.json");
 		this.state = this.loadState();
 
 		// Initialize Twitter client
-		this.twitterClient = new TwitterApi({
-			appKey: this.config.twitter.appKey,
-			appSecret: this.config.twitter.appSecret,
-			accessToken: this.config.twitter.accessToken,
-			accessSecret: this.config.twitter.accessSecret,
-		});
+		this.twitterClient = this.createTwitterClient();
 
 		// Initialize Bluesky client
 		this.blueskyAgent = new BskyAgent({
 			service: "https://bsky.social",
 		});
+
+		this.configReloader.subscribe(({ changed }) =>
+			this.applyConfigChange(changed),
+		);
 	}
 
 	/**
-	 * Loads and validates the configuration file
+	 * The configuration currently in effect
 	 * @private
-	 * @param {string} configPath - Path to the configuration file
-	 * @returns {Config} Parsed configuration object
-	 * @throws {Error} Throws an error if the file cannot be read or parsed
+	 * @returns {Config} Configuration object
 	 */
-	private loadConfig(configPath: string): Config {
-		try {
-			const configData = fs.readFileSync(configPath, "utf-8");
-			return JSON.parse(configData);
-		} catch (error) {
-			console.error("Error loading config:", error);
-			throw new Error("Failed to load configuration file");
+	private get config(): Config {
+		return this.configReloader.current;
+	}
+
+	/**
+	 * Creates a Twitter client from the current credentials
+	 * @private
+	 * @returns {TwitterApi} Twitter API client
+	 */
+	private createTwitterClient(): TwitterApi {
+		return new TwitterApi({
+			appKey: this.config.twitter.appKey,
+			appSecret: this.config.twitter.appSecret,
+			accessToken: this.config.twitter.accessToken,
+			accessSecret: this.config.twitter.accessSecret,
+		});
+	}
+
+	/**
+	 * Applies a reloaded configuration. Throwing rolls the reload back.
+	 * @private
+	 * @async
+	 * @param {string[]} changed - Dotted paths of the changed keys
+	 * @returns {Promise<void>}
+	 */
+	private async applyConfigChange(changed: string[]): Promise<void> {
+		const touches = (section: string) =>
+			changed.some((key) => key === section || key.startsWith(`${section}.`));
+
+		if (touches("twitch.clientId") || touches("twitch.clientSecret")) {
+			await this.getTwitchAccessToken();
+		}
+		if (touches("twitch.channelName")) {
+			// The known live status belongs to the previous channel
+			this.state = { lastKnownStatus: false, lastNotificationTime: 0 };
+			this.saveState();
 		}
+		if (touches("twitter")) {
+			this.twitterClient = this.createTwitterClient();
+		}
+		if (touches("bluesky")) {
+			await this.blueskyAgent.login({
+				identifier: this.config.bluesky.identifier,
+				password: this.config.bluesky.password,
+			});
+		}
+		if (touches("checkInterval") && this.scheduler.status("stream-check")) {
+			this.scheduleChecks();
+		}
+	}
+
+	/**
+	 * (Re)starts the periodic stream checks with the configured interval
+	 * @private
+	 */
+	private scheduleChecks(): void {
+		this.scheduler.remove("stream-check");
+		this.scheduler.add("stream-check", {
+			schedule: { every: this.config.checkInterval },
+			// A slow check must not pile up behind the next one
+			overlap: "skip",
+			task: () => this.checkAndNotify(),
+		});
 	}
 
 	/**
@@ -429,9 +509,7 @@ class TwitchStreamBot {
 		await this.checkAndNotify();
 
 		// Set up periodic checks
-		setInterval(() => {
-			this.checkAndNotify();
-		}, this.config.checkInterval);
+		this.scheduleChecks();
 
 		console.log("✅ Bot is running! Press Ctrl+C to stop.");
 	}
@@ -469,7 +547,15 @@ async function main() {
 	const configPath = process.argv[2] || "./config.json";
 
 	try {
-		const bot = new TwitchStreamBot(configPath);
+		const config = new ConfigReloader<Config>({
+			path: configPath,
+			schema: configSchema,
+		});
+		await config.load();
+		// kill -HUP <pid> re-reads the config file without restarting the bot
+		config.install();
+
+		const bot = new TwitchStreamBot(config);
 		await bot.start();
 	} catch (error) {
 		console.error("❌ Failed to start bot:", error);
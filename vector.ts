@@ -21,11 +21,14 @@
  */
 
 import fs from "node:fs";
+import { FetchHttpClient } from "@effect/platform";
 import { Pinecone } from "@pinecone-database/pinecone";
 import { parse } from "csv-parse/sync";
 import dotenv from "dotenv";
+import { Effect, pipe } from "effect";
 import JSZip from "jszip";
 import winston from "winston";
+import { download } from "./effect-fetch.js";
 
 // Load environment variables
 dotenv.config();
@@ -91,17 +94,6 @@ function isValidNumber(value: number): boolean {
 	return !isNaN(value) && isFinite(value);
 }
 
-/**
- * Saves a Blob to a file
- * @param blob The Blob to save
- * @param filename The output filename
- */
-async function saveBlobToFile(blob: Blob, filename: string): Promise<void> {
-	const buffer = await blob.arrayBuffer();
-	fs.writeFileSync(filename, Buffer.from(buffer));
-	logger.info(`Saved blob to file: ${filename}`);
-}
-
 /**
  * Downloads the Spotify dataset from the specified URL
  * @returns Promise<Blob> The downloaded dataset as a blob
@@ -110,35 +102,31 @@ async function saveBlobToFile(blob: Blob, filename: string): Promise<void> {
 async function downloadSpotifyDataset(): Promise<Blob> {
 	logger.info("Starting dataset download");
 	try {
-		const response = await fetch(config.datasetUrl, {
-			method: "GET",
-			redirect: "follow",
-		});
-
-		if (!response.ok) {
-			const headers: Record<string, string> = {};
-			response.headers.forEach((value, key) => {
-				headers[key] = value;
-			});
-
-			logger.error(`HTTP error! status: ${response.status}`, {
-				headers,
-			});
-			throw new Error(`HTTP error! status: ${response.status}`);
-		}
-
-		const blob = await response.blob();
-		logger.info(
-			`Downloaded dataset: ${(blob.size / 1024 / 1024).toFixed(2)}MB`,
+		let loggedMb = 0;
+
+		// Stream straight to disk so the archive can be inspected afterwards
+		const { path, bytes } = await Effect.runPromise(
+			pipe(
+				download(config.datasetUrl, "downloaded_dataset.zip", {
+					timeout: 60_000,
+					onProgress: ({ loaded, total }) => {
+						const mb = Math.floor(loaded / 1024 / 1024);
+						if (mb < loggedMb + 10) return;
+
+						loggedMb = mb;
+						logger.info(
+							`Download progress: ${mb}MB${total ? ` of ${(total / 1024 / 1024).toFixed(2)}MB` : ""}`,
+						);
+					},
+				}),
+				Effect.provide(FetchHttpClient.layer),
+			),
 		);
 
-		// Log the MIME type of the downloaded file
-		logger.info(`Downloaded file type: ${blob.type}`);
-
-		// Save the blob to a file for inspection
-		await saveBlobToFile(blob, "downloaded_dataset.zip");
+		logger.info(`Downloaded dataset: ${(bytes / 1024 / 1024).toFixed(2)}MB`);
+		logger.info(`Saved dataset to file: ${path}`);
 
-		return blob;
+		return new Blob([fs.readFileSync(path)]);
 	} catch (error) {
 		logger.error("Failed to download dataset", {
 			error: (error as Error).stack,